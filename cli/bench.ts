@@ -0,0 +1,143 @@
+/**
+ * Recipe lookup benchmark.
+ * Builds a mix fixture from the Arc Flow exports (one 4M-style mix row per
+ * preference, with the variant split changing every few weeks), then times
+ * the indexed recipe lookup against a linear scan and reports the mix,
+ * wildcard and audit stage timings of a full transform.
+ *
+ * Usage:
+ *   npm run bench -- [--in source-data/arc-flow] [--sample 500]
+ */
+import { createReadStream } from 'node:fs';
+import { readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  parseAllFiles,
+  collectCsvChunks,
+  detectArcFlowFile,
+  buildRecipeLookup,
+  transform,
+} from '../src/transform';
+import type { MixRow, ParsedData, Recipe, TransformStage } from '../src/transform';
+
+const WEEKS = 52;
+const WEEKS_PER_SPLIT = 4;
+
+/**
+ * Mix rows for every location + production item in the preferences,
+ * one row per variant; the split between variants rotates every few weeks
+ */
+function buildMixFixture(data: ParsedData): MixRow[] {
+  const variants = new Map<string, string[]>();
+  for (const pref of data.preferences) {
+    const key = `${pref.locationCode}|${pref.productionItemNo}`;
+    const existing = variants.get(key) || [];
+    if (!existing.includes(pref.variantCode)) existing.push(pref.variantCode);
+    variants.set(key, existing);
+  }
+
+  const mixRows: MixRow[] = [];
+  for (const [key, codes] of variants) {
+    const [location, productionItem] = key.split('|');
+    codes.forEach((variantCode, index) => {
+      const weeklyPcts = new Map<number, number>();
+      for (let week = 1; week <= WEEKS; week++) {
+        const lead = Math.floor((week - 1) / WEEKS_PER_SPLIT) % codes.length;
+        const pct = codes.length === 1 ? 100 : index === lead ? 60 : 40 / (codes.length - 1);
+        weeklyPcts.set(week, Math.round(pct * 100) / 100);
+      }
+      mixRows.push({ location, commonItem: `CI-${productionItem}`, productionItem, variantCode, weeklyPcts });
+    });
+  }
+  return mixRows;
+}
+
+// The lookup the index replaced: scan every recipe for the narrowest covering window
+function linearPick(recipes: Recipe[], location: string, productionItem: string, week: number): Recipe | undefined {
+  let best: Recipe | undefined;
+  for (const recipe of recipes) {
+    if (recipe.locationCode !== location || recipe.series !== productionItem) continue;
+    if (week < recipe.startWeek || week > recipe.endWeek) continue;
+    if (!best || recipe.endWeek - recipe.startWeek < best.endWeek - best.startWeek) best = recipe;
+  }
+  return best;
+}
+
+function time<T>(run: () => T): { output: T; ms: number } {
+  const start = performance.now();
+  const output = run();
+  return { output, ms: performance.now() - start };
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      in: { type: 'string', default: 'source-data/arc-flow' },
+      sample: { type: 'string', default: '500' },
+    },
+  });
+  const sampleSize = Number(values.sample);
+  if (!Number.isInteger(sampleSize) || sampleSize <= 0) {
+    console.error('--sample must be a positive whole number');
+    return 2;
+  }
+
+  const files = [];
+  for (const name of (await readdir(values.in)).sort()) {
+    if (!name.toLowerCase().endsWith('.csv')) continue;
+    const content = await collectCsvChunks(createReadStream(join(values.in, name)));
+    files.push({ name, content, kind: detectArcFlowFile(name, content).kind });
+  }
+  const data = parseAllFiles(files);
+  data.mixRows = buildMixFixture(data);
+
+  // Full transform, keeping stage timings
+  const stageMs = new Map<TransformStage, number>();
+  const { output: result, ms: transformMs } = time(() =>
+    transform(data, {}, progress => {
+      if (progress.durationMs !== undefined) stageMs.set(progress.stage, progress.durationMs);
+    })
+  );
+  const recipes = result.recipes;
+
+  // One query per mix row and week
+  const queries = data.mixRows.flatMap(row =>
+    Array.from(row.weeklyPcts.keys(), week => ({ location: row.location, productionItem: row.productionItem, week }))
+  );
+
+  const { output: lookup, ms: buildMs } = time(() => buildRecipeLookup(recipes));
+  const { ms: indexedMs } = time(() => {
+    for (const q of queries) lookup.find(q.location, q.productionItem, q.week);
+  });
+
+  const step = Math.max(1, Math.floor(queries.length / sampleSize));
+  const sample = queries.filter((_, i) => i % step === 0).slice(0, sampleSize);
+  const { output: mismatches, ms: linearMs } = time(() =>
+    sample.filter(q => linearPick(recipes, q.location, q.productionItem, q.week) !== lookup.find(q.location, q.productionItem, q.week)).length
+  );
+
+  const perLinear = linearMs / sample.length;
+  const perIndexed = indexedMs / queries.length;
+  console.log(`Fixture: ${recipes.length.toLocaleString()} recipes, ${data.mixRows.length.toLocaleString()} mix rows, ${queries.length.toLocaleString()} week lookups`);
+  console.log(`Index build:      ${buildMs.toFixed(1)} ms`);
+  console.log(`Indexed lookups:  ${indexedMs.toFixed(1)} ms (${(perIndexed * 1000).toFixed(2)} µs each)`);
+  console.log(`Linear scan:      ${(perLinear * 1000).toFixed(0)} µs each on ${sample.length} samples ≈ ${((perLinear * queries.length) / 1000).toFixed(1)} s for all lookups`);
+  console.log(`Transform:        ${transformMs.toFixed(0)} ms — mixes ${stageMs.get('mixes')} ms, wildcards ${stageMs.get('wildcards')} ms, audit ${stageMs.get('audit')} ms`);
+  console.log(`Output:           ${result.mixes.length.toLocaleString()} mixes, ${result.wildcardRecipes.length.toLocaleString()} wildcard recipes`);
+
+  if (mismatches > 0) {
+    console.error(`${mismatches} sampled lookup(s) differ from the linear scan`);
+    return 1;
+  }
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  code => { process.exitCode = code; },
+  error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+);
@@ -0,0 +1,355 @@
+/**
+ * Headless entry point for the Arc Flow → PRODUCE transform.
+ * Runs the same parse → validate → transform → export chain as the dashboard,
+ * and additionally writes the T-SQL import script.
+ *
+ * Usage:
+ *   npm run blln -- transform --in source-data/arc-flow [--mix mixes.xlsx] [--locations map.json] [--space-models rules.json] [--phase-rules phases.json] [--exclusion-rules exclusions.json] [--ledger ids.json] [--merge concat|latest] [--plan-year 2026] [--week-rounding round|ceil|floor|fractional] [--baseline prev.xlsx] [--lineage] [--out dist/] [--prefix bln]
+ *
+ * Exit codes: 0 = success, 1 = transform errors or blocking validation issues, 2 = bad usage.
+ */
+import { createReadStream } from 'node:fs';
+import { readdir, readFile, mkdir, writeFile, access } from 'node:fs/promises';
+import { basename, join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import * as XLSX from 'xlsx';
+import {
+  parseAllFiles,
+  decodeCsvBytes,
+  collectCsvChunks,
+  detectArcFlowFile,
+  ARC_FLOW_FILE_LABELS,
+  describeMerge,
+  exportMergeReportCSV,
+  parseMixExcel,
+  transform,
+  buildExportFiles,
+  buildExcelWorkbook,
+  excelExportFilename,
+  exportSqlScript,
+  sqlExportFilename,
+  parseLocationMappings,
+  parseSpaceModelRules,
+  parsePhaseMergeRules,
+  parseEventExclusionRules,
+  parseIdLedger,
+  serializeIdLedger,
+  isoWeeksInYear,
+  isValidPlanYear,
+  MIN_PLAN_YEAR,
+  MAX_PLAN_YEAR,
+  DEFAULT_WEEK_ROUNDING,
+  WEEK_ROUNDING_LABELS,
+  isWeekRoundingPolicy,
+  misallocatedWeeks,
+  parseBaselineFiles,
+  buildDelta,
+  countDeltaRows,
+  buildDeltaExportFiles,
+  buildDeltaWorkbook,
+} from '../src/transform';
+import type { TransformOptions, ArcFlowMergeMode, WeekRoundingPolicy } from '../src/transform';
+import { validateParsedData } from '../src/transform/validator';
+
+const USAGE = `Usage: blln transform --in <dir> [--mix <file.xlsx>]... [--locations <file.json>] [--space-models <file.json>] [--phase-rules <file.json>] [--exclusion-rules <file.json>] [--ledger <file.json>] [--merge concat|latest] [--plan-year <yyyy>] [--week-rounding <policy>] [--baseline <file>]... [--lineage] [--out <dir>] [--prefix <name>]
+
+  --in            Directory containing the Arc Flow CSV exports
+  --mix           4M Variant Mixes Excel file (repeatable)
+  --locations     Location code → PRODUCE LocationID mapping JSON (default: built-in mapping)
+  --space-models  Space model rules JSON, per category or genus (default: square from area)
+  --phase-rules   Phase merge rules JSON: merge / standalone / ignore per phase, category or genus
+  --exclusion-rules Event exclusion rules JSON: recipe → event links to mark IsExcluded by phase, location or category
+  --ledger        Id ledger JSON: ids are reused from it and new ids written back (created if missing)
+  --merge         Several files of one export: concat (default) or latest (date suffix wins)
+  --plan-year     ISO plan year: 52/53-week calendar and start/end dates (default: 53 weeks, no dates)
+  --week-rounding Partial weeks: round (default), ceil, floor or fractional
+  --baseline      Previous BLN export workbook or PRODUCE extract (repeatable); also writes delta exports
+  --lineage       Add a Lineage sheet (source rows and steps per output row) to the Excel workbook
+  --out           Output directory (default: dist)
+  --prefix        File name prefix for exports (default: bln)`;
+
+/**
+ * Load every .csv file in a directory as { name, content }, content being the
+ * text chunks decoded from the file stream
+ */
+async function readCsvDirectory(dir: string): Promise<{ name: string; content: string[] }[]> {
+  const entries = await readdir(dir);
+  const files: { name: string; content: string[] }[] = [];
+
+  for (const name of entries.sort()) {
+    if (!name.toLowerCase().endsWith('.csv')) continue;
+    const content = await collectCsvChunks(createReadStream(join(dir, name)));
+    files.push({ name, content });
+  }
+
+  return files;
+}
+
+/**
+ * Read a file into a standalone ArrayBuffer (XLSX.read expects type 'array')
+ */
+async function readArrayBuffer(path: string): Promise<ArrayBuffer> {
+  const buffer = await readFile(path);
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+}
+
+async function runTransform(options: {
+  in: string;
+  mix: string[];
+  locations?: string;
+  spaceModels?: string;
+  phaseRules?: string;
+  exclusionRules?: string;
+  ledger?: string;
+  merge: ArcFlowMergeMode;
+  planYear?: number;
+  weekRounding: WeekRoundingPolicy;
+  baseline: string[];
+  lineage: boolean;
+  out: string;
+  prefix: string;
+}): Promise<number> {
+  const inDir = resolve(options.in);
+  const outDir = resolve(options.out);
+
+  const transformOptions: TransformOptions = { weekRounding: options.weekRounding };
+  if (options.planYear !== undefined) {
+    transformOptions.planYear = options.planYear;
+    console.log(`Plan year ${options.planYear}: ${isoWeeksInYear(options.planYear)} weeks`);
+  }
+  if (options.locations) {
+    transformOptions.locationMappings = parseLocationMappings(await readFile(resolve(options.locations), 'utf8'));
+    console.log(`Loaded ${transformOptions.locationMappings.length} location mapping(s) from ${options.locations}`);
+  }
+
+  if (options.spaceModels) {
+    transformOptions.spaceModelRules = parseSpaceModelRules(await readFile(resolve(options.spaceModels), 'utf8'));
+    console.log(`Loaded ${transformOptions.spaceModelRules.length} space model rule(s) from ${options.spaceModels}`);
+  }
+
+  if (options.phaseRules) {
+    transformOptions.phaseMergeRules = parsePhaseMergeRules(await readFile(resolve(options.phaseRules), 'utf8'));
+    console.log(`Loaded ${transformOptions.phaseMergeRules.length} phase merge rule(s) from ${options.phaseRules}`);
+  }
+  if (options.exclusionRules) {
+    transformOptions.eventExclusionRules = parseEventExclusionRules(await readFile(resolve(options.exclusionRules), 'utf8'));
+    console.log(`Loaded ${transformOptions.eventExclusionRules.length} event exclusion rule(s) from ${options.exclusionRules}`);
+  }
+
+  const ledgerPath = options.ledger ? resolve(options.ledger) : undefined;
+  if (ledgerPath && await access(ledgerPath).then(() => true, () => false)) {
+    transformOptions.idLedger = parseIdLedger(await readFile(ledgerPath, 'utf8'));
+    console.log(`Loaded id ledger from ${options.ledger}`);
+  }
+
+  // Parse
+  const csvFiles = await readCsvDirectory(inDir);
+  if (csvFiles.length === 0) {
+    console.error(`No CSV files found in ${inDir}`);
+    return 1;
+  }
+  console.log(`Parsing ${csvFiles.length} CSV file(s) from ${inDir}`);
+  const detectedFiles = csvFiles.map(file => {
+    const detection = detectArcFlowFile(file.name, file.content);
+    console.log(
+      `  ${file.name}: ${detection.kind ? ARC_FLOW_FILE_LABELS[detection.kind] : 'not an Arc Flow export'} ` +
+      `(${Math.round(detection.confidence * 100)}% — ${detection.reason})`
+    );
+    return { ...file, kind: detection.kind };
+  });
+  const parsedData = parseAllFiles(detectedFiles, options.merge);
+  if (parsedData.mergeReport) {
+    for (const line of describeMerge(parsedData.mergeReport)) console.log(`Merged ${line}`);
+  }
+
+  for (const mixPath of options.mix) {
+    const mixRows = parseMixExcel(await readArrayBuffer(resolve(mixPath)), basename(mixPath));
+    console.log(`Parsed ${mixRows.length} mix row(s) from ${mixPath}`);
+    parsedData.mixRows.push(...mixRows);
+  }
+
+  // Validate
+  const validation = validateParsedData(parsedData, transformOptions);
+  for (const issue of validation.issues) {
+    const line = `[${issue.severity}] ${issue.category}: ${issue.message}${issue.details ? ` (${issue.details})` : ''}`;
+    if (issue.severity === 'error') console.error(line);
+    else console.log(line);
+  }
+  console.log(`Data quality score: ${validation.qualityScore}/100`);
+
+  if (!validation.canTransform) {
+    console.error('Cannot transform: required scheme data is missing');
+    return 1;
+  }
+
+  // Transform
+  const startTime = Date.now();
+  const result = transform(parsedData, transformOptions);
+  console.log(
+    `Transform finished in ${Date.now() - startTime}ms: ` +
+    `${result.catalogs.length} catalogs, ${result.categories.length} categories, ` +
+    `${result.productionItems.length} production items, ${result.recipes.length} recipes, ` +
+    `${result.events.length} events, ${result.specs.length} specs, ${result.mixes.length} mixes, ` +
+    `${result.wildcardRecipes.length} wildcard recipes, ${result.warnings.length} warning(s)`
+  );
+  if (result.mixAudit.weeks.length > 0) {
+    console.log(
+      `Mix audit: ${misallocatedWeeks(result.mixAudit).length} misallocated week(s), ` +
+      `${result.mixAudit.unlinkedRows.length} unlinked row(s), ${result.mixAudit.orphanRecipes.length} orphan recipe(s)`
+    );
+  }
+  for (const err of result.errors) {
+    console.error(`[error] ${err}`);
+  }
+
+  // Export
+  await mkdir(outDir, { recursive: true });
+  for (const file of buildExportFiles(result, options.prefix)) {
+    await writeFile(join(outDir, file.name), file.content, 'utf8');
+    console.log(`Wrote ${join(outDir, file.name)}`);
+  }
+  const workbook = XLSX.write(buildExcelWorkbook(result, options.lineage), { type: 'buffer', bookType: 'xlsx', compression: true }) as Buffer;
+  const workbookPath = join(outDir, excelExportFilename(options.prefix));
+  await writeFile(workbookPath, workbook);
+  console.log(`Wrote ${workbookPath}`);
+  const sqlPath = join(outDir, sqlExportFilename(options.prefix));
+  await writeFile(sqlPath, exportSqlScript(result), 'utf8');
+  console.log(`Wrote ${sqlPath}`);
+  if (parsedData.mergeReport) {
+    const mergePath = join(outDir, `${options.prefix}-merge-report-${new Date().toISOString().split('T')[0]}.csv`);
+    await writeFile(mergePath, exportMergeReportCSV(parsedData.mergeReport), 'utf8');
+    console.log(`Wrote ${mergePath}`);
+  }
+
+  // Only a clean run may extend the ledger
+  if (ledgerPath && result.errors.length === 0) {
+    await writeFile(ledgerPath, serializeIdLedger(result.idLedger), 'utf8');
+    console.log(`Wrote ${ledgerPath}`);
+  }
+
+  // Delta export against the baseline
+  if (options.baseline.length > 0) {
+    const baselineFiles = await Promise.all(options.baseline.map(async path =>
+      path.toLowerCase().endsWith('.csv')
+        ? { name: basename(path), content: decodeCsvBytes(await readFile(resolve(path))) }
+        : { name: basename(path), excelData: await readArrayBuffer(resolve(path)) }
+    ));
+    const baseline = parseBaselineFiles(baselineFiles);
+    const delta = buildDelta(result, baseline.result, options.baseline.map(p => basename(p)).join(', '), baseline.tables);
+    console.log(
+      `Delta vs ${delta.baselineLabel}: ` +
+      delta.tables.map(t => `${t.label} +${t.inserts} ~${t.updates} -${t.deletes}`).join(', ')
+    );
+    for (const file of buildDeltaExportFiles(delta, options.prefix)) {
+      await writeFile(join(outDir, file.name), file.content, 'utf8');
+      console.log(`Wrote ${join(outDir, file.name)}`);
+    }
+    if (countDeltaRows(delta) > 0) {
+      const deltaPath = join(outDir, excelExportFilename(options.prefix, true));
+      await writeFile(deltaPath, XLSX.write(buildDeltaWorkbook(delta), { type: 'buffer', bookType: 'xlsx' }) as Buffer);
+      console.log(`Wrote ${deltaPath}`);
+    }
+  }
+
+  const blocking = validation.issues.filter(i => i.severity === 'error').length;
+  if (result.errors.length > 0 || blocking > 0) {
+    console.error(`Failed: ${result.errors.length} transform error(s), ${blocking} blocking validation issue(s)`);
+    return 1;
+  }
+
+  return 0;
+}
+
+function parseCommandLine(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      in: { type: 'string' },
+      mix: { type: 'string', multiple: true },
+      locations: { type: 'string' },
+      'space-models': { type: 'string' },
+      'phase-rules': { type: 'string' },
+      'exclusion-rules': { type: 'string' },
+      ledger: { type: 'string' },
+      merge: { type: 'string', default: 'concat' },
+      'plan-year': { type: 'string' },
+      'week-rounding': { type: 'string', default: DEFAULT_WEEK_ROUNDING },
+      baseline: { type: 'string', multiple: true },
+      lineage: { type: 'boolean', default: false },
+      out: { type: 'string', default: 'dist' },
+      prefix: { type: 'string', default: 'bln' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+}
+
+async function main(argv: string[]): Promise<number> {
+  let parsed: ReturnType<typeof parseCommandLine>;
+  try {
+    parsed = parseCommandLine(argv);
+  } catch (err) {
+    // Unknown options, missing option values
+    console.error(`${err instanceof Error ? err.message : String(err)}\n\n${USAGE}`);
+    return 2;
+  }
+  const { values, positionals } = parsed;
+
+  const command = positionals[0];
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!command) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  if (command !== 'transform') {
+    console.error(`Unknown command: ${command}\n\n${USAGE}`);
+    return 2;
+  }
+  if (values.merge !== 'concat' && values.merge !== 'latest') {
+    console.error(`--merge must be "concat" or "latest"\n\n${USAGE}`);
+    return 2;
+  }
+  const planYear = values['plan-year'] !== undefined ? Number(values['plan-year']) : undefined;
+  if (planYear !== undefined && !isValidPlanYear(planYear)) {
+    console.error(`--plan-year must be a year between ${MIN_PLAN_YEAR} and ${MAX_PLAN_YEAR}\n\n${USAGE}`);
+    return 2;
+  }
+  const weekRounding = values['week-rounding'];
+  if (!isWeekRoundingPolicy(weekRounding)) {
+    console.error(`--week-rounding must be one of ${Object.keys(WEEK_ROUNDING_LABELS).join(', ')}\n\n${USAGE}`);
+    return 2;
+  }
+  if (!values.in) {
+    console.error(`Missing --in <dir>\n\n${USAGE}`);
+    return 2;
+  }
+
+  return runTransform({
+    in: values.in,
+    mix: values.mix ?? [],
+    locations: values.locations,
+    spaceModels: values['space-models'],
+    phaseRules: values['phase-rules'],
+    exclusionRules: values['exclusion-rules'],
+    ledger: values.ledger,
+    merge: values.merge,
+    planYear,
+    weekRounding,
+    baseline: values.baseline ?? [],
+    lineage: values.lineage,
+    out: values.out,
+    prefix: values.prefix,
+  });
+}
+
+main(process.argv.slice(2)).then(
+  code => { process.exitCode = code; },
+  error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+);
@@ -7,6 +7,7 @@ import '@fontsource/montserrat/700.css';
 import produceTheme from './theme/produceTheme';
 import Layout from './components/Layout';
 import Dashboard from './pages/Dashboard';
+import History from './pages/History';
 
 function App() {
   return (
@@ -16,6 +17,7 @@ function App() {
         <Layout>
           <Routes>
             <Route path="/" element={<Dashboard />} />
+            <Route path="/history" element={<History />} />
           </Routes>
         </Layout>
       </BrowserRouter>
@@ -0,0 +1,137 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  Box,
+  Stack,
+  Button,
+  Alert,
+  Chip,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+} from '@mui/material';
+import CloudUploadIcon from '@mui/icons-material/CloudUpload';
+import type { TransformResult } from '../transform/types';
+import { parseBaselineFiles } from '../transform/runDiff';
+import { fileToArrayBuffer, readCsvFile } from '../transform';
+import { listRuns, loadRun } from '../history/runStore';
+import type { RunSummary } from '../history/runStore';
+
+export interface Baseline {
+  result: TransformResult;
+  label: string;
+  tables?: string[]; // tables covered by uploaded extracts (all when unset)
+}
+
+interface BaselinePickerProps {
+  onChange: (baseline: Baseline | null) => void;
+}
+
+/**
+ * Choose the "before" side of a comparison: a saved run, a previous BLN
+ * export workbook, or PRODUCE extracts (one file per table)
+ */
+export default function BaselinePicker({ onChange }: BaselinePickerProps) {
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState('');
+  const [uploadLabel, setUploadLabel] = useState('');
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    listRuns().then(setRuns, () => setRuns([]));
+  }, []);
+
+  const handleSelectRun = async (id: string) => {
+    setSelectedRunId(id);
+    setUploadLabel('');
+    setError('');
+    if (!id) {
+      onChange(null);
+      return;
+    }
+    try {
+      const run = await loadRun(id);
+      if (!run) throw new Error(`Run ${id} no longer exists`);
+      onChange({ result: run.transformResult, label: new Date(run.timestamp).toLocaleString() });
+    } catch (err) {
+      onChange(null);
+      setError(err instanceof Error ? err.message : 'Could not load run');
+    }
+  };
+
+  const handleUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    if (files.length === 0) return;
+    setSelectedRunId('');
+    setError('');
+    try {
+      const fileData = await Promise.all(files.map(async file =>
+        file.name.toLowerCase().endsWith('.csv')
+          ? { name: file.name, content: await readCsvFile(file) }
+          : { name: file.name, excelData: await fileToArrayBuffer(file) }
+      ));
+      const label = files.map(f => f.name).join(', ');
+      const parsed = parseBaselineFiles(fileData);
+      onChange({ result: parsed.result, tables: parsed.tables, label });
+      setUploadLabel(label);
+    } catch (err) {
+      onChange(null);
+      setUploadLabel('');
+      setError(err instanceof Error ? err.message : 'Could not read baseline files');
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  }, [onChange]);
+
+  const clearUpload = () => {
+    setUploadLabel('');
+    onChange(null);
+  };
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="warning" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>
+      )}
+
+      <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems="flex-end">
+        <FormControl size="small" sx={{ minWidth: 280 }}>
+          <InputLabel>Saved run</InputLabel>
+          <Select
+            value={selectedRunId}
+            onChange={(e) => handleSelectRun(e.target.value)}
+            label="Saved run"
+          >
+            <MenuItem value="">None</MenuItem>
+            {runs.map(run => (
+              <MenuItem key={run.id} value={run.id} disabled={run.errors > 0}>
+                {new Date(run.timestamp).toLocaleString()} — {run.recipes.toLocaleString()} recipes
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        <Button
+          variant="outlined"
+          startIcon={<CloudUploadIcon />}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          Upload Export / Extracts
+        </Button>
+
+        {uploadLabel && (
+          <Chip label={uploadLabel} variant="outlined" onDelete={clearUpload} />
+        )}
+      </Stack>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".xlsx,.xls,.csv"
+        multiple
+        onChange={handleUpload}
+        style={{ display: 'none' }}
+      />
+    </Box>
+  );
+}
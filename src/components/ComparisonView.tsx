@@ -42,9 +42,10 @@ import {
   detectCompareType,
   parseComparisonFile,
   compareData,
+  getOutputData,
 } from '../transform/comparator';
 import type { ComparisonResult, ComparisonRow } from '../transform/comparator';
-import { fileToArrayBuffer } from '../transform';
+import { fileToArrayBuffer, readCsvFile } from '../transform';
 
 interface ComparisonViewProps {
   result: TransformResult;
@@ -71,17 +72,6 @@ const STATUS_ICONS = {
   removed: <RemoveCircleOutlineIcon sx={{ color: '#c62828' }} fontSize="small" />,
 };
 
-function getOutputData(result: TransformResult, type: string): Record<string, unknown>[] {
-  switch (type) {
-    case 'recipes': return result.recipes as unknown as Record<string, unknown>[];
-    case 'catalogs': return result.catalogs as unknown as Record<string, unknown>[];
-    case 'events': return result.events as unknown as Record<string, unknown>[];
-    case 'specs': return result.specs as unknown as Record<string, unknown>[];
-    case 'mixes': return result.mixes as unknown as Record<string, unknown>[];
-    default: return [];
-  }
-}
-
 function exportComparisonCSV(comparison: ComparisonResult): string {
   const allFields = [...comparison.config.keyFields, ...comparison.config.compareFields];
   const header = ['Status', 'Key', ...allFields, 'Differences'].join(',');
@@ -94,7 +84,7 @@ function exportComparisonCSV(comparison: ComparisonResult): string {
       `"${row.key}"`,
       ...allFields.map(f => {
         const v = data[f] ?? '';
-        return v.includes(',') || v.includes('"') ? `"${v.replace(/"/g, '""')}"` : v;
+        return /[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
       }),
       `"${diffStr}"`,
     ];
@@ -123,7 +113,7 @@ export default function ComparisonView({ result }: ComparisonViewProps) {
     let fileData: { name: string; content?: string; excelData?: ArrayBuffer };
 
     if (file.name.endsWith('.csv')) {
-      const content = await file.text();
+      const content = await readCsvFile(file);
       fileData = { name: file.name, content };
     } else {
       const buffer = await fileToArrayBuffer(file);
@@ -25,14 +25,32 @@ import ErrorIcon from '@mui/icons-material/Error';
 import InfoIcon from '@mui/icons-material/Info';
 import ArrowForwardIcon from '@mui/icons-material/ArrowForward';
 import { PRODUCE_COLORS } from '../theme/produceTheme';
+import LocationMappingEditor from './LocationMappingEditor';
+import SpaceModelEditor from './SpaceModelEditor';
+import PhaseMergeEditor from './PhaseMergeEditor';
+import EventExclusionEditor from './EventExclusionEditor';
+import MergeReportCard from './MergeReportCard';
+import PlanCalendarCard from './PlanCalendarCard';
 import type { ValidationResult } from '../transform/validator';
-import type { ParsedData } from '../transform/types';
+import type { ParsedData, LocationMapping, SpaceModelRule, PhaseMergeRule, EventExclusionRule, WeekRoundingPolicy } from '../transform/types';
 
 interface DataQualityReportProps {
   validation: ValidationResult;
   parsedData: ParsedData;
   canTransform: boolean;
   onRunTransform: () => void;
+  locationMappings: LocationMapping[];
+  onLocationMappingsChange: (mappings: LocationMapping[]) => void;
+  spaceModelRules: SpaceModelRule[];
+  onSpaceModelRulesChange: (rules: SpaceModelRule[]) => void;
+  phaseMergeRules: PhaseMergeRule[];
+  onPhaseMergeRulesChange: (rules: PhaseMergeRule[]) => void;
+  eventExclusionRules: EventExclusionRule[];
+  onEventExclusionRulesChange: (rules: EventExclusionRule[]) => void;
+  planYear: number | null;
+  onPlanYearChange: (planYear: number | null) => void;
+  weekRounding: WeekRoundingPolicy;
+  onWeekRoundingChange: (policy: WeekRoundingPolicy) => void;
 }
 
 function QualityScoreBar({ score }: { score: number }) {
@@ -135,7 +153,24 @@ function PreviewTable({ title, rows, columns }: {
   );
 }
 
-export default function DataQualityReport({ validation, parsedData, canTransform, onRunTransform }: DataQualityReportProps) {
+export default function DataQualityReport({
+  validation,
+  parsedData,
+  canTransform,
+  onRunTransform,
+  locationMappings,
+  onLocationMappingsChange,
+  spaceModelRules,
+  onSpaceModelRulesChange,
+  phaseMergeRules,
+  onPhaseMergeRulesChange,
+  eventExclusionRules,
+  onEventExclusionRulesChange,
+  planYear,
+  onPlanYearChange,
+  weekRounding,
+  onWeekRoundingChange,
+}: DataQualityReportProps) {
   const { stats, issues, qualityScore } = validation;
   const errors = issues.filter(i => i.severity === 'error');
   const warnings = issues.filter(i => i.severity === 'warning');
@@ -215,6 +250,33 @@ export default function DataQualityReport({ validation, parsedData, canTransform
         </Card>
       </Stack>
 
+      {/* Merged Arc Flow files */}
+      {parsedData.mergeReport && <MergeReportCard report={parsedData.mergeReport} />}
+
+      {/* Location Mapping */}
+      <LocationMappingEditor
+        mappings={locationMappings}
+        locationCodes={[...stats.uniqueLocations, ...parsedData.mixRows.map(m => m.location)]}
+        onChange={onLocationMappingsChange}
+      />
+
+      {/* Space Model */}
+      <SpaceModelEditor rules={spaceModelRules} onChange={onSpaceModelRulesChange} />
+
+      {/* Phase Merge */}
+      <PhaseMergeEditor rules={phaseMergeRules} phases={stats.uniquePhases} onChange={onPhaseMergeRulesChange} />
+
+      {/* Event Exclusion */}
+      <EventExclusionEditor rules={eventExclusionRules} onChange={onEventExclusionRulesChange} />
+
+      {/* Plan Calendar */}
+      <PlanCalendarCard
+        planYear={planYear}
+        onChange={onPlanYearChange}
+        weekRounding={weekRounding}
+        onWeekRoundingChange={onWeekRoundingChange}
+      />
+
       {/* Issues */}
       {issues.length > 0 && (
         <Card sx={{ mb: 3 }}>
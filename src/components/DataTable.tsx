@@ -1,4 +1,5 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, Fragment } from 'react';
+import type { ReactNode } from 'react';
 import {
   Box,
   Table,
@@ -39,6 +40,8 @@ interface DataTableProps {
   downloadFilename?: string;
   maxHeight?: number;
   compact?: boolean;
+  /** Drill-down content shown under a row when it is clicked */
+  renderDetail?: (row: Record<string, unknown>) => ReactNode;
 }
 
 type Order = 'asc' | 'desc';
@@ -70,7 +73,7 @@ function generateCSV(data: Record<string, unknown>[], columns: ColumnDef[]): str
     columns.map(col => {
       const val = row[col.key];
       const str = col.format ? col.format(val) : String(val ?? '');
-      if (str.includes(',') || str.includes('"') || str.includes('\n')) {
+      if (/[",\r\n]/.test(str)) {
         return `"${str.replace(/"/g, '""')}"`;
       }
       return str;
@@ -99,12 +102,14 @@ export default function DataTable({
   downloadFilename,
   maxHeight = 600,
   compact = false,
+  renderDetail,
 }: DataTableProps) {
   const [order, setOrder] = useState<Order>('asc');
   const [orderBy, setOrderBy] = useState<string>(columns[0]?.key ?? '');
   const [page, setPage] = useState(0);
   const [rowsPerPage, setRowsPerPage] = useState(defaultRowsPerPage);
   const [search, setSearch] = useState('');
+  const [expandedRow, setExpandedRow] = useState<Record<string, unknown> | null>(null);
 
   const filteredData = useMemo(() => {
     if (!search.trim()) return data;
@@ -232,11 +237,14 @@ export default function DataTable({
               </TableRow>
             ) : (
               paginatedData.map((row, rowIdx) => (
+                <Fragment key={rowIdx}>
                 <TableRow
-                  key={rowIdx}
                   hover
+                  selected={expandedRow === row}
+                  onClick={renderDetail ? () => setExpandedRow(expandedRow === row ? null : row) : undefined}
                   sx={{
                     '&:nth-of-type(even)': { backgroundColor: 'rgba(0,0,0,0.02)' },
+                    ...(renderDetail ? { cursor: 'pointer' } : {}),
                   }}
                 >
                   {columns.map((col) => {
@@ -261,6 +269,14 @@ export default function DataTable({
                     );
                   })}
                 </TableRow>
+                {renderDetail && expandedRow === row && (
+                  <TableRow>
+                    <TableCell colSpan={columns.length} sx={{ p: 0 }}>
+                      {renderDetail(row)}
+                    </TableCell>
+                  </TableRow>
+                )}
+                </Fragment>
               ))
             )}
           </TableBody>
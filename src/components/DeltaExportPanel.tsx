@@ -0,0 +1,109 @@
+import { useState, useMemo } from 'react';
+import {
+  Box,
+  Stack,
+  Button,
+  Chip,
+  Typography,
+  Alert,
+} from '@mui/material';
+import DownloadIcon from '@mui/icons-material/Download';
+import DifferenceIcon from '@mui/icons-material/Difference';
+import BaselinePicker from './BaselinePicker';
+import type { Baseline } from './BaselinePicker';
+import type { TransformResult } from '../transform/types';
+import { buildDelta, countDeltaRows } from '../transform/delta';
+import type { DeltaTable } from '../transform/delta';
+import { downloadAsExcel, downloadFile, exportDeltaCSV } from '../transform/exporter';
+
+interface DeltaExportPanelProps {
+  result: TransformResult;
+}
+
+const ACTION_CHIPS = [
+  { key: 'inserts', label: 'insert', color: '#1565c0' },
+  { key: 'updates', label: 'update', color: '#e65100' },
+  { key: 'deletes', label: 'delete', color: '#c62828' },
+] as const;
+
+/**
+ * Delta export: only the inserts / updates / deletes needed to bring PRODUCE
+ * from a baseline (previous run or PRODUCE extract) up to this run
+ */
+export default function DeltaExportPanel({ result }: DeltaExportPanelProps) {
+  const [baseline, setBaseline] = useState<Baseline | null>(null);
+
+  const delta = useMemo(
+    () => (baseline ? buildDelta(result, baseline.result, baseline.label, baseline.tables) : null),
+    [result, baseline]
+  );
+
+  const handleDownloadCSV = (table: DeltaTable) => {
+    const timestamp = new Date().toISOString().split('T')[0];
+    downloadFile(exportDeltaCSV(table), `bln-delta-${table.type}-${timestamp}.csv`);
+  };
+
+  return (
+    <Box sx={{ px: 1.5 }}>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Pick the baseline PRODUCE currently holds. Each exported row carries an <strong>action</strong> column
+        (insert / update / delete) and, for updates and deletes, the baseline id it replaces.
+      </Typography>
+
+      <BaselinePicker onChange={setBaseline} />
+
+      {delta && (
+        <Box sx={{ mt: 2 }}>
+          {countDeltaRows(delta) === 0 ? (
+            <Alert severity="success">Nothing changed since {delta.baselineLabel} — no delta to export.</Alert>
+          ) : (
+            <>
+              <Stack spacing={0.5} sx={{ mb: 2 }}>
+                {delta.tables.map(table => (
+                  <Stack key={table.type} direction="row" alignItems="center" justifyContent="space-between" sx={{
+                    py: 1,
+                    px: 1.5,
+                    borderRadius: 1,
+                    '&:hover': { backgroundColor: '#f8f8f8' },
+                  }}>
+                    <Stack direction="row" spacing={1} alignItems="center">
+                      <Typography variant="body2" sx={{ fontWeight: 500, minWidth: 110 }}>{table.label}</Typography>
+                      {ACTION_CHIPS.map(chip => (
+                        <Chip
+                          key={chip.key}
+                          label={`${table[chip.key].toLocaleString()} ${chip.label}`}
+                          size="small"
+                          variant="outlined"
+                          sx={{
+                            height: 20,
+                            fontSize: '0.7rem',
+                            color: table[chip.key] > 0 ? chip.color : 'text.secondary',
+                          }}
+                        />
+                      ))}
+                    </Stack>
+                    <Button
+                      size="small"
+                      startIcon={<DownloadIcon />}
+                      onClick={() => handleDownloadCSV(table)}
+                      disabled={table.rows.length === 0}
+                    >
+                      CSV
+                    </Button>
+                  </Stack>
+                ))}
+              </Stack>
+              <Button
+                variant="outlined"
+                startIcon={<DifferenceIcon />}
+                onClick={() => downloadAsExcel(result, 'bln', delta)}
+              >
+                Download Delta Workbook ({countDeltaRows(delta).toLocaleString()} rows)
+              </Button>
+            </>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+}
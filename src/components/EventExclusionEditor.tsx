@@ -0,0 +1,221 @@
+import { useState, useRef, useCallback } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Stack,
+  Button,
+  Chip,
+  Alert,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  TextField,
+  Select,
+  MenuItem,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
+import EventBusyIcon from '@mui/icons-material/EventBusy';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import SaveIcon from '@mui/icons-material/Save';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import { PRODUCE_COLORS } from '../theme/produceTheme';
+import type { EventExclusionRule, EventExclusionScope } from '../transform/types';
+import {
+  EVENT_EXCLUSION_SCOPE_LABELS,
+  parseEventExclusionRules,
+  serializeEventExclusionRules,
+} from '../transform/eventExclusion';
+import { downloadFile } from '../transform/exporter';
+
+interface EventExclusionEditorProps {
+  rules: EventExclusionRule[];
+  onChange: (rules: EventExclusionRule[]) => void;
+}
+
+/**
+ * Check draft rules, returning cleaned-up rules or an error message
+ */
+function checkRules(rows: EventExclusionRule[]): EventExclusionRule[] | string {
+  const seen = new Set<string>();
+  const rules: EventExclusionRule[] = [];
+
+  for (const row of rows) {
+    const value = row.value.trim().toUpperCase();
+    if (!value) return `Every rule needs a ${row.scope}`;
+    const key = `${row.scope}:${value}`;
+    if (seen.has(key)) return `Duplicate rule: ${key}`;
+    seen.add(key);
+    rules.push({ scope: row.scope, value });
+  }
+
+  return rules;
+}
+
+export default function EventExclusionEditor({ rules, onChange }: EventExclusionEditorProps) {
+  const [draft, setDraft] = useState<EventExclusionRule[]>(rules);
+  const [error, setError] = useState('');
+  const [dirty, setDirty] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const commit = useCallback((next: EventExclusionRule[]) => {
+    setDraft(next);
+    setDirty(false);
+    setError('');
+    onChange(next);
+  }, [onChange]);
+
+  const updateRow = (index: number, update: Partial<EventExclusionRule>) => {
+    setDraft(prev => prev.map((row, i) => (i === index ? { ...row, ...update } : row)));
+    setDirty(true);
+  };
+
+  const addRow = () => {
+    setDraft(prev => [...prev, { scope: 'location', value: '' }]);
+    setDirty(true);
+  };
+
+  const removeRow = (index: number) => {
+    setDraft(prev => prev.filter((_, i) => i !== index));
+    setDirty(true);
+  };
+
+  const handleSave = () => {
+    const result = checkRules(draft);
+    if (typeof result === 'string') {
+      setError(result);
+      return;
+    }
+    commit(result);
+  };
+
+  const handleImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      commit(parseEventExclusionRules(await file.text()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid event exclusion rules file');
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  }, [commit]);
+
+  const handleExport = () => {
+    downloadFile(serializeEventExclusionRules(rules), 'bln-event-exclusion-rules.json', 'application/json');
+  };
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ mb: 1 }}>
+          <Stack direction="row" alignItems="center" spacing={1}>
+            <EventBusyIcon sx={{ color: PRODUCE_COLORS.primary }} />
+            <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+              Event Exclusion Rules
+            </Typography>
+            <Chip label={`${rules.length} rule${rules.length !== 1 ? 's' : ''}`} size="small" />
+          </Stack>
+          <Stack direction="row" spacing={1}>
+            <Button size="small" startIcon={<FileUploadIcon />} onClick={() => fileInputRef.current?.click()}>
+              Import JSON
+            </Button>
+            <Button size="small" startIcon={<FileDownloadIcon />} onClick={handleExport}>
+              Export JSON
+            </Button>
+          </Stack>
+        </Stack>
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Recipes are linked to their reusable space event through Setup.RecipeSpaceEvents. Links matching a
+          rule are exported with <strong>IsExcluded</strong> set: a location or category rule matches the recipe,
+          a phase rule matches when the recipe has a space event in that phase.
+        </Typography>
+
+        {error && (
+          <Alert severity="warning" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>
+        )}
+
+        {draft.length > 0 && (
+          <TableContainer sx={{ maxHeight: 360, border: '1px solid #e0e0e0', borderRadius: 1 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell sx={{ fontWeight: 700, backgroundColor: '#f5f5f5', width: 150 }}>Applies To</TableCell>
+                  <TableCell sx={{ fontWeight: 700, backgroundColor: '#f5f5f5' }}>Phase / Location / Category</TableCell>
+                  <TableCell sx={{ backgroundColor: '#f5f5f5', width: 48 }} />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {draft.map((row, idx) => (
+                  <TableRow key={idx}>
+                    <TableCell>
+                      <Select
+                        size="small"
+                        variant="standard"
+                        fullWidth
+                        value={row.scope}
+                        onChange={(e) => updateRow(idx, { scope: e.target.value as EventExclusionScope })}
+                      >
+                        {(Object.keys(EVENT_EXCLUSION_SCOPE_LABELS) as EventExclusionScope[]).map(scope => (
+                          <MenuItem key={scope} value={scope}>{EVENT_EXCLUSION_SCOPE_LABELS[scope]}</MenuItem>
+                        ))}
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        size="small"
+                        variant="standard"
+                        fullWidth
+                        value={row.value}
+                        onChange={(e) => updateRow(idx, { value: e.target.value })}
+                        slotProps={{ htmlInput: { style: { fontFamily: 'monospace' } } }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Tooltip title="Remove rule">
+                        <IconButton size="small" onClick={() => removeRow(idx)}>
+                          <DeleteOutlineIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        <Stack direction="row" justifyContent="space-between" sx={{ mt: 2 }}>
+          <Button size="small" startIcon={<AddIcon />} onClick={addRow}>
+            Add Rule
+          </Button>
+          <Box>
+            {dirty && (
+              <Button size="small" color="inherit" sx={{ mr: 1 }} onClick={() => { setDraft(rules); setDirty(false); setError(''); }}>
+                Discard
+              </Button>
+            )}
+            <Button size="small" variant="contained" startIcon={<SaveIcon />} onClick={handleSave} disabled={!dirty}>
+              Save Rules
+            </Button>
+          </Box>
+        </Stack>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json"
+          onChange={handleImport}
+          style={{ display: 'none' }}
+        />
+      </CardContent>
+    </Card>
+  );
+}
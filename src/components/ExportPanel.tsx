@@ -9,20 +9,34 @@ import {
   Divider,
   Chip,
   Alert,
+  FormControlLabel,
+  Switch,
 } from '@mui/material';
 import DownloadIcon from '@mui/icons-material/Download';
 import TableViewIcon from '@mui/icons-material/TableView';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import StorageIcon from '@mui/icons-material/Storage';
 import type { TransformResult } from '../transform/types';
 import {
   exportCatalogsCSV,
+  exportCategoriesCSV,
+  exportProductionItemsCSV,
   exportRecipesCSV,
   exportEventsCSV,
+  exportEventDefinitionsCSV,
+  exportEventDetailsCSV,
+  exportTriggersCSV,
+  exportRecipeSpaceEventsCSV,
   exportSpecsCSV,
   exportMixesCSV,
+  exportRecipeMixesCSV,
+  exportBlnVariantMixesCSV,
+  exportWildcardRecipesCSV,
   downloadFile,
   downloadAsExcel,
 } from '../transform/exporter';
+import { exportSqlScript, sqlExportFilename } from '../transform/sqlExporter';
+import DeltaExportPanel from './DeltaExportPanel';
 
 interface ExportPanelProps {
   result: TransformResult;
@@ -37,20 +51,31 @@ interface ExportItem {
 
 export default function ExportPanel({ result }: ExportPanelProps) {
   const [excelDownloaded, setExcelDownloaded] = useState(false);
+  const [includeLineage, setIncludeLineage] = useState(false);
   const [csvDownloaded, setCsvDownloaded] = useState<Set<string>>(new Set());
+  const [sqlDownloaded, setSqlDownloaded] = useState(false);
 
   const exports: ExportItem[] = [
     { key: 'catalogs', label: 'Catalogs', count: result.catalogs.length, getCSV: () => exportCatalogsCSV(result.catalogs) },
+    { key: 'categories', label: 'Categories', count: result.categories.length, getCSV: () => exportCategoriesCSV(result.categories) },
+    { key: 'production-items', label: 'Production Items', count: result.productionItems.length, getCSV: () => exportProductionItemsCSV(result.productionItems) },
     { key: 'recipes', label: 'Recipes', count: result.recipes.length, getCSV: () => exportRecipesCSV(result.recipes) },
     { key: 'events', label: 'Events', count: result.events.length, getCSV: () => exportEventsCSV(result.events) },
+    { key: 'event-spaces', label: 'Event Definitions', count: result.eventDefinitions.length, getCSV: () => exportEventDefinitionsCSV(result.eventDefinitions) },
+    { key: 'event-details', label: 'Event Details', count: result.eventDetails.length, getCSV: () => exportEventDetailsCSV(result.eventDetails) },
+    { key: 'triggers', label: 'Triggers', count: result.triggers.length, getCSV: () => exportTriggersCSV(result.triggers) },
+    { key: 'recipe-space-events', label: 'Recipe Space Events', count: result.recipeSpaceEvents.length, getCSV: () => exportRecipeSpaceEventsCSV(result.recipeSpaceEvents) },
     { key: 'specs', label: 'Space Specs', count: result.specs.length, getCSV: () => exportSpecsCSV(result.specs) },
     { key: 'mixes', label: 'Mixes', count: result.mixes.length, getCSV: () => exportMixesCSV(result.mixes) },
+    { key: 'recipe-mixes', label: 'Setup.RecipeMixes', count: result.recipeMixes.length, getCSV: () => exportRecipeMixesCSV(result.recipeMixes) },
+    { key: 'bln-variant-mixes', label: 'dbo.BLNVariantMixes', count: result.blnVariantMixes.length, getCSV: () => exportBlnVariantMixesCSV(result.blnVariantMixes) },
+    { key: 'wildcard-recipes', label: 'Wildcard Recipes', count: result.wildcardRecipes.length, getCSV: () => exportWildcardRecipesCSV(result.wildcardRecipes) },
   ];
 
   const totalRows = exports.reduce((sum, e) => sum + e.count, 0);
 
   const handleDownloadExcel = () => {
-    downloadAsExcel(result);
+    downloadAsExcel(result, 'bln', undefined, includeLineage);
     setExcelDownloaded(true);
   };
 
@@ -61,6 +86,11 @@ export default function ExportPanel({ result }: ExportPanelProps) {
     setCsvDownloaded(prev => new Set([...prev, item.key]));
   };
 
+  const handleDownloadSQL = () => {
+    downloadFile(exportSqlScript(result), sqlExportFilename(), 'application/sql');
+    setSqlDownloaded(true);
+  };
+
   return (
     <Card>
       <CardContent>
@@ -97,6 +127,12 @@ export default function ExportPanel({ result }: ExportPanelProps) {
           >
             {excelDownloaded ? 'Downloaded — Click to Re-download' : 'Download Excel Workbook'}
           </Button>
+          <Box sx={{ mt: 1 }}>
+            <FormControlLabel
+              control={<Switch size="small" checked={includeLineage} onChange={e => setIncludeLineage(e.target.checked)} />}
+              label={<Typography variant="body2" color="text.secondary">Add a Lineage sheet (source rows and steps per row — much larger file)</Typography>}
+            />
+          </Box>
         </Box>
 
         <Divider sx={{ my: 2 }}>
@@ -136,6 +172,40 @@ export default function ExportPanel({ result }: ExportPanelProps) {
           ))}
         </Stack>
 
+        <Divider sx={{ my: 2 }}>
+          <Chip label="or load directly into PRODUCE" size="small" />
+        </Divider>
+
+        {/* Tertiary: T-SQL import script */}
+        <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ py: 1, px: 1.5 }}>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <Box>
+              <Typography variant="body2" sx={{ fontWeight: 500 }}>SQL Import Script</Typography>
+              <Typography variant="caption" color="text.secondary">
+                Idempotent T-SQL MERGE into Import, Setup, Events, SpacePlanning and BLNVariantMixes tables
+              </Typography>
+            </Box>
+            {sqlDownloaded && (
+              <CheckCircleIcon sx={{ color: '#2e7d32', fontSize: 16 }} />
+            )}
+          </Stack>
+          <Button
+            size="small"
+            startIcon={<StorageIcon />}
+            onClick={handleDownloadSQL}
+            disabled={result.recipes.length === 0}
+          >
+            SQL
+          </Button>
+        </Stack>
+
+        <Divider sx={{ my: 2 }}>
+          <Chip label="or export only what changed" size="small" />
+        </Divider>
+
+        {/* Delta: inserts / updates / deletes against a baseline */}
+        <DeltaExportPanel result={result} />
+
         {excelDownloaded && (
           <Alert severity="success" sx={{ mt: 2 }} icon={<CheckCircleIcon />}>
             Export complete! Import the file into PRODUCE.
@@ -14,6 +14,12 @@ import {
   ListItemIcon,
   ListItemText,
   Divider,
+  Select,
+  MenuItem,
+  Tooltip,
+  ToggleButton,
+  ToggleButtonGroup,
+  CircularProgress,
 } from '@mui/material';
 import CloudUploadIcon from '@mui/icons-material/CloudUpload';
 import InsertDriveFileIcon from '@mui/icons-material/InsertDriveFile';
@@ -23,21 +29,41 @@ import RadioButtonUncheckedIcon from '@mui/icons-material/RadioButtonUnchecked';
 import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
 import ArrowForwardIcon from '@mui/icons-material/ArrowForward';
 import RestartAltIcon from '@mui/icons-material/RestartAlt';
+import CallMergeIcon from '@mui/icons-material/CallMerge';
 import { PRODUCE_COLORS } from '../theme/produceTheme';
-import type { UploadedFile } from '../hooks/useTransformPipeline';
+import type { ArcFlowFileStatus } from '../hooks/useTransformPipeline';
+import type { ArcFlowFileKind, ArcFlowMergeMode, UploadedFile } from '../transform/types';
+import { ARC_FLOW_FILE_KINDS, ARC_FLOW_FILE_LABELS } from '../transform/arcFlowFiles';
+import { MERGE_MODE_LABELS } from '../transform/mergeDrops';
 
 interface FileUploaderProps {
   uploadedFiles: UploadedFile[];
-  arcFlowFileStatus: { name: string; present: boolean }[];
+  arcFlowFileStatus: ArcFlowFileStatus[];
   hasAllArcFlow: boolean;
+  hasMergedArcFlow: boolean;
+  mergeMode: ArcFlowMergeMode;
+  onMergeModeChange: (mode: ArcFlowMergeMode) => void;
   hasExcel: boolean;
   canProceedToValidate: boolean;
+  isParsing: boolean;
+  parseDetail: string | null;
+  onCancelParse: () => void;
   onAddFiles: (files: File[]) => Promise<void>;
   onRemoveFile: (index: number) => void;
+  onSetFileKind: (index: number, kind: ArcFlowFileKind | null) => void;
   onClearFiles: () => void;
   onProceed: () => void;
 }
 
+// Select value for "not an Arc Flow export"
+const NO_KIND = 'none';
+
+function confidenceColor(confidence: number): 'success' | 'warning' | 'error' {
+  if (confidence >= 0.9) return 'success';
+  if (confidence >= 0.5) return 'warning';
+  return 'error';
+}
+
 function formatFileSize(bytes: number): string {
   if (bytes < 1024) return `${bytes} B`;
   if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
@@ -48,15 +74,23 @@ export default function FileUploader({
   uploadedFiles,
   arcFlowFileStatus,
   hasAllArcFlow,
+  hasMergedArcFlow,
+  mergeMode,
+  onMergeModeChange,
   hasExcel,
   canProceedToValidate,
+  isParsing,
+  parseDetail,
+  onCancelParse,
   onAddFiles,
   onRemoveFile,
+  onSetFileKind,
   onClearFiles,
   onProceed,
 }: FileUploaderProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isDragOver, setIsDragOver] = useState(false);
+  const mergedKinds = new Set(arcFlowFileStatus.filter(s => s.files.length > 1).map(s => s.kind));
 
   const handleFiles = useCallback(async (fileList: FileList | File[]) => {
     const files = Array.from(fileList).filter(
@@ -159,20 +193,31 @@ export default function FileUploader({
           }}
         >
           <Typography variant="body2" sx={{ fontWeight: 500, color: canProceedToValidate ? 'text.primary' : 'text.secondary' }}>
-            {canProceedToValidate
-              ? `${uploadedFiles.length} file${uploadedFiles.length !== 1 ? 's' : ''} ready — proceed to validation`
-              : `Upload all required files to continue`}
+            {isParsing
+              ? parseDetail ?? 'Parsing files...'
+              : canProceedToValidate
+                ? `${uploadedFiles.length} file${uploadedFiles.length !== 1 ? 's' : ''} ready — proceed to validation`
+                : 'Upload all required files to continue'}
           </Typography>
-          <Button
-            variant="contained"
-            size="large"
-            endIcon={<ArrowForwardIcon />}
-            onClick={onProceed}
-            disabled={!canProceedToValidate}
-            sx={{ minWidth: 200, fontWeight: 600, py: 1 }}
-          >
-            Next: Validate Data
-          </Button>
+          {isParsing ? (
+            <Stack direction="row" spacing={1} alignItems="center">
+              <CircularProgress size={20} sx={{ color: PRODUCE_COLORS.primary }} />
+              <Button variant="outlined" color="inherit" onClick={onCancelParse}>
+                Cancel
+              </Button>
+            </Stack>
+          ) : (
+            <Button
+              variant="contained"
+              size="large"
+              endIcon={<ArrowForwardIcon />}
+              onClick={onProceed}
+              disabled={!canProceedToValidate}
+              sx={{ minWidth: 200, fontWeight: 600, py: 1 }}
+            >
+              Next: Validate Data
+            </Button>
+          )}
         </Stack>
       )}
 
@@ -189,9 +234,11 @@ export default function FileUploader({
             </Typography>
             <List dense disablePadding>
               {arcFlowFileStatus.map((af) => (
-                <ListItem key={af.name} disableGutters sx={{ py: 0.5 }}>
+                <ListItem key={af.kind} disableGutters sx={{ py: 0.5 }}>
                   <ListItemIcon sx={{ minWidth: 36 }}>
-                    {af.present ? (
+                    {af.files.length > 1 ? (
+                      <CallMergeIcon sx={{ color: '#2e7d32' }} fontSize="small" />
+                    ) : af.present ? (
                       <CheckCircleIcon sx={{ color: '#2e7d32' }} fontSize="small" />
                     ) : (
                       <RadioButtonUncheckedIcon sx={{ color: '#999' }} fontSize="small" />
@@ -199,6 +246,7 @@ export default function FileUploader({
                   </ListItemIcon>
                   <ListItemText
                     primary={af.name}
+                    secondary={af.files.length > 0 ? af.files.join(', ') : undefined}
                     slotProps={{
                       primary: {
                         sx: {
@@ -288,14 +336,37 @@ export default function FileUploader({
                         {file.rowCount !== undefined && (
                           <Chip label={`${file.rowCount.toLocaleString()} rows`} size="small" variant="outlined" sx={{ height: 20, fontSize: '0.7rem' }} />
                         )}
-                        <Chip
-                          label={file.type === 'arc-flow' ? 'Arc Flow' : file.type === 'excel' ? 'Excel' : 'Unknown'}
-                          size="small"
-                          color={file.type === 'arc-flow' ? 'primary' : file.type === 'excel' ? 'success' : 'default'}
-                          sx={{ height: 20, fontSize: '0.7rem' }}
-                        />
+                        {file.type === 'excel' ? (
+                          <Chip label="Excel" size="small" color="success" sx={{ height: 20, fontSize: '0.7rem' }} />
+                        ) : file.detection && (
+                          <Tooltip title={file.kindOverridden ? `Set manually (detected: ${file.detection.reason})` : file.detection.reason}>
+                            <Chip
+                              label={file.kindOverridden ? 'Manual' : `${Math.round(file.detection.confidence * 100)}% match`}
+                              size="small"
+                              variant="outlined"
+                              color={file.kindOverridden ? 'default' : confidenceColor(file.detection.confidence)}
+                              sx={{ height: 20, fontSize: '0.7rem' }}
+                            />
+                          </Tooltip>
+                        )}
+                        {file.arcFlowKind && mergedKinds.has(file.arcFlowKind) && (
+                          <Chip label="Merged" size="small" color="info" variant="outlined" sx={{ height: 20, fontSize: '0.7rem' }} />
+                        )}
                       </Stack>
                     </Box>
+                    {file.type !== 'excel' && (
+                      <Select
+                        size="small"
+                        value={file.arcFlowKind ?? NO_KIND}
+                        onChange={(e) => onSetFileKind(idx, e.target.value === NO_KIND ? null : e.target.value as ArcFlowFileKind)}
+                        sx={{ minWidth: 210, fontSize: '0.8rem', '& .MuiSelect-select': { py: 0.5 } }}
+                      >
+                        {ARC_FLOW_FILE_KINDS.map(kind => (
+                          <MenuItem key={kind} value={kind} sx={{ fontSize: '0.8rem' }}>{ARC_FLOW_FILE_LABELS[kind]}</MenuItem>
+                        ))}
+                        <MenuItem value={NO_KIND} sx={{ fontSize: '0.8rem' }}>Not an Arc Flow export</MenuItem>
+                      </Select>
+                    )}
                     <IconButton size="small" onClick={() => onRemoveFile(idx)} sx={{ opacity: 0.5, '&:hover': { opacity: 1 } }}>
                       <DeleteOutlineIcon fontSize="small" />
                     </IconButton>
@@ -309,6 +380,34 @@ export default function FileUploader({
 
       {/* Status Alerts */}
       <Box sx={{ mt: 3 }}>
+        {hasMergedArcFlow && (
+          <Alert
+            severity="info"
+            sx={{ mb: 2, '& .MuiAlert-message': { flex: 1 } }}
+          >
+            <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems={{ md: 'center' }} justifyContent="space-between">
+              <Box>
+                Several files hold the same Arc Flow export:{' '}
+                {arcFlowFileStatus.filter(s => s.files.length > 1).map(s => `${s.name} (${s.files.length} files)`).join(', ')}.
+                {mergeMode === 'latest'
+                  ? ' Rows from the file with the latest date suffix (e.g. 260203) override earlier files.'
+                  : ' All rows are combined; identical rows are dropped and differing rows are reported as conflicts.'}
+              </Box>
+              <ToggleButtonGroup
+                size="small"
+                exclusive
+                value={mergeMode}
+                onChange={(_, mode: ArcFlowMergeMode | null) => mode && onMergeModeChange(mode)}
+              >
+                {(Object.keys(MERGE_MODE_LABELS) as ArcFlowMergeMode[]).map(mode => (
+                  <ToggleButton key={mode} value={mode} sx={{ textTransform: 'none', whiteSpace: 'nowrap' }}>
+                    {MERGE_MODE_LABELS[mode]}
+                  </ToggleButton>
+                ))}
+              </ToggleButtonGroup>
+            </Stack>
+          </Alert>
+        )}
         {!hasAllArcFlow && uploadedFiles.length > 0 && (
           <Alert severity="warning">
             Missing {4 - arcFlowFileStatus.filter(f => f.present).length} required Arc Flow file(s):
@@ -0,0 +1,115 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Stack,
+  Button,
+  Chip,
+  Alert,
+} from '@mui/material';
+import KeyIcon from '@mui/icons-material/Key';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import RestartAltIcon from '@mui/icons-material/RestartAlt';
+import { PRODUCE_COLORS } from '../theme/produceTheme';
+import type { IdLedger } from '../transform/types';
+import { ID_LEDGER_TABLES, countLedgerEntries, parseIdLedger, serializeIdLedger } from '../transform/idLedger';
+import { downloadFile } from '../transform/exporter';
+import { loadIdLedger, saveIdLedger, clearIdLedger } from '../history/runStore';
+
+/**
+ * The id ledger behind stable ids: how many keys each table holds, plus
+ * export / import (to share ids between machines or the CLI) and reset
+ */
+export default function IdLedgerCard() {
+  const [ledger, setLedger] = useState<IdLedger | null>(null);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(() => {
+    loadIdLedger().then(setLedger, err => setError(err instanceof Error ? err.message : 'Could not read id ledger'));
+  }, []);
+
+  useEffect(refresh, [refresh]);
+
+  const handleExport = () => {
+    if (!ledger) return;
+    downloadFile(serializeIdLedger(ledger), 'bln-id-ledger.json', 'application/json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      await saveIdLedger(parseIdLedger(await file.text()));
+      setError('');
+      refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not import id ledger');
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm('Forget all allocated ids? The next run numbers every table from 1 again.')) return;
+    try {
+      await clearIdLedger();
+      refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not reset id ledger');
+    }
+  };
+
+  const counts = ledger ? countLedgerEntries(ledger) : null;
+
+  return (
+    <Card sx={{ mt: 3 }}>
+      <CardContent>
+        <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 1 }}>
+          <KeyIcon sx={{ color: PRODUCE_COLORS.primary }} />
+          <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+            Id Ledger
+          </Typography>
+        </Stack>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Every run looks up catalog, recipe, event, spec and mix ids here by natural key, so the same
+          logical row keeps its id from one Arc Flow drop to the next. New rows get ids above any
+          handed out before.
+        </Typography>
+
+        {error && (
+          <Alert severity="warning" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>
+        )}
+
+        <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap sx={{ mb: 2 }}>
+          {counts ? ID_LEDGER_TABLES.map(table => (
+            <Chip key={table} label={`${table}: ${counts[table].toLocaleString()}`} size="small" variant="outlined" />
+          )) : (
+            <Chip label="Empty — the next run starts from id 1" size="small" variant="outlined" />
+          )}
+        </Stack>
+
+        <Stack direction="row" spacing={1}>
+          <Button size="small" variant="outlined" startIcon={<FileDownloadIcon />} disabled={!ledger} onClick={handleExport}>
+            Export JSON
+          </Button>
+          <Button size="small" variant="outlined" startIcon={<FileUploadIcon />} onClick={() => fileInputRef.current?.click()}>
+            Import JSON
+          </Button>
+          <Button size="small" color="error" startIcon={<RestartAltIcon />} disabled={!ledger} onClick={handleReset}>
+            Reset
+          </Button>
+        </Stack>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json"
+          onChange={handleImport}
+          style={{ display: 'none' }}
+        />
+      </CardContent>
+    </Card>
+  );
+}
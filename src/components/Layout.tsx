@@ -1,11 +1,17 @@
 import type { ReactNode } from 'react';
-import { Box, AppBar, Toolbar, Typography, Container } from '@mui/material';
+import { Box, AppBar, Toolbar, Typography, Container, Button, Stack } from '@mui/material';
+import { NavLink } from 'react-router-dom';
 import { PRODUCE_COLORS } from '../theme/produceTheme';
 
 interface LayoutProps {
   children: ReactNode;
 }
 
+const NAV_ITEMS = [
+  { to: '/', label: 'Pipeline' },
+  { to: '/history', label: 'History' },
+];
+
 export default function Layout({ children }: LayoutProps) {
   return (
     <Box sx={{ display: 'flex', flexDirection: 'column', minHeight: '100vh' }}>
@@ -14,6 +20,21 @@ export default function Layout({ children }: LayoutProps) {
           <Typography variant="h6" component="div" sx={{ flexGrow: 1, fontWeight: 700 }}>
             BLN Data Sync
           </Typography>
+          <Stack direction="row" spacing={1} sx={{ mr: 3 }}>
+            {NAV_ITEMS.map(item => (
+              <Button
+                key={item.to}
+                component={NavLink}
+                to={item.to}
+                end
+                color="inherit"
+                size="small"
+                sx={{ fontWeight: 600, opacity: 0.8, '&.active': { opacity: 1, borderBottom: '2px solid currentColor', borderRadius: 0 } }}
+              >
+                {item.label}
+              </Button>
+            ))}
+          </Stack>
           <Typography variant="body2" sx={{ opacity: 0.9 }}>
             Bell Nursery → PRODUCE
           </Typography>
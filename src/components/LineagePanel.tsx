@@ -0,0 +1,57 @@
+import {
+  Box,
+  Stack,
+  Typography,
+  Chip,
+} from '@mui/material';
+import AccountTreeIcon from '@mui/icons-material/AccountTree';
+import { PRODUCE_COLORS } from '../theme/produceTheme';
+import type { Lineage } from '../transform/types';
+import { SOURCE_KIND_LABELS, sourceLabel } from '../transform/lineage';
+
+interface LineagePanelProps {
+  lineage: Lineage;
+}
+
+/**
+ * "Why does this row exist": source rows and derivation steps for one output row
+ */
+export default function LineagePanel({ lineage }: LineagePanelProps) {
+  return (
+    <Box sx={{ p: 2, backgroundColor: PRODUCE_COLORS.background, borderLeft: `3px solid ${PRODUCE_COLORS.primary}` }}>
+      <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 1 }}>
+        <AccountTreeIcon fontSize="small" sx={{ color: PRODUCE_COLORS.primary }} />
+        <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>Lineage</Typography>
+      </Stack>
+
+      <Typography variant="caption" color="text.secondary" sx={{ fontWeight: 600 }}>
+        Source rows
+      </Typography>
+      <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap sx={{ mb: 1.5, mt: 0.5 }}>
+        {lineage.sources.length === 0 && (
+          <Typography variant="caption" color="text.secondary">No source rows recorded</Typography>
+        )}
+        {lineage.sources.map((ref, idx) => (
+          <Chip
+            key={idx}
+            size="small"
+            variant="outlined"
+            label={`${SOURCE_KIND_LABELS[ref.kind]} · ${sourceLabel(ref)}`}
+            sx={{ fontFamily: 'monospace', fontSize: '0.72rem', backgroundColor: PRODUCE_COLORS.white }}
+          />
+        ))}
+      </Stack>
+
+      <Typography variant="caption" color="text.secondary" sx={{ fontWeight: 600 }}>
+        Derivation
+      </Typography>
+      <Box component="ol" sx={{ m: 0, mt: 0.5, pl: 3 }}>
+        {lineage.steps.map((step, idx) => (
+          <Typography component="li" key={idx} variant="body2" sx={{ fontFamily: 'monospace', fontSize: '0.78rem' }}>
+            {step}
+          </Typography>
+        ))}
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,273 @@
+import { useState, useRef, useCallback } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Stack,
+  Button,
+  Chip,
+  Alert,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  TextField,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
+import PlaceIcon from '@mui/icons-material/Place';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import SaveIcon from '@mui/icons-material/Save';
+import RestartAltIcon from '@mui/icons-material/RestartAlt';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import { PRODUCE_COLORS } from '../theme/produceTheme';
+import type { LocationMapping } from '../transform/types';
+import {
+  DEFAULT_LOCATION_MAPPINGS,
+  findUnmappedLocations,
+  parseLocationMappings,
+  serializeLocationMappings,
+} from '../transform/locationMap';
+import { downloadFile } from '../transform/exporter';
+
+interface LocationMappingEditorProps {
+  mappings: LocationMapping[];
+  locationCodes: string[];
+  onChange: (mappings: LocationMapping[]) => void;
+}
+
+interface DraftRow {
+  code: string;
+  locationId: string;
+  description: string;
+}
+
+function toDraft(mappings: LocationMapping[]): DraftRow[] {
+  return mappings.map(m => ({
+    code: m.code,
+    locationId: String(m.locationId),
+    description: m.description ?? '',
+  }));
+}
+
+/**
+ * Convert draft rows back to mappings, or return an error message
+ */
+function fromDraft(rows: DraftRow[]): LocationMapping[] | string {
+  const seen = new Set<string>();
+  const mappings: LocationMapping[] = [];
+
+  for (const row of rows) {
+    const code = row.code.trim().toUpperCase();
+    if (!code) return 'Every row needs a location code';
+    if (seen.has(code)) return `Duplicate location code: ${code}`;
+    seen.add(code);
+
+    const locationId = Number(row.locationId);
+    if (!row.locationId.trim() || !Number.isInteger(locationId) || locationId <= 0) {
+      return `LocationID for ${code} must be a positive whole number`;
+    }
+
+    mappings.push({
+      code,
+      locationId,
+      ...(row.description.trim() ? { description: row.description.trim() } : {}),
+    });
+  }
+
+  return mappings;
+}
+
+export default function LocationMappingEditor({ mappings, locationCodes, onChange }: LocationMappingEditorProps) {
+  const [draft, setDraft] = useState<DraftRow[]>(() => toDraft(mappings));
+  const [error, setError] = useState('');
+  const [dirty, setDirty] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const unmapped = findUnmappedLocations(locationCodes, mappings);
+
+  const commit = useCallback((next: LocationMapping[]) => {
+    setDraft(toDraft(next));
+    setDirty(false);
+    setError('');
+    onChange(next);
+  }, [onChange]);
+
+  const updateRow = (index: number, update: Partial<DraftRow>) => {
+    setDraft(prev => prev.map((row, i) => (i === index ? { ...row, ...update } : row)));
+    setDirty(true);
+  };
+
+  const addRow = (code = '') => {
+    setDraft(prev => [...prev, { code, locationId: '', description: '' }]);
+    setDirty(true);
+  };
+
+  const removeRow = (index: number) => {
+    setDraft(prev => prev.filter((_, i) => i !== index));
+    setDirty(true);
+  };
+
+  const handleSave = () => {
+    const result = fromDraft(draft);
+    if (typeof result === 'string') {
+      setError(result);
+      return;
+    }
+    commit(result);
+  };
+
+  const handleImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      commit(parseLocationMappings(await file.text()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid location mapping file');
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  }, [commit]);
+
+  const handleExport = () => {
+    downloadFile(serializeLocationMappings(mappings), 'bln-location-mappings.json', 'application/json');
+  };
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ mb: 1 }}>
+          <Stack direction="row" alignItems="center" spacing={1}>
+            <PlaceIcon sx={{ color: PRODUCE_COLORS.primary }} />
+            <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+              PRODUCE Location Mapping
+            </Typography>
+            <Chip label={`${mappings.length} mapped`} size="small" />
+          </Stack>
+          <Stack direction="row" spacing={1}>
+            <Button size="small" startIcon={<FileUploadIcon />} onClick={() => fileInputRef.current?.click()}>
+              Import JSON
+            </Button>
+            <Button size="small" startIcon={<FileDownloadIcon />} onClick={handleExport}>
+              Export JSON
+            </Button>
+            <Button size="small" color="inherit" startIcon={<RestartAltIcon />} onClick={() => commit(DEFAULT_LOCATION_MAPPINGS)}>
+              Reset to Defaults
+            </Button>
+          </Stack>
+        </Stack>
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Maps Arc Flow location codes to <code>dbo.Locations.ID</code>. Used by the transform and every export.
+          Changes are saved in this browser.
+        </Typography>
+
+        {unmapped.length > 0 && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            <Typography variant="body2" sx={{ mb: 1 }}>
+              {unmapped.length} location code(s) in the uploaded data have no LocationID. Click a code to add it:
+            </Typography>
+            <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+              {unmapped.map(code => (
+                <Chip
+                  key={code}
+                  label={code}
+                  size="small"
+                  icon={<AddIcon />}
+                  onClick={() => addRow(code)}
+                  disabled={draft.some(row => row.code.trim().toUpperCase() === code.toUpperCase())}
+                  sx={{ fontFamily: 'monospace' }}
+                />
+              ))}
+            </Stack>
+          </Alert>
+        )}
+
+        {error && (
+          <Alert severity="warning" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>
+        )}
+
+        <TableContainer sx={{ maxHeight: 360, border: '1px solid #e0e0e0', borderRadius: 1 }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontWeight: 700, backgroundColor: '#f5f5f5', width: 160 }}>Location Code</TableCell>
+                <TableCell sx={{ fontWeight: 700, backgroundColor: '#f5f5f5', width: 140 }}>LocationID</TableCell>
+                <TableCell sx={{ fontWeight: 700, backgroundColor: '#f5f5f5' }}>Description</TableCell>
+                <TableCell sx={{ backgroundColor: '#f5f5f5', width: 48 }} />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {draft.map((row, idx) => (
+                <TableRow key={idx}>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      variant="standard"
+                      value={row.code}
+                      onChange={(e) => updateRow(idx, { code: e.target.value })}
+                      slotProps={{ htmlInput: { style: { fontFamily: 'monospace' } } }}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      variant="standard"
+                      type="number"
+                      value={row.locationId}
+                      onChange={(e) => updateRow(idx, { locationId: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      variant="standard"
+                      fullWidth
+                      value={row.description}
+                      onChange={(e) => updateRow(idx, { description: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Tooltip title="Remove mapping">
+                      <IconButton size="small" onClick={() => removeRow(idx)}>
+                        <DeleteOutlineIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+
+        <Stack direction="row" justifyContent="space-between" sx={{ mt: 2 }}>
+          <Button size="small" startIcon={<AddIcon />} onClick={() => addRow()}>
+            Add Mapping
+          </Button>
+          <Box>
+            {dirty && (
+              <Button size="small" color="inherit" sx={{ mr: 1 }} onClick={() => { setDraft(toDraft(mappings)); setDirty(false); setError(''); }}>
+                Discard
+              </Button>
+            )}
+            <Button size="small" variant="contained" startIcon={<SaveIcon />} onClick={handleSave} disabled={!dirty}>
+              Save Mapping
+            </Button>
+          </Box>
+        </Stack>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json"
+          onChange={handleImport}
+          style={{ display: 'none' }}
+        />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,93 @@
+import {
+  Card,
+  CardContent,
+  Typography,
+  Stack,
+  Button,
+  Chip,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+} from '@mui/material';
+import CallMergeIcon from '@mui/icons-material/CallMerge';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import { PRODUCE_COLORS } from '../theme/produceTheme';
+import type { MergeReport } from '../transform/types';
+import { ARC_FLOW_FILE_LABELS } from '../transform/arcFlowFiles';
+import { MERGE_MODE_LABELS, exportMergeReportCSV } from '../transform/mergeDrops';
+import { downloadFile } from '../transform/exporter';
+
+interface MergeReportCardProps {
+  report: MergeReport;
+}
+
+const HEADER_SX = { fontWeight: 700, backgroundColor: '#f5f5f5' };
+
+/**
+ * Per-file outcome of merging several files of the same Arc Flow export,
+ * with the row-by-row contribution report as a download
+ */
+export default function MergeReportCard({ report }: MergeReportCardProps) {
+  const handleDownload = () => {
+    const timestamp = new Date().toISOString().split('T')[0];
+    downloadFile(exportMergeReportCSV(report), `bln-merge-report-${timestamp}.csv`);
+  };
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ mb: 2 }}>
+          <Stack direction="row" alignItems="center" spacing={1}>
+            <CallMergeIcon sx={{ color: PRODUCE_COLORS.primary }} />
+            <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+              Merged Files
+            </Typography>
+            <Chip label={MERGE_MODE_LABELS[report.mode]} size="small" variant="outlined" />
+            {report.conflicts.length > 0 && (
+              <Chip label={`${report.conflicts.length} conflict(s)`} size="small" color="warning" />
+            )}
+          </Stack>
+          <Button size="small" variant="outlined" startIcon={<FileDownloadIcon />} onClick={handleDownload}>
+            Row Contribution Report
+          </Button>
+        </Stack>
+
+        <TableContainer sx={{ border: '1px solid #e0e0e0', borderRadius: 1 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell sx={HEADER_SX}>Export</TableCell>
+                <TableCell sx={HEADER_SX}>File</TableCell>
+                <TableCell sx={HEADER_SX}>Snapshot</TableCell>
+                <TableCell align="right" sx={HEADER_SX}>Rows</TableCell>
+                <TableCell align="right" sx={HEADER_SX}>Kept</TableCell>
+                <TableCell align="right" sx={HEADER_SX}>Duplicates</TableCell>
+                <TableCell align="right" sx={HEADER_SX}>Overridden</TableCell>
+                <TableCell align="right" sx={HEADER_SX}>Conflicts</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {report.files.map(file => (
+                <TableRow key={`${file.kind}|${file.file}`}>
+                  <TableCell sx={{ fontFamily: 'monospace', fontSize: '0.8rem' }}>{ARC_FLOW_FILE_LABELS[file.kind]}</TableCell>
+                  <TableCell sx={{ fontFamily: 'monospace', fontSize: '0.8rem' }}>{file.file}</TableCell>
+                  <TableCell>{file.snapshot ?? '—'}</TableCell>
+                  <TableCell align="right">{file.rows.toLocaleString()}</TableCell>
+                  <TableCell align="right">{file.kept.toLocaleString()}</TableCell>
+                  <TableCell align="right">{file.duplicates.toLocaleString()}</TableCell>
+                  <TableCell align="right">{file.overridden.toLocaleString()}</TableCell>
+                  <TableCell align="right" sx={{ color: file.conflicts > 0 ? '#e65100' : 'inherit' }}>
+                    {file.conflicts.toLocaleString()}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import {
+  Box,
+  Stack,
+  Button,
+  Alert,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import DataTable from './DataTable';
+import type { ColumnDef } from './DataTable';
+import type { MixAuditReport } from '../transform/types';
+import { misallocatedWeeks } from '../transform/mixAudit';
+import { downloadMixAuditExcel } from '../transform/exporter';
+
+interface MixAuditPanelProps {
+  report: MixAuditReport;
+}
+
+type AuditView = 'misallocated' | 'weeks' | 'unlinked' | 'orphans';
+
+const WEEK_COLUMNS: ColumnDef[] = [
+  { key: 'location', label: 'Location' },
+  { key: 'commonItem', label: 'Common Item' },
+  { key: 'week', label: 'Week', numeric: true, width: 70 },
+  { key: 'sourcePct', label: 'Source %', numeric: true, width: 90 },
+  { key: 'linkedPct', label: 'Linked %', numeric: true, width: 90 },
+  { key: 'status', label: 'Status', width: 80 },
+];
+
+const UNLINKED_COLUMNS: ColumnDef[] = [
+  { key: 'location', label: 'Location' },
+  { key: 'commonItem', label: 'Common Item' },
+  { key: 'productionItem', label: 'Production Item' },
+  { key: 'variant', label: 'Variant' },
+  { key: 'firstWeek', label: 'First Wk', numeric: true, width: 80 },
+  { key: 'unlinkedWeeks', label: 'Weeks', numeric: true, width: 70 },
+  { key: 'reason', label: 'Reason' },
+  { key: 'recipeIdTried', label: 'Recipe Tried', numeric: true, width: 100 },
+];
+
+const ORPHAN_COLUMNS: ColumnDef[] = [
+  { key: 'id', label: 'ID', numeric: true, width: 60 },
+  { key: 'locationCode', label: 'Location' },
+  { key: 'schemeCode', label: 'Scheme' },
+  { key: 'genus', label: 'Genus' },
+  { key: 'series', label: 'Series' },
+  { key: 'startWeek', label: 'Start Wk', numeric: true, width: 80 },
+  { key: 'endWeek', label: 'End Wk', numeric: true, width: 80 },
+];
+
+export default function MixAuditPanel({ report }: MixAuditPanelProps) {
+  const [view, setView] = useState<AuditView>('misallocated');
+
+  if (report.weeks.length === 0) {
+    return (
+      <Alert severity="info">
+        No 4M Variant Mixes loaded — nothing to audit.
+      </Alert>
+    );
+  }
+
+  const misallocated = misallocatedWeeks(report);
+  const over = misallocated.filter(w => w.status === 'OVER').length;
+  const under = misallocated.length - over;
+
+  const views: Record<AuditView, { label: string; data: Record<string, unknown>[]; columns: ColumnDef[]; filename: string }> = {
+    misallocated: { label: `Over/Under (${misallocated.length})`, data: misallocated as unknown as Record<string, unknown>[], columns: WEEK_COLUMNS, filename: 'bln-mix-audit-misallocated.csv' },
+    weeks: { label: `All Weeks (${report.weeks.length})`, data: report.weeks as unknown as Record<string, unknown>[], columns: WEEK_COLUMNS, filename: 'bln-mix-audit-weeks.csv' },
+    unlinked: { label: `Unlinked Rows (${report.unlinkedRows.length})`, data: report.unlinkedRows as unknown as Record<string, unknown>[], columns: UNLINKED_COLUMNS, filename: 'bln-mix-audit-unlinked.csv' },
+    orphans: { label: `Orphan Recipes (${report.orphanRecipes.length})`, data: report.orphanRecipes as unknown as Record<string, unknown>[], columns: ORPHAN_COLUMNS, filename: 'bln-mix-audit-orphans.csv' },
+  };
+  const current = views[view];
+
+  return (
+    <Box>
+      <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ mb: 2 }} flexWrap="wrap" useFlexGap spacing={1}>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={view}
+          onChange={(_, v: AuditView | null) => v && setView(v)}
+          sx={{ '& .MuiToggleButton-root': { textTransform: 'none' } }}
+        >
+          {(Object.keys(views) as AuditView[]).map(key => (
+            <ToggleButton key={key} value={key}>{views[key].label}</ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+        <Button size="small" variant="outlined" startIcon={<FileDownloadIcon />} onClick={() => downloadMixAuditExcel(report)}>
+          Download Audit (.xlsx)
+        </Button>
+      </Stack>
+
+      {misallocated.length === 0 ? (
+        <Alert severity="success" sx={{ mb: 2 }}>All weeks hit 100%.</Alert>
+      ) : (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          <Typography variant="body2">
+            {over} over-allocated and {under} under-allocated location/common item week(s).
+          </Typography>
+        </Alert>
+      )}
+
+      <DataTable
+        data={current.data}
+        columns={current.columns}
+        title={current.label}
+        downloadFilename={current.filename}
+        maxHeight={500}
+      />
+    </Box>
+  );
+}
@@ -0,0 +1,270 @@
+import { useState, useRef, useCallback } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Stack,
+  Button,
+  Chip,
+  Alert,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  TextField,
+  Select,
+  MenuItem,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
+import CallMergeIcon from '@mui/icons-material/CallMerge';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import SaveIcon from '@mui/icons-material/Save';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import { PRODUCE_COLORS } from '../theme/produceTheme';
+import type { PhaseMergeAction, PhaseMergeRule } from '../transform/types';
+import {
+  PHASE_MERGE_LABELS,
+  defaultPhaseAction,
+  parsePhaseMergeRules,
+  serializePhaseMergeRules,
+} from '../transform/phaseMerge';
+import { downloadFile } from '../transform/exporter';
+
+interface PhaseMergeEditorProps {
+  rules: PhaseMergeRule[];
+  phases: string[]; // phases found in the scheme lines
+  onChange: (rules: PhaseMergeRule[]) => void;
+}
+
+/**
+ * Check draft rules, returning cleaned-up rules or an error message
+ */
+function checkRules(rows: PhaseMergeRule[]): PhaseMergeRule[] | string {
+  const seen = new Set<string>();
+  const rules: PhaseMergeRule[] = [];
+
+  for (const row of rows) {
+    const value = row.value.trim().toUpperCase();
+    const phase = row.phase.trim().toUpperCase();
+    if (!value) return `Every rule needs a ${row.scope}`;
+    if (!phase) return `Rule ${row.scope}:${value} needs a phase`;
+    if (phase === 'GROW') return `GROW is always kept; pick another phase for ${row.scope}:${value}`;
+    const key = `${row.scope}:${value} ${phase}`;
+    if (seen.has(key)) return `Duplicate rule: ${key}`;
+    seen.add(key);
+    rules.push({ scope: row.scope, value, phase, action: row.action });
+  }
+
+  return rules;
+}
+
+export default function PhaseMergeEditor({ rules, phases, onChange }: PhaseMergeEditorProps) {
+  const [draft, setDraft] = useState<PhaseMergeRule[]>(rules);
+  const [error, setError] = useState('');
+  const [dirty, setDirty] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const extraPhases = phases.filter(p => p !== 'GROW');
+
+  const commit = useCallback((next: PhaseMergeRule[]) => {
+    setDraft(next);
+    setDirty(false);
+    setError('');
+    onChange(next);
+  }, [onChange]);
+
+  const updateRow = (index: number, update: Partial<PhaseMergeRule>) => {
+    setDraft(prev => prev.map((row, i) => (i === index ? { ...row, ...update } : row)));
+    setDirty(true);
+  };
+
+  const addRow = () => {
+    const phase = extraPhases[0] ?? '';
+    setDraft(prev => [...prev, { scope: 'genus', value: '', phase, action: 'standalone' }]);
+    setDirty(true);
+  };
+
+  const removeRow = (index: number) => {
+    setDraft(prev => prev.filter((_, i) => i !== index));
+    setDirty(true);
+  };
+
+  const handleSave = () => {
+    const result = checkRules(draft);
+    if (typeof result === 'string') {
+      setError(result);
+      return;
+    }
+    commit(result);
+  };
+
+  const handleImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      commit(parsePhaseMergeRules(await file.text()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid phase merge rules file');
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  }, [commit]);
+
+  const handleExport = () => {
+    downloadFile(serializePhaseMergeRules(rules), 'bln-phase-merge-rules.json', 'application/json');
+  };
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ mb: 1 }}>
+          <Stack direction="row" alignItems="center" spacing={1}>
+            <CallMergeIcon sx={{ color: PRODUCE_COLORS.primary }} />
+            <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+              Phase Merge Rules
+            </Typography>
+            <Chip label={`${rules.length} rule${rules.length !== 1 ? 's' : ''}`} size="small" />
+          </Stack>
+          <Stack direction="row" spacing={1}>
+            <Button size="small" startIcon={<FileUploadIcon />} onClick={() => fileInputRef.current?.click()}>
+              Import JSON
+            </Button>
+            <Button size="small" startIcon={<FileDownloadIcon />} onClick={handleExport}>
+              Export JSON
+            </Button>
+          </Stack>
+        </Stack>
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          Chooses what happens to each non-GROW phase of a scheme. <strong>{PHASE_MERGE_LABELS.merge}</strong> adds
+          the phase weeks to the recipe grow weeks; <strong>{PHASE_MERGE_LABELS.standalone}</strong> leaves the grow
+          weeks alone and keeps only the phase's own SpaceEvent; <strong>{PHASE_MERGE_LABELS.ignore}</strong> drops
+          the phase. Genus rules win over category rules.
+        </Typography>
+        {extraPhases.length > 0 && (
+          <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap sx={{ mb: 2 }}>
+            <Typography variant="caption" color="text.secondary" sx={{ mr: 0.5 }}>Without a rule:</Typography>
+            {extraPhases.map(phase => (
+              <Chip
+                key={phase}
+                label={`${phase}: ${PHASE_MERGE_LABELS[defaultPhaseAction(phase)]}`}
+                size="small"
+                variant="outlined"
+                sx={{ fontSize: '0.7rem' }}
+              />
+            ))}
+          </Stack>
+        )}
+
+        {error && (
+          <Alert severity="warning" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>
+        )}
+
+        {draft.length > 0 && (
+          <TableContainer sx={{ maxHeight: 360, border: '1px solid #e0e0e0', borderRadius: 1 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell sx={{ fontWeight: 700, backgroundColor: '#f5f5f5', width: 130 }}>Applies To</TableCell>
+                  <TableCell sx={{ fontWeight: 700, backgroundColor: '#f5f5f5' }}>Category / Genus</TableCell>
+                  <TableCell sx={{ fontWeight: 700, backgroundColor: '#f5f5f5', width: 160 }}>Phase</TableCell>
+                  <TableCell sx={{ fontWeight: 700, backgroundColor: '#f5f5f5', width: 230 }}>Action</TableCell>
+                  <TableCell sx={{ backgroundColor: '#f5f5f5', width: 48 }} />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {draft.map((row, idx) => (
+                  <TableRow key={idx}>
+                    <TableCell>
+                      <Select
+                        size="small"
+                        variant="standard"
+                        value={row.scope}
+                        onChange={(e) => updateRow(idx, { scope: e.target.value as PhaseMergeRule['scope'] })}
+                      >
+                        <MenuItem value="category">Category</MenuItem>
+                        <MenuItem value="genus">Genus</MenuItem>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        size="small"
+                        variant="standard"
+                        fullWidth
+                        value={row.value}
+                        onChange={(e) => updateRow(idx, { value: e.target.value })}
+                        slotProps={{ htmlInput: { style: { fontFamily: 'monospace' } } }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        size="small"
+                        variant="standard"
+                        fullWidth
+                        value={row.phase}
+                        onChange={(e) => updateRow(idx, { phase: e.target.value })}
+                      >
+                        {[...new Set([...extraPhases, row.phase].filter(Boolean))].map(phase => (
+                          <MenuItem key={phase} value={phase}>{phase}</MenuItem>
+                        ))}
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        size="small"
+                        variant="standard"
+                        fullWidth
+                        value={row.action}
+                        onChange={(e) => updateRow(idx, { action: e.target.value as PhaseMergeAction })}
+                      >
+                        {(Object.keys(PHASE_MERGE_LABELS) as PhaseMergeAction[]).map(action => (
+                          <MenuItem key={action} value={action}>{PHASE_MERGE_LABELS[action]}</MenuItem>
+                        ))}
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Tooltip title="Remove rule">
+                        <IconButton size="small" onClick={() => removeRow(idx)}>
+                          <DeleteOutlineIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        <Stack direction="row" justifyContent="space-between" sx={{ mt: 2 }}>
+          <Button size="small" startIcon={<AddIcon />} onClick={addRow}>
+            Add Rule
+          </Button>
+          <Box>
+            {dirty && (
+              <Button size="small" color="inherit" sx={{ mr: 1 }} onClick={() => { setDraft(rules); setDirty(false); setError(''); }}>
+                Discard
+              </Button>
+            )}
+            <Button size="small" variant="contained" startIcon={<SaveIcon />} onClick={handleSave} disabled={!dirty}>
+              Save Rules
+            </Button>
+          </Box>
+        </Stack>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json"
+          onChange={handleImport}
+          style={{ display: 'none' }}
+        />
+      </CardContent>
+    </Card>
+  );
+}
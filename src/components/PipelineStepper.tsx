@@ -25,6 +25,7 @@ import CheckCircleOutlineIcon from '@mui/icons-material/CheckCircleOutline';
 import ErrorOutlineIcon from '@mui/icons-material/ErrorOutline';
 import HourglassEmptyIcon from '@mui/icons-material/HourglassEmpty';
 import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import StopIcon from '@mui/icons-material/Stop';
 import { PRODUCE_COLORS } from '../theme/produceTheme';
 import FileUploader from './FileUploader';
 import DataQualityReport from './DataQualityReport';
@@ -53,6 +54,7 @@ function TransformView({ pipeline }: { pipeline: PipelineReturn }) {
   const totalSteps = transformSteps.length;
   const progress = totalSteps > 0 ? (completedSteps / totalSteps) * 100 : 0;
   const hasErrors = transformResult?.errors && transformResult.errors.length > 0;
+  const cancelled = !isTransforming && !transformResult && transformSteps.some(s => s.status === 'error');
 
   return (
     <Box>
@@ -60,10 +62,15 @@ function TransformView({ pipeline }: { pipeline: PipelineReturn }) {
         <CardContent>
           <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 2 }}>
             <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
-              {isTransforming ? 'Transforming...' : hasErrors ? 'Transform Failed' : 'Transform Complete'}
+              {isTransforming ? 'Transforming...' : cancelled ? 'Transform Cancelled' : hasErrors ? 'Transform Failed' : 'Transform Complete'}
             </Typography>
             {isTransforming && (
-              <Chip label={`${Math.round(progress)}%`} color="primary" size="small" />
+              <Stack direction="row" spacing={1} alignItems="center">
+                <Chip label={`${Math.round(progress)}%`} color="primary" size="small" />
+                <Button size="small" color="inherit" startIcon={<StopIcon />} onClick={pipeline.cancel}>
+                  Cancel
+                </Button>
+              </Stack>
             )}
           </Stack>
 
@@ -113,6 +120,11 @@ function TransformView({ pipeline }: { pipeline: PipelineReturn }) {
                     {step.detail}
                   </Typography>
                 )}
+                {step.durationMs !== undefined && (
+                  <Typography variant="caption" color="text.secondary" sx={{ minWidth: 56, textAlign: 'right' }}>
+                    {step.durationMs.toLocaleString()} ms
+                  </Typography>
+                )}
                 {step.outputCount !== undefined && (
                   <Chip
                     label={step.outputCount.toLocaleString()}
@@ -152,7 +164,7 @@ function TransformView({ pipeline }: { pipeline: PipelineReturn }) {
           >
             Back to Validation
           </Button>
-          {hasErrors && (
+          {(hasErrors || cancelled) && (
             <Button
               variant="contained"
               startIcon={<PlayArrowIcon />}
@@ -264,6 +276,12 @@ export default function PipelineStepper({ pipeline }: PipelineStepperProps) {
         })}
       </Stepper>
 
+      {pipeline.historyError && (
+        <Alert severity="warning" sx={{ mb: 2 }} onClose={pipeline.dismissHistoryError}>
+          Run history: {pipeline.historyError}
+        </Alert>
+      )}
+
       {/* Step Content */}
       <Box>
         {activeStep === 0 && (
@@ -271,10 +289,17 @@ export default function PipelineStepper({ pipeline }: PipelineStepperProps) {
             uploadedFiles={pipeline.uploadedFiles}
             arcFlowFileStatus={pipeline.arcFlowFileStatus}
             hasAllArcFlow={pipeline.hasAllArcFlow}
+            hasMergedArcFlow={pipeline.hasMergedArcFlow}
+            mergeMode={pipeline.mergeMode}
+            onMergeModeChange={pipeline.updateMergeMode}
             hasExcel={pipeline.hasExcel}
             canProceedToValidate={pipeline.canProceedToValidate}
+            isParsing={pipeline.isParsing}
+            parseDetail={pipeline.parseDetail}
+            onCancelParse={pipeline.cancel}
             onAddFiles={pipeline.addFiles}
             onRemoveFile={pipeline.removeFile}
+            onSetFileKind={pipeline.setFileKind}
             onClearFiles={pipeline.clearFiles}
             onProceed={handleProceedToValidate}
           />
@@ -286,6 +311,18 @@ export default function PipelineStepper({ pipeline }: PipelineStepperProps) {
             parsedData={pipeline.parsedData}
             canTransform={pipeline.canTransform}
             onRunTransform={handleRunTransform}
+            locationMappings={pipeline.locationMappings}
+            onLocationMappingsChange={pipeline.updateLocationMappings}
+            spaceModelRules={pipeline.spaceModelRules}
+            onSpaceModelRulesChange={pipeline.updateSpaceModelRules}
+            phaseMergeRules={pipeline.phaseMergeRules}
+            onPhaseMergeRulesChange={pipeline.updatePhaseMergeRules}
+            eventExclusionRules={pipeline.eventExclusionRules}
+            onEventExclusionRulesChange={pipeline.updateEventExclusionRules}
+            planYear={pipeline.planYear}
+            onPlanYearChange={pipeline.updatePlanYear}
+            weekRounding={pipeline.weekRounding}
+            onWeekRoundingChange={pipeline.updateWeekRounding}
           />
         )}
 
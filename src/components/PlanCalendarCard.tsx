@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Stack,
+  Button,
+  Chip,
+  TextField,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+} from '@mui/material';
+import CalendarMonthIcon from '@mui/icons-material/CalendarMonth';
+import { PRODUCE_COLORS } from '../theme/produceTheme';
+import {
+  MIN_PLAN_YEAR,
+  MAX_PLAN_YEAR,
+  createPlanCalendar,
+  isValidPlanYear,
+  planYearStart,
+  windowDates,
+} from '../transform/calendar';
+import { WEEK_ROUNDING_LABELS } from '../transform/weekRounding';
+import type { WeekRoundingPolicy } from '../transform/types';
+
+interface PlanCalendarCardProps {
+  planYear: number | null;
+  onChange: (planYear: number | null) => void;
+  weekRounding: WeekRoundingPolicy;
+  onWeekRoundingChange: (policy: WeekRoundingPolicy) => void;
+}
+
+export default function PlanCalendarCard({ planYear, onChange, weekRounding, onWeekRoundingChange }: PlanCalendarCardProps) {
+  const [draft, setDraft] = useState(planYear !== null ? String(planYear) : '');
+
+  const year = Number(draft);
+  const valid = draft.trim() === '' || isValidPlanYear(year);
+  const draftYear = draft.trim() === '' ? null : year;
+  const calendar = createPlanCalendar(planYear ?? undefined);
+  const lastWeek = windowDates(calendar, calendar.weeksInYear, calendar.weeksInYear);
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 1 }}>
+          <CalendarMonthIcon sx={{ color: PRODUCE_COLORS.primary }} />
+          <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+            Plan Calendar
+          </Typography>
+          <Chip label={`${calendar.weeksInYear} weeks`} size="small" />
+          {calendar.planYear !== undefined && (
+            <Chip
+              label={`${planYearStart(calendar)} → ${lastWeek.endDate}`}
+              size="small"
+              variant="outlined"
+              sx={{ fontFamily: 'monospace' }}
+            />
+          )}
+        </Stack>
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Weeks are ISO 8601 weeks of the plan year (52 or 53 of them). With a plan year set, scheme periods
+          repeat yearly, so one that starts after week 1 wraps into the next year (e.g. weeks 50–4), and
+          recipes, events and mixes get start and end dates; without one, weeks run 1–53 with no wrap-around
+          and no dates are exported. Period days and line durations become weeks under the rounding policy
+          (38 days is 5.43 weeks).
+        </Typography>
+
+        <Stack direction="row" spacing={1} alignItems="flex-start">
+          <TextField
+            size="small"
+            label="Plan year"
+            type="number"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            error={!valid}
+            helperText={!valid ? `Enter a year between ${MIN_PLAN_YEAR} and ${MAX_PLAN_YEAR}` : ' '}
+            sx={{ width: 160 }}
+          />
+          <Button
+            size="small"
+            variant="contained"
+            sx={{ mt: 0.5 }}
+            disabled={!valid || draftYear === planYear}
+            onClick={() => onChange(draftYear)}
+          >
+            Apply
+          </Button>
+          {planYear !== null && (
+            <Button size="small" color="inherit" sx={{ mt: 0.5 }} onClick={() => { setDraft(''); onChange(null); }}>
+              Clear
+            </Button>
+          )}
+          <FormControl size="small" sx={{ minWidth: 240 }}>
+            <InputLabel id="week-rounding-label">Partial weeks</InputLabel>
+            <Select
+              labelId="week-rounding-label"
+              label="Partial weeks"
+              value={weekRounding}
+              onChange={(e) => onWeekRoundingChange(e.target.value as WeekRoundingPolicy)}
+            >
+              {(Object.keys(WEEK_ROUNDING_LABELS) as WeekRoundingPolicy[]).map(policy => (
+                <MenuItem key={policy} value={policy}>{WEEK_ROUNDING_LABELS[policy]}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+}
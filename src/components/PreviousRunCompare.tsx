@@ -0,0 +1,58 @@
+import { useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Stack,
+} from '@mui/material';
+import HistoryIcon from '@mui/icons-material/History';
+import { PRODUCE_COLORS } from '../theme/produceTheme';
+import RunComparePanel from './RunComparePanel';
+import BaselinePicker from './BaselinePicker';
+import type { Baseline } from './BaselinePicker';
+import type { TransformResult } from '../transform/types';
+
+interface PreviousRunCompareProps {
+  result: TransformResult;
+}
+
+/**
+ * "What changed since last week's drop?": diff the current result against a
+ * saved run or a re-uploaded BLN export workbook
+ */
+export default function PreviousRunCompare({ result }: PreviousRunCompareProps) {
+  const [baseline, setBaseline] = useState<Baseline | null>(null);
+
+  return (
+    <Box>
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 2 }}>
+            <HistoryIcon sx={{ color: PRODUCE_COLORS.primary }} />
+            <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+              Compare Against a Previous Run
+            </Typography>
+          </Stack>
+
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+            Pick a saved run or upload a previous BLN export workbook to see what changed since the last
+            Arc Flow drop. Changes are grouped by scheme code and location.
+          </Typography>
+
+          <BaselinePicker onChange={setBaseline} />
+        </CardContent>
+      </Card>
+
+      {baseline && (
+        <RunComparePanel
+          current={result}
+          baseline={baseline.result}
+          currentLabel="This run"
+          baselineLabel={baseline.label}
+          tables={baseline.tables}
+        />
+      )}
+    </Box>
+  );
+}
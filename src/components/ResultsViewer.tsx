@@ -13,8 +13,12 @@ import {
 import { PRODUCE_COLORS } from '../theme/produceTheme';
 import DataTable from './DataTable';
 import ComparisonView from './ComparisonView';
+import PreviousRunCompare from './PreviousRunCompare';
+import MixAuditPanel from './MixAuditPanel';
+import LineagePanel from './LineagePanel';
 import type { ColumnDef } from './DataTable';
-import type { TransformResult } from '../transform/types';
+import type { TransformResult, Lineage } from '../transform/types';
+import { countMixAuditIssues } from '../transform/mixAudit';
 
 interface ResultsViewerProps {
   result: TransformResult;
@@ -46,11 +50,38 @@ const CATALOG_COLUMNS: ColumnDef[] = [
   { key: 'color', label: 'Color' },
 ];
 
+const CATEGORY_COLUMNS: ColumnDef[] = [
+  { key: 'id', label: 'ID', numeric: true, width: 60 },
+  { key: 'category', label: 'Category' },
+  { key: 'kind', label: 'Kind', width: 70 },
+  { key: 'parentId', label: 'Parent', numeric: true, width: 70 },
+  { key: 'unitOfMeasure', label: 'UoM', numeric: true, width: 60 },
+  { key: 'spaceCategoryId', label: 'Space Cat ID', numeric: true, width: 100 },
+  { key: 'spaceCategory', label: 'Space Category' },
+  { key: 'areaSqFt', label: 'Sq Ft', numeric: true, width: 70 },
+];
+
+const PRODUCTION_ITEM_COLUMNS: ColumnDef[] = [
+  { key: 'id', label: 'ID', numeric: true, width: 60 },
+  { key: 'productionItemNum', label: 'Production Item' },
+  { key: 'categoryId', label: 'Category ID', numeric: true, width: 90 },
+  { key: 'category', label: 'Category' },
+  { key: 'catalogId', label: 'Catalog', numeric: true, width: 70 },
+  { key: 'genus', label: 'Genus' },
+  { key: 'color', label: 'Color' },
+  { key: 'locations', label: 'Locations' },
+  { key: 'categoryCount', label: 'Categories', numeric: true, width: 90 },
+];
+
 const RECIPE_COLUMNS: ColumnDef[] = [
   { key: 'id', label: 'ID', numeric: true, width: 60 },
   { key: 'locationCode', label: 'Location' },
+  { key: 'locationId', label: 'Loc ID', numeric: true, width: 70 },
   { key: 'category', label: 'Category' },
   { key: 'schemeCode', label: 'Scheme' },
+  { key: 'schemePrefix', label: 'Prefix', width: 70 },
+  { key: 'genusAbbrev', label: 'Genus Abbr', width: 90 },
+  { key: 'timeProfile', label: 'Time Profile', width: 90 },
   { key: 'genus', label: 'Genus' },
   { key: 'series', label: 'Series' },
   { key: 'color', label: 'Color' },
@@ -59,12 +90,14 @@ const RECIPE_COLUMNS: ColumnDef[] = [
   { key: 'growWeeks', label: 'Grow Wks', numeric: true, width: 80 },
   { key: 'notes', label: 'Notes' },
   { key: 'catalogId', label: 'Catalog', numeric: true, width: 70 },
+  { key: 'categoryId', label: 'Category ID', numeric: true, width: 90 },
 ];
 
 const EVENT_COLUMNS: ColumnDef[] = [
   { key: 'id', label: 'ID', numeric: true, width: 60 },
   { key: 'recipeId', label: 'Recipe', numeric: true, width: 70 },
   { key: 'locationCode', label: 'Location' },
+  { key: 'locationId', label: 'Loc ID', numeric: true, width: 70 },
   { key: 'category', label: 'Category' },
   { key: 'genus', label: 'Genus' },
   { key: 'phase', label: 'Phase' },
@@ -72,15 +105,52 @@ const EVENT_COLUMNS: ColumnDef[] = [
   { key: 'endWeek', label: 'End Wk', numeric: true, width: 80 },
   { key: 'triggerWeeks', label: 'Trigger Wks', numeric: true, width: 90 },
   { key: 'durationWeeks', label: 'Duration Wks', numeric: true, width: 100 },
+  { key: 'trigger', label: 'Trigger' },
+  { key: 'spaceType', label: 'Space Type', width: 90 },
+];
+
+const EVENT_DETAIL_COLUMNS: ColumnDef[] = [
+  { key: 'id', label: 'ID', numeric: true, width: 60 },
+  { key: 'eventId', label: 'Event', numeric: true, width: 70 },
+  { key: 'description', label: 'Description' },
+  { key: 'phase', label: 'Phase' },
+  { key: 'trigger', label: 'Trigger' },
+  { key: 'spaceCategory', label: 'Space Category' },
+  { key: 'spaceType', label: 'Space Type', width: 90 },
+  { key: 'duration', label: 'Duration', numeric: true, width: 80 },
+];
+
+const TRIGGER_COLUMNS: ColumnDef[] = [
+  { key: 'id', label: 'ID', numeric: true, width: 60 },
+  { key: 'description', label: 'Description' },
+  { key: 'timeProfile', label: 'Time Profile' },
+  { key: 'unitOffset', label: 'Unit Offset', numeric: true, width: 90 },
+];
+
+const RECIPE_SPACE_EVENT_COLUMNS: ColumnDef[] = [
+  { key: 'id', label: 'ID', numeric: true, width: 60 },
+  { key: 'recipeId', label: 'Recipe', numeric: true, width: 70 },
+  { key: 'eventId', label: 'Event', numeric: true, width: 70 },
+  { key: 'event', label: 'Event Name' },
+  { key: 'locationCode', label: 'Location' },
+  { key: 'category', label: 'Category' },
+  { key: 'phases', label: 'Phases' },
+  { key: 'isExcluded', label: 'Excluded', width: 80, format: v => (v ? 'Yes' : 'No') },
+  { key: 'exclusionRule', label: 'Rule' },
 ];
 
 const SPEC_COLUMNS: ColumnDef[] = [
   { key: 'id', label: 'ID', numeric: true, width: 60 },
   { key: 'recipeId', label: 'Recipe', numeric: true, width: 70 },
-  { key: 'spaceWidth', label: 'Width', numeric: true },
-  { key: 'spaceLength', label: 'Length', numeric: true },
+  { key: 'spaceWidth', label: 'Width (in)', numeric: true, format: v => Number(v).toFixed(3) },
+  { key: 'spaceLength', label: 'Length (in)', numeric: true, format: v => Number(v).toFixed(3) },
   { key: 'qtyPerArea', label: 'Qty/Area', numeric: true },
   { key: 'phase', label: 'Phase' },
+  { key: 'stagger', label: 'Stagger', width: 80, format: v => (v ? 'Yes' : 'No') },
+  { key: 'spaceModel', label: 'Model' },
+  { key: 'spaceModelRule', label: 'Rule' },
+  { key: 'categoryId', label: 'Category ID', numeric: true, width: 90 },
+  { key: 'spaceCategoryId', label: 'Space Cat ID', numeric: true, width: 100 },
 ];
 
 const MIX_COLUMNS: ColumnDef[] = [
@@ -96,6 +166,41 @@ const MIX_COLUMNS: ColumnDef[] = [
   { key: 'note', label: 'Note' },
 ];
 
+const VARIANT_MIX_COLUMNS: ColumnDef[] = [
+  { key: 'recipeId', label: 'Recipe', numeric: true, width: 70 },
+  { key: 'catalogId', label: 'Catalog', numeric: true, width: 70 },
+  { key: 'mixPct', label: 'Mix %', numeric: true, width: 70 },
+];
+
+const WILDCARD_COLUMNS: ColumnDef[] = [
+  { key: 'id', label: 'ID', numeric: true, width: 60 },
+  { key: 'locationCode', label: 'Location' },
+  { key: 'category', label: 'Category' },
+  { key: 'genus', label: 'Genus' },
+  { key: 'series', label: 'Series' },
+  { key: 'color', label: 'Color', width: 60 },
+  { key: 'commonItem', label: 'Common Item' },
+  { key: 'startWeek', label: 'Start Wk', numeric: true, width: 80, format: v => (v == null ? '*' : String(v)) },
+  { key: 'endWeek', label: 'End Wk', numeric: true, width: 80, format: v => (v == null ? '*' : String(v)) },
+  { key: 'variantCount', label: 'Variants', numeric: true, width: 80 },
+  { key: 'pattern', label: 'Mix Pattern' },
+  { key: 'notes', label: 'Notes' },
+];
+
+/**
+ * Start/End Date columns after End Wk, when the run had a plan year
+ */
+function withDateColumns(columns: ColumnDef[], rows: { startDate?: string }[]): ColumnDef[] {
+  if (!rows.some(row => row.startDate)) return columns;
+  const at = columns.findIndex(c => c.key === 'endWeek') + 1;
+  return [
+    ...columns.slice(0, at),
+    { key: 'startDate', label: 'Start Date', width: 100 },
+    { key: 'endDate', label: 'End Date', width: 100 },
+    ...columns.slice(at),
+  ];
+}
+
 interface TabItem {
   label: string;
   count: number;
@@ -109,12 +214,22 @@ export default function ResultsViewer({ result, duration }: ResultsViewerProps)
 
   const tabs: TabItem[] = [
     { label: 'Catalogs', count: result.catalogs.length, data: result.catalogs as unknown as Record<string, unknown>[], columns: CATALOG_COLUMNS, filename: 'bln-catalogs.csv' },
-    { label: 'Recipes', count: result.recipes.length, data: result.recipes as unknown as Record<string, unknown>[], columns: RECIPE_COLUMNS, filename: 'bln-recipes.csv' },
-    { label: 'Events', count: result.events.length, data: result.events as unknown as Record<string, unknown>[], columns: EVENT_COLUMNS, filename: 'bln-events.csv' },
+    { label: 'Categories', count: result.categories.length, data: result.categories as unknown as Record<string, unknown>[], columns: CATEGORY_COLUMNS, filename: 'bln-categories.csv' },
+    { label: 'Production Items', count: result.productionItems.length, data: result.productionItems as unknown as Record<string, unknown>[], columns: PRODUCTION_ITEM_COLUMNS, filename: 'bln-production-items.csv' },
+    { label: 'Recipes', count: result.recipes.length, data: result.recipes as unknown as Record<string, unknown>[], columns: withDateColumns(RECIPE_COLUMNS, result.recipes), filename: 'bln-recipes.csv' },
+    { label: 'Events', count: result.events.length, data: result.events as unknown as Record<string, unknown>[], columns: withDateColumns(EVENT_COLUMNS, result.events), filename: 'bln-events.csv' },
+    { label: 'Event Details', count: result.eventDetails.length, data: result.eventDetails as unknown as Record<string, unknown>[], columns: EVENT_DETAIL_COLUMNS, filename: 'bln-event-details.csv' },
+    { label: 'Triggers', count: result.triggers.length, data: result.triggers as unknown as Record<string, unknown>[], columns: TRIGGER_COLUMNS, filename: 'bln-triggers.csv' },
+    { label: 'Recipe Events', count: result.recipeSpaceEvents.length, data: result.recipeSpaceEvents as unknown as Record<string, unknown>[], columns: RECIPE_SPACE_EVENT_COLUMNS, filename: 'bln-recipe-space-events.csv' },
     { label: 'Specs', count: result.specs.length, data: result.specs as unknown as Record<string, unknown>[], columns: SPEC_COLUMNS, filename: 'bln-specs.csv' },
-    { label: 'Mixes', count: result.mixes.length, data: result.mixes as unknown as Record<string, unknown>[], columns: MIX_COLUMNS, filename: 'bln-mixes.csv' },
+    { label: 'Mixes', count: result.mixes.length, data: result.mixes as unknown as Record<string, unknown>[], columns: withDateColumns(MIX_COLUMNS, result.mixes), filename: 'bln-mixes.csv' },
+    { label: 'BLN Variant Mixes', count: result.blnVariantMixes.length, data: result.blnVariantMixes as unknown as Record<string, unknown>[], columns: VARIANT_MIX_COLUMNS, filename: 'bln-variant-mixes.csv' },
+    { label: 'Wildcards', count: result.wildcardRecipes.length, data: result.wildcardRecipes as unknown as Record<string, unknown>[], columns: WILDCARD_COLUMNS, filename: 'bln-wildcard-recipes.csv' },
   ];
 
+  // The mix audit tab follows the data tabs and renders its own panel
+  const auditTabIndex = tabs.length;
+  const auditIssues = countMixAuditIssues(result.mixAudit);
   const currentTab = tabs[activeTab];
   const hasWarnings = result.warnings.length > 0;
 
@@ -123,10 +238,13 @@ export default function ResultsViewer({ result, duration }: ResultsViewerProps)
       {/* Summary Cards */}
       <Stack direction="row" spacing={2} sx={{ mb: 3 }} flexWrap="wrap" useFlexGap>
         <SummaryCard label="Catalogs" value={result.catalogs.length} />
+        <SummaryCard label="Categories" value={result.categories.length} />
         <SummaryCard label="Recipes" value={result.recipes.length} />
         <SummaryCard label="Events" value={result.events.length} />
+        <SummaryCard label="Triggers" value={result.triggers.length} />
         <SummaryCard label="Space Specs" value={result.specs.length} />
         <SummaryCard label="Mixes" value={result.mixes.length} />
+        <SummaryCard label="Wildcard Recipes" value={result.wildcardRecipes.length} />
         <Box sx={{
           textAlign: 'center',
           p: 2,
@@ -193,6 +311,19 @@ export default function ResultsViewer({ result, duration }: ResultsViewerProps)
                 }
               />
             ))}
+            <Tab
+              label={
+                <Stack direction="row" spacing={1} alignItems="center">
+                  <span>Mix Audit</span>
+                  <Chip
+                    label={auditIssues.toLocaleString()}
+                    size="small"
+                    color={auditIssues > 0 ? 'warning' : 'default'}
+                    sx={{ height: 20, fontSize: '0.7rem' }}
+                  />
+                </Stack>
+              }
+            />
           </Tabs>
 
           {currentTab && (
@@ -202,13 +333,16 @@ export default function ResultsViewer({ result, duration }: ResultsViewerProps)
               title={currentTab.label}
               downloadFilename={currentTab.filename}
               maxHeight={500}
+              renderDetail={row => row.lineage ? <LineagePanel lineage={row.lineage as Lineage} /> : null}
             />
           )}
+          {activeTab === auditTabIndex && <MixAuditPanel report={result.mixAudit} />}
         </CardContent>
       </Card>
 
       {/* Comparison Section */}
       <Box sx={{ mt: 4 }}>
+        <PreviousRunCompare result={result} />
         <ComparisonView result={result} />
       </Box>
     </Box>
@@ -0,0 +1,159 @@
+import { useMemo } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Stack,
+  Chip,
+  Button,
+  Alert,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
+import CompareArrowsIcon from '@mui/icons-material/CompareArrows';
+import CloseIcon from '@mui/icons-material/Close';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import { PRODUCE_COLORS } from '../theme/produceTheme';
+import DataTable from './DataTable';
+import type { ColumnDef } from './DataTable';
+import type { TransformResult } from '../transform/types';
+import { diffRuns, exportChangeLogCSV } from '../transform/runDiff';
+import type { RunDiffGroup } from '../transform/runDiff';
+import { downloadFile } from '../transform/exporter';
+
+interface RunComparePanelProps {
+  current: TransformResult;
+  baseline: TransformResult;
+  currentLabel: string;
+  baselineLabel: string;
+  tables?: string[]; // output types to diff (default: all five)
+  onClose?: () => void;
+}
+
+const GROUP_COLUMNS: ColumnDef[] = [
+  { key: 'schemeCode', label: 'Scheme', format: v => (v ? String(v) : '(catalogs)') },
+  { key: 'locationCode', label: 'Location' },
+  { key: 'changed', label: 'Changed', numeric: true, width: 90 },
+  { key: 'added', label: 'Added', numeric: true, width: 90 },
+  { key: 'removed', label: 'Removed', numeric: true, width: 90 },
+];
+
+const ACTION_COLORS = {
+  changed: '#e65100',
+  added: '#1565c0',
+  removed: '#c62828',
+};
+
+function GroupEntries({ group }: { group: RunDiffGroup }) {
+  return (
+    <Box sx={{ p: 2, backgroundColor: PRODUCE_COLORS.background, borderLeft: `3px solid ${PRODUCE_COLORS.primary}` }}>
+      {group.entries.map((entry, idx) => (
+        <Typography key={idx} variant="body2" sx={{ fontFamily: 'monospace', fontSize: '0.78rem' }}>
+          <Box component="span" sx={{ color: ACTION_COLORS[entry.action], fontWeight: 600 }}>
+            {entry.action.toUpperCase()}
+          </Box>
+          {` ${entry.table} [${entry.key}]${entry.changes ? ` ${entry.changes}` : ''}`}
+        </Typography>
+      ))}
+    </Box>
+  );
+}
+
+/**
+ * Run-to-run diff: per-table counts plus changes grouped by scheme code and location
+ */
+export default function RunComparePanel({ current, baseline, currentLabel, baselineLabel, tables, onClose }: RunComparePanelProps) {
+  const diff = useMemo(() => diffRuns(current, baseline, tables), [current, baseline, tables]);
+
+  const handleDownload = () => {
+    const timestamp = new Date().toISOString().split('T')[0];
+    downloadFile(exportChangeLogCSV(diff), `bln-change-log-${timestamp}.csv`);
+  };
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ mb: 2 }}>
+          <Stack direction="row" alignItems="center" spacing={1} flexWrap="wrap" useFlexGap>
+            <CompareArrowsIcon sx={{ color: PRODUCE_COLORS.primary }} />
+            <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+              Run Comparison
+            </Typography>
+            <Chip label={`Baseline: ${baselineLabel}`} size="small" variant="outlined" />
+            <Chip label={`Current: ${currentLabel}`} size="small" color="primary" />
+          </Stack>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <Button
+              size="small"
+              variant="outlined"
+              startIcon={<FileDownloadIcon />}
+              disabled={diff.entries.length === 0}
+              onClick={handleDownload}
+            >
+              Download Change Log
+            </Button>
+            {onClose && (
+              <Tooltip title="Close comparison">
+                <IconButton size="small" onClick={onClose}>
+                  <CloseIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            )}
+          </Stack>
+        </Stack>
+
+        <TableContainer sx={{ border: '1px solid #e0e0e0', borderRadius: 1, mb: 2 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontWeight: 700, backgroundColor: '#f5f5f5' }}>Output</TableCell>
+                <TableCell align="right" sx={{ fontWeight: 700, backgroundColor: '#f5f5f5' }}>Baseline</TableCell>
+                <TableCell align="right" sx={{ fontWeight: 700, backgroundColor: '#f5f5f5' }}>Current</TableCell>
+                <TableCell align="right" sx={{ fontWeight: 700, backgroundColor: '#f5f5f5' }}>Changed</TableCell>
+                <TableCell align="right" sx={{ fontWeight: 700, backgroundColor: '#f5f5f5' }}>Added</TableCell>
+                <TableCell align="right" sx={{ fontWeight: 700, backgroundColor: '#f5f5f5' }}>Removed</TableCell>
+                <TableCell align="right" sx={{ fontWeight: 700, backgroundColor: '#f5f5f5' }}>Unchanged</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {diff.tables.map(c => {
+                const identical = c.changed === 0 && c.added === 0 && c.removed === 0;
+                return (
+                  <TableRow key={c.dataType} sx={{ backgroundColor: identical ? 'transparent' : '#fff8e1' }}>
+                    <TableCell sx={{ fontWeight: 500 }}>{c.dataType}</TableCell>
+                    <TableCell align="right">{c.totalCompare.toLocaleString()}</TableCell>
+                    <TableCell align="right">{c.totalSource.toLocaleString()}</TableCell>
+                    <TableCell align="right" sx={{ color: c.changed > 0 ? ACTION_COLORS.changed : 'text.secondary' }}>{c.changed.toLocaleString()}</TableCell>
+                    <TableCell align="right" sx={{ color: c.added > 0 ? ACTION_COLORS.added : 'text.secondary' }}>{c.added.toLocaleString()}</TableCell>
+                    <TableCell align="right" sx={{ color: c.removed > 0 ? ACTION_COLORS.removed : 'text.secondary' }}>{c.removed.toLocaleString()}</TableCell>
+                    <TableCell align="right" sx={{ color: 'text.secondary' }}>{c.matched.toLocaleString()}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+
+        {diff.groups.length === 0 ? (
+          <Alert severity="success">No differences — both runs produced the same output.</Alert>
+        ) : (
+          <DataTable
+            data={diff.groups as unknown as Record<string, unknown>[]}
+            columns={GROUP_COLUMNS}
+            title={`Changes by scheme & location (${diff.groups.length})`}
+            downloadFilename="bln-change-groups.csv"
+            maxHeight={500}
+            renderDetail={row => <GroupEntries group={row as unknown as RunDiffGroup} />}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,285 @@
+import { useState, useRef, useCallback } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Stack,
+  Button,
+  Chip,
+  Alert,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  TextField,
+  Select,
+  MenuItem,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
+import SquareFootIcon from '@mui/icons-material/SquareFoot';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import SaveIcon from '@mui/icons-material/Save';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import { PRODUCE_COLORS } from '../theme/produceTheme';
+import type { SpaceModelKind, SpaceModelRule } from '../transform/types';
+import {
+  SPACE_MODEL_LABELS,
+  DEFAULT_SPACE_MODEL,
+  computeSpaceDimensions,
+  parseSpaceModelRules,
+  serializeSpaceModelRules,
+} from '../transform/spaceModel';
+import { downloadFile } from '../transform/exporter';
+
+interface SpaceModelEditorProps {
+  rules: SpaceModelRule[];
+  onChange: (rules: SpaceModelRule[]) => void;
+}
+
+interface DraftRow {
+  scope: SpaceModelRule['scope'];
+  value: string;
+  model: SpaceModelKind;
+  fixedWidth: string;
+}
+
+/** Qty per Area used for the preview column (the 8.66" PRODUCE example) */
+const PREVIEW_QTY_PER_AREA = 1.92;
+
+function toDraft(rules: SpaceModelRule[]): DraftRow[] {
+  return rules.map(r => ({
+    scope: r.scope,
+    value: r.value,
+    model: r.model,
+    fixedWidth: r.fixedWidth !== undefined ? String(r.fixedWidth) : '',
+  }));
+}
+
+/**
+ * Convert draft rows back to rules, or return an error message
+ */
+function fromDraft(rows: DraftRow[]): SpaceModelRule[] | string {
+  const seen = new Set<string>();
+  const rules: SpaceModelRule[] = [];
+
+  for (const row of rows) {
+    const value = row.value.trim().toUpperCase();
+    if (!value) return `Every rule needs a ${row.scope}`;
+    const key = `${row.scope}:${value}`;
+    if (seen.has(key)) return `Duplicate rule: ${key}`;
+    seen.add(key);
+
+    const fixedWidth = Number(row.fixedWidth);
+    if (row.model === 'fixedWidth' && (!row.fixedWidth.trim() || !(fixedWidth > 0))) {
+      return `Fixed width for ${key} must be a positive number of inches`;
+    }
+
+    rules.push({
+      scope: row.scope,
+      value,
+      model: row.model,
+      ...(row.model === 'fixedWidth' ? { fixedWidth } : {}),
+    });
+  }
+
+  return rules;
+}
+
+function previewDimensions(row: DraftRow): string {
+  const dims = computeSpaceDimensions(row.model, PREVIEW_QTY_PER_AREA, Number(row.fixedWidth) || undefined);
+  return `${dims.spaceWidth.toFixed(2)} × ${dims.spaceLength.toFixed(2)}${dims.stagger ? ' (stagger)' : ''}`;
+}
+
+export default function SpaceModelEditor({ rules, onChange }: SpaceModelEditorProps) {
+  const [draft, setDraft] = useState<DraftRow[]>(() => toDraft(rules));
+  const [error, setError] = useState('');
+  const [dirty, setDirty] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const commit = useCallback((next: SpaceModelRule[]) => {
+    setDraft(toDraft(next));
+    setDirty(false);
+    setError('');
+    onChange(next);
+  }, [onChange]);
+
+  const updateRow = (index: number, update: Partial<DraftRow>) => {
+    setDraft(prev => prev.map((row, i) => (i === index ? { ...row, ...update } : row)));
+    setDirty(true);
+  };
+
+  const addRow = () => {
+    setDraft(prev => [...prev, { scope: 'category', value: '', model: DEFAULT_SPACE_MODEL, fixedWidth: '' }]);
+    setDirty(true);
+  };
+
+  const removeRow = (index: number) => {
+    setDraft(prev => prev.filter((_, i) => i !== index));
+    setDirty(true);
+  };
+
+  const handleSave = () => {
+    const result = fromDraft(draft);
+    if (typeof result === 'string') {
+      setError(result);
+      return;
+    }
+    commit(result);
+  };
+
+  const handleImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      commit(parseSpaceModelRules(await file.text()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid space model rules file');
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  }, [commit]);
+
+  const handleExport = () => {
+    downloadFile(serializeSpaceModelRules(rules), 'bln-space-model-rules.json', 'application/json');
+  };
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ mb: 1 }}>
+          <Stack direction="row" alignItems="center" spacing={1}>
+            <SquareFootIcon sx={{ color: PRODUCE_COLORS.primary }} />
+            <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+              Space Model Rules
+            </Typography>
+            <Chip label={`${rules.length} rule${rules.length !== 1 ? 's' : ''}`} size="small" />
+          </Stack>
+          <Stack direction="row" spacing={1}>
+            <Button size="small" startIcon={<FileUploadIcon />} onClick={() => fileInputRef.current?.click()}>
+              Import JSON
+            </Button>
+            <Button size="small" startIcon={<FileDownloadIcon />} onClick={handleExport}>
+              Export JSON
+            </Button>
+          </Stack>
+        </Stack>
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Chooses how SpaceSpec width and length (inches) are derived from Qty per Area. Genus rules win over
+          category rules; everything else uses <strong>{SPACE_MODEL_LABELS[DEFAULT_SPACE_MODEL]}</strong> (12 × √(1/Qty per Area)).
+          Lines without a quantity fall back to 12 × 12.
+        </Typography>
+
+        {error && (
+          <Alert severity="warning" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>
+        )}
+
+        {draft.length > 0 && (
+          <TableContainer sx={{ maxHeight: 360, border: '1px solid #e0e0e0', borderRadius: 1 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell sx={{ fontWeight: 700, backgroundColor: '#f5f5f5', width: 130 }}>Applies To</TableCell>
+                  <TableCell sx={{ fontWeight: 700, backgroundColor: '#f5f5f5' }}>Category / Genus</TableCell>
+                  <TableCell sx={{ fontWeight: 700, backgroundColor: '#f5f5f5', width: 230 }}>Model</TableCell>
+                  <TableCell sx={{ fontWeight: 700, backgroundColor: '#f5f5f5', width: 120 }}>Fixed Width (in)</TableCell>
+                  <TableCell sx={{ fontWeight: 700, backgroundColor: '#f5f5f5', width: 170 }}>@ {PREVIEW_QTY_PER_AREA}/sq ft</TableCell>
+                  <TableCell sx={{ backgroundColor: '#f5f5f5', width: 48 }} />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {draft.map((row, idx) => (
+                  <TableRow key={idx}>
+                    <TableCell>
+                      <Select
+                        size="small"
+                        variant="standard"
+                        value={row.scope}
+                        onChange={(e) => updateRow(idx, { scope: e.target.value as DraftRow['scope'] })}
+                      >
+                        <MenuItem value="category">Category</MenuItem>
+                        <MenuItem value="genus">Genus</MenuItem>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        size="small"
+                        variant="standard"
+                        fullWidth
+                        value={row.value}
+                        onChange={(e) => updateRow(idx, { value: e.target.value })}
+                        slotProps={{ htmlInput: { style: { fontFamily: 'monospace' } } }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        size="small"
+                        variant="standard"
+                        fullWidth
+                        value={row.model}
+                        onChange={(e) => updateRow(idx, { model: e.target.value as SpaceModelKind })}
+                      >
+                        {(Object.keys(SPACE_MODEL_LABELS) as SpaceModelKind[]).map(model => (
+                          <MenuItem key={model} value={model}>{SPACE_MODEL_LABELS[model]}</MenuItem>
+                        ))}
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        size="small"
+                        variant="standard"
+                        type="number"
+                        disabled={row.model !== 'fixedWidth'}
+                        value={row.fixedWidth}
+                        onChange={(e) => updateRow(idx, { fixedWidth: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace', fontSize: '0.8rem' }}>
+                      {previewDimensions(row)}
+                    </TableCell>
+                    <TableCell>
+                      <Tooltip title="Remove rule">
+                        <IconButton size="small" onClick={() => removeRow(idx)}>
+                          <DeleteOutlineIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        <Stack direction="row" justifyContent="space-between" sx={{ mt: 2 }}>
+          <Button size="small" startIcon={<AddIcon />} onClick={addRow}>
+            Add Rule
+          </Button>
+          <Box>
+            {dirty && (
+              <Button size="small" color="inherit" sx={{ mr: 1 }} onClick={() => { setDraft(toDraft(rules)); setDirty(false); setError(''); }}>
+                Discard
+              </Button>
+            )}
+            <Button size="small" variant="contained" startIcon={<SaveIcon />} onClick={handleSave} disabled={!dirty}>
+              Save Rules
+            </Button>
+          </Box>
+        </Stack>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json"
+          onChange={handleImport}
+          style={{ display: 'none' }}
+        />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,252 @@
+/**
+ * Run history persisted in IndexedDB.
+ * Each transform run is stored with its input files, parsed data, validation
+ * result, transform result and timings so it can be reopened, re-exported or
+ * compared after a refresh. Only the latest MAX_SAVED_RUNS runs are kept.
+ * The id ledger (natural key → id) lives in the same database so ids stay
+ * stable from one run to the next.
+ */
+import type {
+  ParsedData,
+  TransformResult,
+  TransformOptions,
+  TransformStepInfo,
+  IdLedger,
+  UploadedFile,
+} from '../transform/types';
+import type { ValidationResult } from '../transform/validator';
+
+const DB_NAME = 'bln-run-history';
+const DB_VERSION = 2;
+const RUNS_STORE = 'runs';
+const SUMMARIES_STORE = 'summaries';
+const LEDGER_STORE = 'ledger';
+const LEDGER_KEY = 'current';
+
+/** Older runs are pruned when a new run is saved (each holds its uploads and full result) */
+export const MAX_SAVED_RUNS = 20;
+
+export interface RunInputFile {
+  name: string;
+  size: number;
+  type: UploadedFile['type'];
+  arcFlowKind?: UploadedFile['arcFlowKind'];
+  sha256: string;
+  file?: Blob; // the original upload, so a run can be re-parsed
+}
+
+export interface RunTimings {
+  parseMs: number;
+  validateMs: number;
+  transformMs: number;
+}
+
+export interface RunRecord {
+  id: string;
+  timestamp: string;
+  files: RunInputFile[];
+  options: TransformOptions;
+  parsedData: ParsedData;
+  validationResult: ValidationResult;
+  transformResult: TransformResult;
+  steps: TransformStepInfo[];
+  timings: RunTimings;
+}
+
+// Lightweight copy of a run used by the History list (avoids loading full results)
+export interface RunSummary {
+  id: string;
+  timestamp: string;
+  fileNames: string[];
+  qualityScore: number;
+  durationMs: number;
+  catalogs: number;
+  recipes: number;
+  events: number;
+  specs: number;
+  mixes: number;
+  errors: number;
+  warnings: number;
+}
+
+/**
+ * Build the list entry for a run
+ */
+export function summarizeRun(run: RunRecord): RunSummary {
+  const result = run.transformResult;
+  return {
+    id: run.id,
+    timestamp: run.timestamp,
+    fileNames: run.files.map(f => f.name),
+    qualityScore: run.validationResult.qualityScore,
+    durationMs: run.timings.transformMs,
+    catalogs: result.catalogs.length,
+    recipes: result.recipes.length,
+    events: result.events.length,
+    specs: result.specs.length,
+    mixes: result.mixes.length,
+    errors: result.errors.length,
+    warnings: result.warnings.length,
+  };
+}
+
+/**
+ * Hex SHA-256 of a file's contents
+ */
+export async function hashFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Run id from the run timestamp: sortable and readable in the History list
+ */
+export function createRunId(timestamp: string): string {
+  return `run-${timestamp.replace(/[-:.TZ]/g, '')}`;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error ?? new Error('IndexedDB transaction failed'));
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this browser'));
+  }
+
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(RUNS_STORE)) db.createObjectStore(RUNS_STORE, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(SUMMARIES_STORE)) db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(LEDGER_STORE)) db.createObjectStore(LEDGER_STORE);
+  };
+  return promisify(request);
+}
+
+/**
+ * Save a run (full record + list summary) in one transaction, pruning the
+ * oldest runs beyond MAX_SAVED_RUNS
+ */
+export async function saveRun(run: RunRecord): Promise<void> {
+  const db = await openDatabase();
+  try {
+    const tx = db.transaction([RUNS_STORE, SUMMARIES_STORE], 'readwrite');
+    const runs = tx.objectStore(RUNS_STORE);
+    const summaries = tx.objectStore(SUMMARIES_STORE);
+    runs.put(run);
+    summaries.put(summarizeRun(run));
+
+    // Run ids sort by timestamp (see createRunId), so the first ids are the oldest
+    const keys = summaries.getAllKeys();
+    keys.onsuccess = () => {
+      const ids = (keys.result as string[]).sort();
+      for (const id of ids.slice(0, Math.max(0, ids.length - MAX_SAVED_RUNS))) {
+        runs.delete(id);
+        summaries.delete(id);
+      }
+    };
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * All saved runs, newest first
+ */
+export async function listRuns(): Promise<RunSummary[]> {
+  const db = await openDatabase();
+  try {
+    const summaries = await promisify(
+      db.transaction(SUMMARIES_STORE, 'readonly').objectStore(SUMMARIES_STORE).getAll()
+    ) as RunSummary[];
+    return summaries.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Load a full run record, or null if it no longer exists
+ */
+export async function loadRun(id: string): Promise<RunRecord | null> {
+  const db = await openDatabase();
+  try {
+    const run = await promisify(
+      db.transaction(RUNS_STORE, 'readonly').objectStore(RUNS_STORE).get(id)
+    ) as RunRecord | undefined;
+    return run ?? null;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Delete a run and its summary
+ */
+export async function deleteRun(id: string): Promise<void> {
+  const db = await openDatabase();
+  try {
+    const tx = db.transaction([RUNS_STORE, SUMMARIES_STORE], 'readwrite');
+    tx.objectStore(RUNS_STORE).delete(id);
+    tx.objectStore(SUMMARIES_STORE).delete(id);
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * The id ledger used by the next transform, or null before the first run
+ */
+export async function loadIdLedger(): Promise<IdLedger | null> {
+  const db = await openDatabase();
+  try {
+    const ledger = await promisify(
+      db.transaction(LEDGER_STORE, 'readonly').objectStore(LEDGER_STORE).get(LEDGER_KEY)
+    ) as IdLedger | undefined;
+    return ledger ?? null;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Replace the stored id ledger
+ */
+export async function saveIdLedger(ledger: IdLedger): Promise<void> {
+  const db = await openDatabase();
+  try {
+    const tx = db.transaction(LEDGER_STORE, 'readwrite');
+    tx.objectStore(LEDGER_STORE).put(ledger, LEDGER_KEY);
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Forget every allocated id; the next run numbers rows from 1 again
+ */
+export async function clearIdLedger(): Promise<void> {
+  const db = await openDatabase();
+  try {
+    const tx = db.transaction(LEDGER_STORE, 'readwrite');
+    tx.objectStore(LEDGER_STORE).delete(LEDGER_KEY);
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+}
@@ -1,22 +1,49 @@
-import { useState, useCallback, useRef } from 'react';
-import type { ParsedData, TransformResult } from '../transform/types';
-import { parseAllFiles, parseMixExcel, fileToArrayBuffer, transform } from '../transform';
+import { useState, useCallback, useRef, useMemo } from 'react';
+import type {
+  ParsedData,
+  TransformResult,
+  LocationMapping,
+  SpaceModelRule,
+  PhaseMergeRule,
+  EventExclusionRule,
+  ArcFlowFileKind,
+  ArcFlowMergeMode,
+  TransformStage,
+  TransformStepInfo,
+  TransformOptions,
+  UploadedFile,
+  WeekRoundingPolicy,
+} from '../transform/types';
+import {
+  DEFAULT_LOCATION_MAPPINGS,
+  parseLocationMappings,
+  serializeLocationMappings,
+  parseSpaceModelRules,
+  serializeSpaceModelRules,
+  parsePhaseMergeRules,
+  serializePhaseMergeRules,
+  parseEventExclusionRules,
+  serializeEventExclusionRules,
+  emptyIdLedger,
+  ARC_FLOW_FILE_KINDS,
+  ARC_FLOW_FILE_LABELS,
+  isValidPlanYear,
+  isWeekRoundingPolicy,
+  DEFAULT_WEEK_ROUNDING,
+} from '../transform';
 import { validateParsedData } from '../transform/validator';
 import type { ValidationResult } from '../transform/validator';
-
-export interface UploadedFile {
+import { saveRun, loadRun, hashFile, createRunId, loadIdLedger, saveIdLedger } from '../history/runStore';
+import type { RunRecord, RunTimings } from '../history/runStore';
+import { inspectInWorker, parseInWorker, transformInWorker, isCancelled } from '../workers/pipelineJobs';
+import type { InspectedFile, ParseStage, PipelineProgress } from '../workers/pipelineJobs';
+
+// One required Arc Flow export and the uploaded files it was found in
+export interface ArcFlowFileStatus {
+  kind: ArcFlowFileKind;
   name: string;
-  size: number;
-  type: 'arc-flow' | 'excel' | 'unknown';
-  file: File;
-  rowCount?: number;
-}
-
-export interface TransformStepInfo {
-  label: string;
-  status: 'pending' | 'running' | 'complete' | 'error';
-  outputCount?: number;
-  detail?: string;
+  present: boolean;
+  files: string[]; // more than one = merged according to the merge mode
 }
 
 export interface PipelineState {
@@ -24,30 +51,142 @@ export interface PipelineState {
   uploadedFiles: UploadedFile[];
   parsedData: ParsedData | null;
   validationResult: ValidationResult | null;
+  isParsing: boolean;
+  parseDetail: string | null; // what the parse worker is doing
   isTransforming: boolean;
   transformSteps: TransformStepInfo[];
   transformResult: TransformResult | null;
   transformDuration: number;
   lastRunTimestamp: string | null;
+  locationMappings: LocationMapping[];
+  spaceModelRules: SpaceModelRule[];
+  phaseMergeRules: PhaseMergeRule[];
+  eventExclusionRules: EventExclusionRule[];
+  mergeMode: ArcFlowMergeMode; // how several files of one Arc Flow export are combined
+  planYear: number | null; // ISO plan year for week numbering and dates (none = 53 weeks, no dates)
+  weekRounding: WeekRoundingPolicy; // how period days become weeks
+  runId: string | null; // id of the saved run in the History store
+  historyError: string | null;
 }
 
-const ARC_FLOW_FILES = [
-  'ProductionPreferences',
-  'ProductionScheme',
-  'ProductionSchemeLine',
-  'ProductionSchemeLinePeriod',
-];
-
-function detectFileType(fileName: string): 'arc-flow' | 'excel' | 'unknown' {
+function isExcelFile(fileName: string): boolean {
   const lowerName = fileName.toLowerCase();
-  if (ARC_FLOW_FILES.some(af => lowerName.includes(af.toLowerCase()))) return 'arc-flow';
-  if (lowerName.endsWith('.xlsx') || lowerName.endsWith('.xls')) return 'excel';
-  if (lowerName.endsWith('.csv')) return 'arc-flow';
-  return 'unknown';
+  return lowerName.endsWith('.xlsx') || lowerName.endsWith('.xls');
+}
+
+const LOCATION_MAPPINGS_KEY = 'bln-location-mappings';
+
+/**
+ * Load the saved location mapping, falling back to the defaults
+ */
+function loadLocationMappings(): LocationMapping[] {
+  try {
+    const stored = localStorage.getItem(LOCATION_MAPPINGS_KEY);
+    return stored ? parseLocationMappings(stored) : DEFAULT_LOCATION_MAPPINGS;
+  } catch {
+    return DEFAULT_LOCATION_MAPPINGS;
+  }
+}
+
+const SPACE_MODEL_RULES_KEY = 'bln-space-model-rules';
+
+/**
+ * Load the saved space model rules (none = square model everywhere)
+ */
+function loadSpaceModelRules(): SpaceModelRule[] {
+  try {
+    const stored = localStorage.getItem(SPACE_MODEL_RULES_KEY);
+    return stored ? parseSpaceModelRules(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+const PHASE_MERGE_RULES_KEY = 'bln-phase-merge-rules';
+
+/**
+ * Load the saved phase merge rules (none = built-in phase handling)
+ */
+function loadPhaseMergeRules(): PhaseMergeRule[] {
+  try {
+    const stored = localStorage.getItem(PHASE_MERGE_RULES_KEY);
+    return stored ? parsePhaseMergeRules(stored) : [];
+  } catch {
+    return [];
+  }
 }
 
-function countCsvRows(content: string): number {
-  return Math.max(0, content.split('\n').filter(l => l.trim()).length - 1);
+const EVENT_EXCLUSION_RULES_KEY = 'bln-event-exclusion-rules';
+
+/**
+ * Load the saved event exclusion rules (none = every recipe → event link included)
+ */
+function loadEventExclusionRules(): EventExclusionRule[] {
+  try {
+    const stored = localStorage.getItem(EVENT_EXCLUSION_RULES_KEY);
+    return stored ? parseEventExclusionRules(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+const MERGE_MODE_KEY = 'bln-merge-mode';
+
+function loadMergeMode(): ArcFlowMergeMode {
+  return localStorage.getItem(MERGE_MODE_KEY) === 'latest' ? 'latest' : 'concat';
+}
+
+const PLAN_YEAR_KEY = 'bln-plan-year';
+
+function loadPlanYear(): number | null {
+  const year = Number(localStorage.getItem(PLAN_YEAR_KEY));
+  return isValidPlanYear(year) ? year : null;
+}
+
+const WEEK_ROUNDING_KEY = 'bln-week-rounding';
+
+function loadWeekRounding(): WeekRoundingPolicy {
+  const stored = localStorage.getItem(WEEK_ROUNDING_KEY);
+  return isWeekRoundingPolicy(stored) ? stored : DEFAULT_WEEK_ROUNDING;
+}
+
+/**
+ * Transform options from the saved settings (validation checks against the same options)
+ */
+function settingsOptions(
+  state: Pick<
+    PipelineState,
+    'locationMappings' | 'spaceModelRules' | 'phaseMergeRules' | 'eventExclusionRules' | 'planYear' | 'weekRounding'
+  >
+): TransformOptions {
+  return {
+    locationMappings: state.locationMappings,
+    spaceModelRules: state.spaceModelRules,
+    phaseMergeRules: state.phaseMergeRules,
+    eventExclusionRules: state.eventExclusionRules,
+    planYear: state.planYear ?? undefined,
+    weekRounding: state.weekRounding,
+  };
+}
+
+/**
+ * Hash the uploaded files and save the run to the History store
+ */
+async function persistRun(
+  run: Omit<RunRecord, 'id' | 'files'>,
+  uploadedFiles: UploadedFile[]
+): Promise<string> {
+  const files = await Promise.all(uploadedFiles.map(async f => ({
+    name: f.name,
+    size: f.size,
+    type: f.type,
+    arcFlowKind: f.arcFlowKind,
+    sha256: await hashFile(f.file),
+    file: f.file,
+  })));
+  const id = createRunId(run.timestamp);
+  await saveRun({ ...run, id, files });
+  return id;
 }
 
 const INITIAL_STEPS: TransformStepInfo[] = [
@@ -58,46 +197,111 @@ const INITIAL_STEPS: TransformStepInfo[] = [
   { label: 'Generate recipes' },
   { label: 'Generate events & specs' },
   { label: 'Generate mixes' },
+  { label: 'Generate wildcard recipes' },
   { label: 'Validate output' },
 ].map(s => ({ ...s, status: 'pending' as const }));
 
+// INITIAL_STEPS row each worker stage reports to
+const STAGE_STEPS: Record<ParseStage | TransformStage, number> = {
+  csv: 0,
+  excel: 1,
+  dictionary: 2,
+  catalogs: 3,
+  recipes: 4,
+  events: 5,
+  mixes: 6,
+  wildcards: 7,
+  audit: 8,
+};
+
+/**
+ * Step update for a worker progress event
+ */
+function progressUpdate(progress: PipelineProgress): Partial<TransformStepInfo> {
+  return {
+    status: progress.status,
+    ...(progress.count !== undefined && { outputCount: progress.count }),
+    ...(progress.detail !== undefined && { detail: progress.detail }),
+    ...(progress.durationMs !== undefined && { durationMs: progress.durationMs }),
+  };
+}
+
 export function useTransformPipeline() {
   const [state, setState] = useState<PipelineState>({
     activeStep: 0,
     uploadedFiles: [],
     parsedData: null,
     validationResult: null,
+    isParsing: false,
+    parseDetail: null,
     isTransforming: false,
     transformSteps: INITIAL_STEPS.map(s => ({ ...s })),
     transformResult: null,
     transformDuration: 0,
     lastRunTimestamp: null,
+    locationMappings: loadLocationMappings(),
+    spaceModelRules: loadSpaceModelRules(),
+    phaseMergeRules: loadPhaseMergeRules(),
+    eventExclusionRules: loadEventExclusionRules(),
+    mergeMode: loadMergeMode(),
+    planYear: loadPlanYear(),
+    weekRounding: loadWeekRounding(),
+    runId: null,
+    historyError: null,
   });
 
   const startTimeRef = useRef(0);
+  const timingsRef = useRef<RunTimings>({ parseMs: 0, validateMs: 0, transformMs: 0 });
+  // Parse CSV / Parse Excel steps as reported by the last parse job
+  const parseStepsRef = useRef<TransformStepInfo[]>(INITIAL_STEPS.slice(0, 2).map(s => ({ ...s })));
+  const abortRef = useRef<AbortController | null>(null);
+
+  const { locationMappings, spaceModelRules, phaseMergeRules, eventExclusionRules, planYear, weekRounding } = state;
+  const options = useMemo(
+    () => settingsOptions({ locationMappings, spaceModelRules, phaseMergeRules, eventExclusionRules, planYear, weekRounding }),
+    [locationMappings, spaceModelRules, phaseMergeRules, eventExclusionRules, planYear, weekRounding]
+  );
 
   const addFiles = useCallback(async (files: File[]) => {
-    const newFiles: UploadedFile[] = [];
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setState(prev => ({ ...prev, isParsing: true, parseDetail: null }));
+
+    // CSVs: row count and Arc Flow export (detected from the header row), read in the worker
+    let inspected: InspectedFile[];
+    try {
+      inspected = await inspectInWorker(
+        files.filter(file => file.name.toLowerCase().endsWith('.csv')),
+        progress => setState(prev => ({ ...prev, parseDetail: progress.status === 'running' ? progress.detail ?? null : prev.parseDetail })),
+        controller.signal
+      );
+    } catch (error) {
+      setState(prev => ({ ...prev, isParsing: false, parseDetail: null }));
+      if (isCancelled(error)) return;
+      throw error;
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
 
-    for (const file of files) {
-      const fileType = detectFileType(file.name);
-      const uf: UploadedFile = {
+    const newFiles = files.map((file): UploadedFile => {
+      const csv = inspected.find(f => f.name === file.name);
+      if (!csv) return { name: file.name, size: file.size, type: isExcelFile(file.name) ? 'excel' : 'unknown', file };
+      return {
         name: file.name,
         size: file.size,
-        type: fileType,
+        type: csv.detection.kind ? 'arc-flow' : 'unknown',
         file,
+        rowCount: csv.rowCount,
+        detection: csv.detection,
+        arcFlowKind: csv.detection.kind,
       };
-
-      if (file.name.endsWith('.csv')) {
-        const content = await file.text();
-        uf.rowCount = countCsvRows(content);
-      }
-
-      newFiles.push(uf);
-    }
+    });
 
     setState(prev => ({
       ...prev,
+      isParsing: false,
+      parseDetail: null,
       uploadedFiles: [...prev.uploadedFiles, ...newFiles],
       parsedData: null,
       validationResult: null,
@@ -117,6 +321,22 @@ export function useTransformPipeline() {
     }));
   }, []);
 
+  /**
+   * Manually set (or clear) which Arc Flow export a CSV file holds
+   */
+  const setFileKind = useCallback((index: number, kind: ArcFlowFileKind | null) => {
+    setState(prev => ({
+      ...prev,
+      uploadedFiles: prev.uploadedFiles.map((f, i) =>
+        i === index ? { ...f, arcFlowKind: kind, kindOverridden: true, type: kind ? 'arc-flow' : 'unknown' } : f
+      ),
+      parsedData: null,
+      validationResult: null,
+      transformResult: null,
+      transformSteps: INITIAL_STEPS.map(s => ({ ...s })),
+    }));
+  }, []);
+
   const clearFiles = useCallback(() => {
     setState(prev => ({
       ...prev,
@@ -130,54 +350,169 @@ export function useTransformPipeline() {
   }, []);
 
   const parseAndValidate = useCallback(async () => {
-    const uploaded = state.uploadedFiles;
-
-    // Parse CSVs
-    const csvFiles: { name: string; content: string }[] = [];
-    for (const f of uploaded) {
-      if (f.file.name.endsWith('.csv')) {
-        const content = await f.file.text();
-        csvFiles.push({ name: f.name, content });
-      }
-    }
+    const files = state.uploadedFiles
+      .filter(f => f.type === 'excel' || f.file.name.toLowerCase().endsWith('.csv'))
+      .map(f => ({
+        name: f.name,
+        file: f.file,
+        format: f.type === 'excel' ? 'excel' as const : 'csv' as const,
+        kind: f.arcFlowKind,
+      }));
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const parseSteps = INITIAL_STEPS.slice(0, 2).map(s => ({ ...s }));
+    setState(prev => ({ ...prev, isParsing: true, parseDetail: null }));
 
-    const parsedData = parseAllFiles(csvFiles);
+    try {
+      const { parsedData, validationResult, timings } = await parseInWorker(
+        files,
+        state.mergeMode,
+        options,
+        progress => {
+          const index = STAGE_STEPS[progress.stage];
+          parseSteps[index] = { ...parseSteps[index], ...progressUpdate(progress) };
+          setState(prev => ({ ...prev, parseDetail: progress.status === 'running' ? progress.detail ?? null : prev.parseDetail }));
+        },
+        controller.signal
+      );
+
+      parseStepsRef.current = parseSteps;
+      timingsRef.current = { ...timings, transformMs: 0 };
 
-    // Parse Excel mixes
-    const excelFiles = uploaded.filter(f => f.type === 'excel');
-    for (const ef of excelFiles) {
-      const arrayBuffer = await fileToArrayBuffer(ef.file);
-      const mixRows = parseMixExcel(arrayBuffer);
-      parsedData.mixRows.push(...mixRows);
+      setState(prev => ({
+        ...prev,
+        parsedData,
+        validationResult,
+        isParsing: false,
+        parseDetail: null,
+        activeStep: 1,
+      }));
+
+      return { parsedData, validationResult };
+    } catch (error) {
+      setState(prev => ({ ...prev, isParsing: false, parseDetail: null }));
+      if (isCancelled(error)) return null;
+      throw error;
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
     }
+  }, [state.uploadedFiles, state.mergeMode, options]);
 
-    const validationResult = validateParsedData(parsedData);
+  /**
+   * Stop the running parse or transform job
+   */
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  const updateLocationMappings = useCallback((locationMappings: LocationMapping[]) => {
+    localStorage.setItem(LOCATION_MAPPINGS_KEY, serializeLocationMappings(locationMappings));
 
     setState(prev => ({
       ...prev,
-      parsedData,
-      validationResult,
-      activeStep: 1,
+      locationMappings,
+      validationResult: prev.parsedData
+        ? validateParsedData(prev.parsedData, settingsOptions({ ...prev, locationMappings }))
+        : prev.validationResult,
     }));
+  }, []);
 
-    return { parsedData, validationResult };
-  }, [state.uploadedFiles]);
+  const updatePlanYear = useCallback((planYear: number | null) => {
+    if (planYear === null) localStorage.removeItem(PLAN_YEAR_KEY);
+    else localStorage.setItem(PLAN_YEAR_KEY, String(planYear));
+
+    setState(prev => ({
+      ...prev,
+      planYear,
+      validationResult: prev.parsedData
+        ? validateParsedData(prev.parsedData, settingsOptions({ ...prev, planYear }))
+        : prev.validationResult,
+    }));
+  }, []);
+
+  const updateWeekRounding = useCallback((weekRounding: WeekRoundingPolicy) => {
+    localStorage.setItem(WEEK_ROUNDING_KEY, weekRounding);
+    setState(prev => ({
+      ...prev,
+      weekRounding,
+      validationResult: prev.parsedData
+        ? validateParsedData(prev.parsedData, settingsOptions({ ...prev, weekRounding }))
+        : prev.validationResult,
+    }));
+  }, []);
+
+  const updateSpaceModelRules = useCallback((spaceModelRules: SpaceModelRule[]) => {
+    localStorage.setItem(SPACE_MODEL_RULES_KEY, serializeSpaceModelRules(spaceModelRules));
+    setState(prev => ({
+      ...prev,
+      spaceModelRules,
+      validationResult: prev.parsedData
+        ? validateParsedData(prev.parsedData, settingsOptions({ ...prev, spaceModelRules }))
+        : prev.validationResult,
+    }));
+  }, []);
+
+  const updatePhaseMergeRules = useCallback((phaseMergeRules: PhaseMergeRule[]) => {
+    localStorage.setItem(PHASE_MERGE_RULES_KEY, serializePhaseMergeRules(phaseMergeRules));
+    setState(prev => ({
+      ...prev,
+      phaseMergeRules,
+      validationResult: prev.parsedData
+        ? validateParsedData(prev.parsedData, settingsOptions({ ...prev, phaseMergeRules }))
+        : prev.validationResult,
+    }));
+  }, []);
+
+  const updateEventExclusionRules = useCallback((eventExclusionRules: EventExclusionRule[]) => {
+    localStorage.setItem(EVENT_EXCLUSION_RULES_KEY, serializeEventExclusionRules(eventExclusionRules));
+    setState(prev => ({
+      ...prev,
+      eventExclusionRules,
+      validationResult: prev.parsedData
+        ? validateParsedData(prev.parsedData, settingsOptions({ ...prev, eventExclusionRules }))
+        : prev.validationResult,
+    }));
+  }, []);
+
+  const updateMergeMode = useCallback((mergeMode: ArcFlowMergeMode) => {
+    localStorage.setItem(MERGE_MODE_KEY, mergeMode);
+    setState(prev => ({
+      ...prev,
+      mergeMode,
+      parsedData: null,
+      validationResult: null,
+      transformResult: null,
+      transformSteps: INITIAL_STEPS.map(s => ({ ...s })),
+    }));
+  }, []);
 
   const runTransform = useCallback(async () => {
     const parsedData = state.parsedData;
-    if (!parsedData) return;
+    const validationResult = state.validationResult;
+    if (!parsedData || !validationResult) return;
 
     startTimeRef.current = Date.now();
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    // Local copy of the steps, saved with the run; parse steps come from the parse job
+    const steps = INITIAL_STEPS.map((s, i) => ({ ...(parseStepsRef.current[i] ?? s) }));
 
     setState(prev => ({
       ...prev,
       isTransforming: true,
       transformResult: null,
-      transformSteps: INITIAL_STEPS.map(s => ({ ...s })),
+      transformSteps: steps.map(s => ({ ...s })),
       activeStep: 2,
+      runId: null,
+      historyError: null,
     }));
 
     const updateStep = (index: number, update: Partial<TransformStepInfo>) => {
+      steps[index] = { ...steps[index], ...update };
       setState(prev => ({
         ...prev,
         transformSteps: prev.transformSteps.map((s, i) =>
@@ -187,50 +522,22 @@ export function useTransformPipeline() {
     };
 
     try {
-      // Step 0: CSVs already parsed
-      updateStep(0, {
-        status: 'complete',
-        outputCount: parsedData.schemes.length + parsedData.schemeLines.length +
-          parsedData.schemeLinePeriods.length + parsedData.preferences.length,
-        detail: `${parsedData.schemes.length} schemes, ${parsedData.schemeLines.length} lines, ${parsedData.preferences.length} prefs`,
-      });
-
-      // Step 1: Mixes already parsed
-      updateStep(1, {
-        status: 'complete',
-        outputCount: parsedData.mixRows.length,
-        detail: parsedData.mixRows.length > 0 ? `${parsedData.mixRows.length} mix rows` : 'No mix data',
-      });
-
-      await new Promise(r => setTimeout(r, 200));
-
-      // Step 2: Build dictionary
-      updateStep(2, { status: 'running' });
-      await new Promise(r => setTimeout(r, 150));
-
-      const result = transform(parsedData);
-
-      // Mark all remaining steps complete with counts
-      updateStep(2, { status: 'complete', detail: `${Object.keys(parsedData.schemes).length} scheme rules built` });
-      updateStep(3, { status: 'complete', outputCount: result.catalogs.length, detail: `${result.catalogs.length} catalogs` });
-      updateStep(4, { status: 'complete', outputCount: result.recipes.length, detail: `${result.recipes.length} recipes` });
-      updateStep(5, {
-        status: 'complete',
-        outputCount: result.events.length + result.specs.length,
-        detail: `${result.events.length} events, ${result.specs.length} specs`,
-      });
-      updateStep(6, {
-        status: 'complete',
-        outputCount: result.mixes.length,
-        detail: result.mixes.length > 0 ? `${result.mixes.length} mixes` : 'No mixes generated',
-      });
-
-      await new Promise(r => setTimeout(r, 100));
+      // Reuse ids from earlier runs (run history holds the ledger)
+      const idLedger = await loadIdLedger().catch(() => null);
+
+      const transformStart = Date.now();
+      const result = await transformInWorker(
+        parsedData,
+        { ...options, idLedger: idLedger ?? undefined },
+        progress => updateStep(STAGE_STEPS[progress.stage], progressUpdate(progress)),
+        controller.signal
+      );
+      const transformMs = Date.now() - transformStart;
 
       // Validation step
       const hasErrors = result.errors.length > 0;
       const hasWarnings = result.warnings.length > 0;
-      updateStep(7, {
+      updateStep(8, {
         status: hasErrors ? 'error' : 'complete',
         detail: hasErrors
           ? `${result.errors.length} error(s)`
@@ -240,16 +547,49 @@ export function useTransformPipeline() {
       });
 
       const duration = Date.now() - startTimeRef.current;
+      const timestamp = new Date().toISOString();
 
       setState(prev => ({
         ...prev,
         isTransforming: false,
         transformResult: result,
         transformDuration: duration,
-        lastRunTimestamp: new Date().toISOString(),
+        lastRunTimestamp: timestamp,
         activeStep: hasErrors ? 2 : 3,
       }));
+
+      const saveHistory = async () => {
+        if (!hasErrors) await saveIdLedger(result.idLedger);
+        return persistRun({
+          timestamp,
+          options,
+          parsedData,
+          validationResult,
+          transformResult: result,
+          steps,
+          timings: { ...timingsRef.current, transformMs },
+        }, state.uploadedFiles);
+      };
+
+      saveHistory().then(
+        runId => setState(prev => ({ ...prev, runId })),
+        error => setState(prev => ({
+          ...prev,
+          historyError: error instanceof Error ? error.message : 'Could not save run history',
+        }))
+      );
     } catch (error) {
+      if (isCancelled(error)) {
+        const running = steps.findIndex(s => s.status === 'running');
+        if (running >= 0) updateStep(running, { status: 'error', detail: 'Cancelled' });
+        setState(prev => ({
+          ...prev,
+          isTransforming: false,
+          transformDuration: Date.now() - startTimeRef.current,
+        }));
+        return;
+      }
+
       const errMsg = error instanceof Error ? error.message : 'Unknown error';
 
       setState(prev => ({
@@ -257,56 +597,132 @@ export function useTransformPipeline() {
         isTransforming: false,
         transformResult: {
           catalogs: [],
+          categories: [],
+          productionItems: [],
           recipes: [],
           events: [],
+          eventDefinitions: [],
+          eventDetails: [],
+          triggers: [],
+          recipeSpaceEvents: [],
           specs: [],
           mixes: [],
+          recipeMixes: [],
+          blnVariantMixes: [],
+          wildcardRecipes: [],
+          mixAudit: { weeks: [], unlinkedRows: [], orphanRecipes: [] },
+          idLedger: emptyIdLedger(),
           errors: [errMsg],
           warnings: [],
         },
         transformDuration: Date.now() - startTimeRef.current,
         lastRunTimestamp: new Date().toISOString(),
       }));
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  }, [state.parsedData, state.validationResult, state.uploadedFiles, options]);
+
+  /**
+   * Restore a saved run from the History store and show its results
+   */
+  const openRun = useCallback(async (id: string) => {
+    let run: RunRecord | null;
+    try {
+      run = await loadRun(id);
+    } catch (error) {
+      run = null;
+      setState(prev => ({
+        ...prev,
+        historyError: error instanceof Error ? error.message : 'Could not load run history',
+      }));
     }
-  }, [state.parsedData]);
+    if (!run) return false;
+
+    const uploadedFiles: UploadedFile[] = run.files
+      .filter(f => f.file)
+      .map(f => ({
+        name: f.name,
+        size: f.size,
+        type: f.type,
+        file: f.file instanceof File ? f.file : new File([f.file as Blob], f.name),
+        arcFlowKind: f.arcFlowKind,
+      }));
+    timingsRef.current = run.timings;
+    parseStepsRef.current = run.steps.slice(0, 2);
+
+    setState(prev => ({
+      ...prev,
+      activeStep: run.transformResult.errors.length > 0 ? 2 : 3,
+      uploadedFiles,
+      parsedData: run.parsedData,
+      validationResult: run.validationResult,
+      isParsing: false,
+      parseDetail: null,
+      isTransforming: false,
+      transformSteps: run.steps,
+      transformResult: run.transformResult,
+      transformDuration: run.timings.transformMs,
+      lastRunTimestamp: run.timestamp,
+      runId: run.id,
+      historyError: null,
+    }));
+    return true;
+  }, []);
+
+  const dismissHistoryError = useCallback(() => {
+    setState(prev => ({ ...prev, historyError: null }));
+  }, []);
 
   const setActiveStep = useCallback((step: number) => {
     setState(prev => ({ ...prev, activeStep: step }));
   }, []);
 
   const reset = useCallback(() => {
-    setState({
+    abortRef.current?.abort();
+    setState(prev => ({
       activeStep: 0,
       uploadedFiles: [],
       parsedData: null,
       validationResult: null,
+      isParsing: false,
+      parseDetail: null,
       isTransforming: false,
       transformSteps: INITIAL_STEPS.map(s => ({ ...s })),
       transformResult: null,
       transformDuration: 0,
       lastRunTimestamp: null,
-    });
+      locationMappings: prev.locationMappings,
+      spaceModelRules: prev.spaceModelRules,
+      phaseMergeRules: prev.phaseMergeRules,
+      eventExclusionRules: prev.eventExclusionRules,
+      mergeMode: prev.mergeMode,
+      planYear: prev.planYear,
+      weekRounding: prev.weekRounding,
+      runId: null,
+      historyError: null,
+    }));
   }, []);
 
   // Computed values
   const arcFlowCount = state.uploadedFiles.filter(f => f.type === 'arc-flow').length;
-  const hasAllArcFlow = arcFlowCount >= 4;
   const hasExcel = state.uploadedFiles.some(f => f.type === 'excel');
+
+  const arcFlowFileStatus: ArcFlowFileStatus[] = ARC_FLOW_FILE_KINDS.map(kind => {
+    const files = state.uploadedFiles.filter(f => f.arcFlowKind === kind).map(f => f.name);
+    return { kind, name: ARC_FLOW_FILE_LABELS[kind], present: files.length > 0, files };
+  });
+  const hasAllArcFlow = arcFlowFileStatus.every(s => s.present);
+  const hasMergedArcFlow = arcFlowFileStatus.some(s => s.files.length > 1);
   const canProceedToValidate = state.uploadedFiles.length > 0 && hasAllArcFlow;
   const canTransform = state.validationResult?.canTransform ?? false;
   const hasResults = state.transformResult !== null && state.transformResult.errors.length === 0;
 
-  const arcFlowFileStatus = ARC_FLOW_FILES.map(name => ({
-    name,
-    present: state.uploadedFiles.some(f =>
-      f.name.toLowerCase().includes(name.toLowerCase())
-    ),
-  }));
-
   return {
     ...state,
     arcFlowCount,
     hasAllArcFlow,
+    hasMergedArcFlow,
     hasExcel,
     canProceedToValidate,
     canTransform,
@@ -314,9 +730,20 @@ export function useTransformPipeline() {
     arcFlowFileStatus,
     addFiles,
     removeFile,
+    setFileKind,
     clearFiles,
     parseAndValidate,
     runTransform,
+    cancel,
+    openRun,
+    dismissHistoryError,
+    updateLocationMappings,
+    updateSpaceModelRules,
+    updatePhaseMergeRules,
+    updateEventExclusionRules,
+    updateMergeMode,
+    updatePlanYear,
+    updateWeekRounding,
     setActiveStep,
     reset,
   };
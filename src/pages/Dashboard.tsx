@@ -1,9 +1,20 @@
+import { useEffect } from 'react';
 import { Box } from '@mui/material';
+import { useSearchParams } from 'react-router-dom';
 import PipelineStepper from '../components/PipelineStepper';
 import { useTransformPipeline } from '../hooks/useTransformPipeline';
 
 export default function Dashboard() {
   const pipeline = useTransformPipeline();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const runToOpen = searchParams.get('run');
+  const { openRun } = pipeline;
+
+  // Reopen a saved run when navigated here from History (/?run=<id>)
+  useEffect(() => {
+    if (!runToOpen) return;
+    openRun(runToOpen).finally(() => setSearchParams({}, { replace: true }));
+  }, [runToOpen, openRun, setSearchParams]);
 
   return (
     <Box>
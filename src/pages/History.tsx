@@ -0,0 +1,268 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Stack,
+  Button,
+  Chip,
+  Alert,
+  Checkbox,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  IconButton,
+  Tooltip,
+  CircularProgress,
+} from '@mui/material';
+import HistoryIcon from '@mui/icons-material/History';
+import OpenInNewIcon from '@mui/icons-material/OpenInNew';
+import TableViewIcon from '@mui/icons-material/TableView';
+import StorageIcon from '@mui/icons-material/Storage';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import CompareArrowsIcon from '@mui/icons-material/CompareArrows';
+import { useNavigate } from 'react-router-dom';
+import { PRODUCE_COLORS } from '../theme/produceTheme';
+import RunComparePanel from '../components/RunComparePanel';
+import IdLedgerCard from '../components/IdLedgerCard';
+import { listRuns, loadRun, deleteRun, MAX_SAVED_RUNS } from '../history/runStore';
+import type { RunRecord, RunSummary } from '../history/runStore';
+import { downloadAsExcel, downloadFile } from '../transform/exporter';
+import { exportSqlScript, sqlExportFilename } from '../transform/sqlExporter';
+
+export default function History() {
+  const navigate = useNavigate();
+  const [runs, setRuns] = useState<RunSummary[] | null>(null);
+  const [error, setError] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<{ current: RunRecord; baseline: RunRecord } | null>(null);
+
+  const refresh = useCallback(() => {
+    listRuns().then(setRuns, err => {
+      setRuns([]);
+      setError(err instanceof Error ? err.message : 'Could not read run history');
+    });
+  }, []);
+
+  useEffect(refresh, [refresh]);
+
+  /**
+   * Load a full run for an action, showing a spinner on its row
+   */
+  const withRun = async (id: string, action: (run: RunRecord) => void) => {
+    setBusyId(id);
+    try {
+      const run = await loadRun(id);
+      if (run) action(run);
+      else setError(`Run ${id} no longer exists`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load run');
+    }
+    setBusyId(null);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      if (prev.includes(id)) return prev.filter(s => s !== id);
+      // Keep the two most recent selections
+      return [...prev, id].slice(-2);
+    });
+  };
+
+  const handleCompare = async () => {
+    setBusyId('compare');
+    try {
+      const loaded = await Promise.all(selected.map(id => loadRun(id)));
+      const [a, b] = loaded;
+      if (!a || !b) {
+        setError('One of the selected runs no longer exists');
+      } else {
+        setComparison(a.timestamp >= b.timestamp ? { current: a, baseline: b } : { current: b, baseline: a });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load runs');
+    }
+    setBusyId(null);
+  };
+
+  const handleDelete = async (summary: RunSummary) => {
+    if (!window.confirm(`Delete the run from ${new Date(summary.timestamp).toLocaleString()}?`)) return;
+    try {
+      await deleteRun(summary.id);
+      setSelected(prev => prev.filter(s => s !== summary.id));
+      if (comparison && (comparison.current.id === summary.id || comparison.baseline.id === summary.id)) {
+        setComparison(null);
+      }
+      refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete run');
+    }
+  };
+
+  return (
+    <Box>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 3 }}>
+        <Box>
+          <Typography variant="h4" sx={{ fontWeight: 700 }}>
+            Run History
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            The last {MAX_SAVED_RUNS} transform runs saved in this browser — reopen, re-export or compare any previous run
+          </Typography>
+        </Box>
+        <Button
+          variant="contained"
+          startIcon={busyId === 'compare' ? <CircularProgress size={16} color="inherit" /> : <CompareArrowsIcon />}
+          disabled={selected.length !== 2 || busyId !== null}
+          onClick={handleCompare}
+        >
+          Compare Selected
+        </Button>
+      </Stack>
+
+      {error && (
+        <Alert severity="warning" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>
+      )}
+
+      {comparison && (
+        <RunComparePanel
+          current={comparison.current.transformResult}
+          baseline={comparison.baseline.transformResult}
+          currentLabel={new Date(comparison.current.timestamp).toLocaleString()}
+          baselineLabel={new Date(comparison.baseline.timestamp).toLocaleString()}
+          onClose={() => setComparison(null)}
+        />
+      )}
+
+      <Card>
+        <CardContent>
+          <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 2 }}>
+            <HistoryIcon sx={{ color: PRODUCE_COLORS.primary }} />
+            <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+              Saved Runs
+            </Typography>
+            {runs && <Chip label={runs.length} size="small" />}
+            {selected.length > 0 && (
+              <Typography variant="caption" color="text.secondary">
+                {selected.length} of 2 selected for comparison
+              </Typography>
+            )}
+          </Stack>
+
+          {runs === null ? (
+            <Box sx={{ textAlign: 'center', py: 4 }}>
+              <CircularProgress size={28} />
+            </Box>
+          ) : runs.length === 0 ? (
+            <Alert severity="info">
+              No runs saved yet. Every transform run on the Pipeline page is saved here automatically.
+            </Alert>
+          ) : (
+            <TableContainer sx={{ border: '1px solid #e0e0e0', borderRadius: 1 }}>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell padding="checkbox" sx={{ backgroundColor: '#f5f5f5' }} />
+                    <TableCell sx={{ fontWeight: 700, backgroundColor: '#f5f5f5' }}>Run</TableCell>
+                    <TableCell sx={{ fontWeight: 700, backgroundColor: '#f5f5f5' }}>Input Files</TableCell>
+                    <TableCell align="right" sx={{ fontWeight: 700, backgroundColor: '#f5f5f5' }}>Quality</TableCell>
+                    <TableCell align="right" sx={{ fontWeight: 700, backgroundColor: '#f5f5f5' }}>Recipes</TableCell>
+                    <TableCell align="right" sx={{ fontWeight: 700, backgroundColor: '#f5f5f5' }}>Events</TableCell>
+                    <TableCell align="right" sx={{ fontWeight: 700, backgroundColor: '#f5f5f5' }}>Specs</TableCell>
+                    <TableCell align="right" sx={{ fontWeight: 700, backgroundColor: '#f5f5f5' }}>Mixes</TableCell>
+                    <TableCell sx={{ fontWeight: 700, backgroundColor: '#f5f5f5' }}>Status</TableCell>
+                    <TableCell align="right" sx={{ fontWeight: 700, backgroundColor: '#f5f5f5' }}>Transform</TableCell>
+                    <TableCell sx={{ backgroundColor: '#f5f5f5', width: 170 }} />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {runs.map(run => (
+                    <TableRow key={run.id} hover selected={selected.includes(run.id)}>
+                      <TableCell padding="checkbox">
+                        <Checkbox size="small" checked={selected.includes(run.id)} onChange={() => toggleSelected(run.id)} />
+                      </TableCell>
+                      <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                        <Typography variant="body2" sx={{ fontWeight: 500 }}>{new Date(run.timestamp).toLocaleString()}</Typography>
+                        <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>{run.id}</Typography>
+                      </TableCell>
+                      <TableCell>
+                        <Tooltip title={run.fileNames.join(', ')}>
+                          <Typography variant="body2">{run.fileNames.length} file{run.fileNames.length !== 1 ? 's' : ''}</Typography>
+                        </Tooltip>
+                      </TableCell>
+                      <TableCell align="right">{run.qualityScore}</TableCell>
+                      <TableCell align="right">{run.recipes.toLocaleString()}</TableCell>
+                      <TableCell align="right">{run.events.toLocaleString()}</TableCell>
+                      <TableCell align="right">{run.specs.toLocaleString()}</TableCell>
+                      <TableCell align="right">{run.mixes.toLocaleString()}</TableCell>
+                      <TableCell>
+                        {run.errors > 0 ? (
+                          <Chip label={`${run.errors} error(s)`} size="small" color="error" />
+                        ) : (
+                          <Chip
+                            label={run.warnings > 0 ? `${run.warnings} warning(s)` : 'OK'}
+                            size="small"
+                            color={run.warnings > 0 ? 'warning' : 'success'}
+                            variant="outlined"
+                          />
+                        )}
+                      </TableCell>
+                      <TableCell align="right">{(run.durationMs / 1000).toFixed(1)}s</TableCell>
+                      <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                        {busyId === run.id ? (
+                          <CircularProgress size={18} />
+                        ) : (
+                          <>
+                            <Tooltip title="Open in pipeline">
+                              <IconButton size="small" onClick={() => navigate(`/?run=${encodeURIComponent(run.id)}`)}>
+                                <OpenInNewIcon fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                            <Tooltip title="Re-export Excel workbook">
+                              <span>
+                                <IconButton
+                                  size="small"
+                                  disabled={run.errors > 0}
+                                  onClick={() => withRun(run.id, r => downloadAsExcel(r.transformResult))}
+                                >
+                                  <TableViewIcon fontSize="small" />
+                                </IconButton>
+                              </span>
+                            </Tooltip>
+                            <Tooltip title="Re-export SQL script">
+                              <span>
+                                <IconButton
+                                  size="small"
+                                  disabled={run.errors > 0}
+                                  onClick={() => withRun(run.id, r => downloadFile(exportSqlScript(r.transformResult), sqlExportFilename(), 'application/sql'))}
+                                >
+                                  <StorageIcon fontSize="small" />
+                                </IconButton>
+                              </span>
+                            </Tooltip>
+                            <Tooltip title="Delete run">
+                              <IconButton size="small" onClick={() => handleDelete(run)}>
+                                <DeleteOutlineIcon fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                          </>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <IdLedgerCard />
+    </Box>
+  );
+}
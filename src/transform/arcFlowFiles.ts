@@ -0,0 +1,133 @@
+/**
+ * The four Arc Flow CSV exports: their header columns and detection of which
+ * export a file holds from its header row, so renamed files (e.g.
+ * "export (3).csv") are still recognised.
+ */
+import type { ArcFlowFileKind, FileDetection } from './types';
+import { readCsvRecords, normalizeHeader } from './csvReader';
+import type { CsvColumn, CsvInput } from './csvReader';
+
+export const ARC_FLOW_FILE_KINDS: ArcFlowFileKind[] = ['schemes', 'schemeLines', 'schemeLinePeriods', 'preferences'];
+
+// Export name as it appears in Arc Flow (and usually in the file name)
+export const ARC_FLOW_FILE_LABELS: Record<ArcFlowFileKind, string> = {
+  schemes: 'ProductionScheme',
+  schemeLines: 'ProductionSchemeLine',
+  schemeLinePeriods: 'ProductionSchemeLinePeriod',
+  preferences: 'ProductionPreferences',
+};
+
+export const SCHEME_COLUMNS = {
+  code: { header: 'Code', aliases: ['Production Scheme Code'] },
+  description: { header: 'Description', optional: true },
+  genusCode: { header: 'Genus Code', aliases: ['Genus'] },
+} satisfies Record<string, CsvColumn>;
+
+export const SCHEME_LINE_COLUMNS = {
+  schemeCode: { header: 'Production Scheme Code' },
+  lineNo: { header: 'Line no_' },
+  phase: { header: 'Production Phase' },
+  duration: { header: 'Duration' },
+  qtyPerArea: { header: 'Qty_ per Area' },
+  output: { header: 'Output _', aliases: ['Output %'], optional: true },
+} satisfies Record<string, CsvColumn>;
+
+export const SCHEME_LINE_PERIOD_COLUMNS = {
+  schemeCode: { header: 'Production Scheme Code' },
+  lineNo: { header: 'Production Scheme Line No_', aliases: ['Line no_'] },
+  phase: { header: 'Production Phase' },
+  days: { header: 'No_ of Days' },
+  periodNo: { header: 'Period No_' },
+} satisfies Record<string, CsvColumn>;
+
+export const PREFERENCE_COLUMNS = {
+  productionItemNo: { header: 'Production Item No_' },
+  variantCode: { header: 'Production Variant Code', aliases: ['Variant Code'] },
+  locationCode: { header: 'Location Code' },
+  schemeCode: { header: 'Production Scheme Code' },
+  activitySchemeCode: { header: 'Activity Scheme Code', optional: true },
+  addActivitySchemeCode: { header: 'Add_ Activity Scheme Code', optional: true },
+} satisfies Record<string, CsvColumn>;
+
+export const ARC_FLOW_COLUMNS: Record<ArcFlowFileKind, Record<string, CsvColumn>> = {
+  schemes: SCHEME_COLUMNS,
+  schemeLines: SCHEME_LINE_COLUMNS,
+  schemeLinePeriods: SCHEME_LINE_PERIOD_COLUMNS,
+  preferences: PREFERENCE_COLUMNS,
+};
+
+// Below this a header match is not trusted and the file name decides
+const MIN_HEADER_CONFIDENCE = 0.5;
+const FILE_NAME_CONFIDENCE = 0.4;
+
+/**
+ * Kind from the file name alone (the old routing rule: longest export name first)
+ */
+function detectByFileName(fileName: string): ArcFlowFileKind | null {
+  const lowerName = fileName.toLowerCase();
+  const byLength = [...ARC_FLOW_FILE_KINDS].sort((a, b) => ARC_FLOW_FILE_LABELS[b].length - ARC_FLOW_FILE_LABELS[a].length);
+  return byLength.find(kind => lowerName.includes(ARC_FLOW_FILE_LABELS[kind].toLowerCase())) ?? null;
+}
+
+/**
+ * Work out which Arc Flow export a CSV file holds from its header row.
+ * Confidence is the share of the export's required columns present, scaled
+ * down by header columns the export does not have. Falls back to the file
+ * name when no header signature matches well enough.
+ */
+export function detectArcFlowFile(fileName: string, content: CsvInput): FileDetection {
+  const first = readCsvRecords(content).next();
+  return detectArcFlowHeader(fileName, first.done ? [] : first.value.fields);
+}
+
+/**
+ * detectArcFlowFile for a header row that has already been read
+ * (e.g. the first record of a streamed file)
+ */
+export function detectArcFlowHeader(fileName: string, headerFields: string[]): FileDetection {
+  const headers = headerFields.map(normalizeHeader).filter(Boolean);
+
+  let best: FileDetection & { matched: number } = { kind: null, confidence: 0, reason: '', matched: 0 };
+  for (const kind of ARC_FLOW_FILE_KINDS) {
+    const columns = Object.values(ARC_FLOW_COLUMNS[kind]);
+    const required = columns.filter(c => !c.optional);
+    const has = (column: CsvColumn) =>
+      [column.header, ...(column.aliases ?? [])].some(name => headers.includes(normalizeHeader(name)));
+
+    const missing = required.filter(c => !has(c));
+    const matched = columns.filter(has).length;
+    const requiredShare = (required.length - missing.length) / required.length;
+    const confidence = headers.length > 0 ? requiredShare * Math.min(1, matched / headers.length) : 0;
+
+    if (confidence > best.confidence || (confidence === best.confidence && matched > best.matched)) {
+      const label = ARC_FLOW_FILE_LABELS[kind];
+      best = {
+        kind,
+        confidence,
+        matched,
+        reason: missing.length === 0
+          ? `Header matches ${label} (${matched} of ${columns.length} columns)`
+          : `Header has ${required.length - missing.length} of ${required.length} ${label} columns (missing ${missing.map(c => c.header).join(', ')})`,
+      };
+    }
+  }
+
+  if (best.kind && best.confidence >= MIN_HEADER_CONFIDENCE) {
+    return { kind: best.kind, confidence: Math.round(best.confidence * 100) / 100, reason: best.reason };
+  }
+
+  const byName = detectByFileName(fileName);
+  if (byName) {
+    return {
+      kind: byName,
+      confidence: FILE_NAME_CONFIDENCE,
+      reason: `Header not recognised; file name contains ${ARC_FLOW_FILE_LABELS[byName]}`,
+    };
+  }
+
+  return {
+    kind: null,
+    confidence: 0,
+    reason: headers.length > 0 ? 'Header does not match any Arc Flow export' : 'File has no header row',
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createPlanCalendar,
+  isoWeeksInYear,
+  planYearStart,
+  weeksToWindows,
+  windowDates,
+  windowLength,
+  windowWeeks,
+  wrapWeek,
+} from './calendar';
+
+describe('isoWeeksInYear', () => {
+  it('gives 53 weeks to years starting on a Thursday, or leap years starting on a Wednesday', () => {
+    expect(isoWeeksInYear(2026)).toBe(53); // Thursday
+    expect(isoWeeksInYear(2020)).toBe(53); // leap, Wednesday
+    expect(isoWeeksInYear(2027)).toBe(52);
+    expect(isoWeeksInYear(2024)).toBe(52); // leap, Monday
+  });
+});
+
+describe('wrapWeek', () => {
+  it('wraps week 53 to week 1 only in a 52-week year', () => {
+    expect(wrapWeek(createPlanCalendar(2027), 53)).toBe(1);
+    expect(wrapWeek(createPlanCalendar(2026), 53)).toBe(53);
+    expect(wrapWeek(createPlanCalendar(2026), 54)).toBe(1);
+  });
+
+  it('keeps 53 weeks without a plan year', () => {
+    expect(wrapWeek(createPlanCalendar(), 53)).toBe(53);
+  });
+});
+
+describe('year-boundary windows', () => {
+  it('counts the weeks of a wrapping window against the year length', () => {
+    expect(windowLength(createPlanCalendar(2026), 50, 4)).toBe(8);
+    expect(windowLength(createPlanCalendar(2027), 50, 4)).toBe(7);
+    expect(windowWeeks(createPlanCalendar(2027), 50, 2)).toEqual([50, 51, 52, 1, 2]);
+    expect(windowWeeks(createPlanCalendar(2026), 50, 2)).toEqual([50, 51, 52, 53, 1, 2]);
+  });
+
+  it('joins runs across the year boundary', () => {
+    const calendar = createPlanCalendar(2027);
+    expect(weeksToWindows(calendar, new Set([1, 2, 51, 52]))).toEqual([{ startWeek: 51, endWeek: 2 }]);
+    expect(weeksToWindows(calendar, new Set([1, 2, 51, 52]), false)).toEqual([
+      { startWeek: 1, endWeek: 2 },
+      { startWeek: 51, endWeek: 52 },
+    ]);
+    expect(weeksToWindows(calendar, new Set(Array.from({ length: 52 }, (_, i) => i + 1)))).toEqual([{ startWeek: 1, endWeek: 52 }]);
+  });
+
+  it('dates a wrapping window into the next year', () => {
+    const calendar = createPlanCalendar(2026);
+    expect(planYearStart(calendar)).toBe('2025-12-29');
+    expect(windowDates(calendar, 50, 4)).toEqual({ startDate: '2026-12-07', endDate: '2027-01-31' });
+    expect(windowDates(createPlanCalendar(), 50, 4)).toEqual({});
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Plan calendar: ISO 8601 week numbering for the plan year, 52- and 53-week
+ * years, and week windows that wrap from the end of the year into the next
+ * (startWeek > endWeek, e.g. weeks 50–4).
+ *
+ * Without a plan year the calendar has 53 weeks and no dates, and scheme
+ * periods do not repeat into the next year, so recipes, events and mixes are
+ * numbered as they always were. Wrapping windows only come from a plan year.
+ */
+import type { PlanCalendar } from './types';
+
+/** Highest ISO week number in any year */
+export const MAX_ISO_WEEKS = 53;
+
+/** Plan years the UI and CLI accept */
+export const MIN_PLAN_YEAR = 2000;
+export const MAX_PLAN_YEAR = 2100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isValidPlanYear(year: number): boolean {
+  return Number.isInteger(year) && year >= MIN_PLAN_YEAR && year <= MAX_PLAN_YEAR;
+}
+
+/**
+ * Number of ISO weeks in a year: 53 when it starts on a Thursday, or is a
+ * leap year starting on a Wednesday
+ */
+export function isoWeeksInYear(year: number): 52 | 53 {
+  const jan1 = new Date(Date.UTC(year, 0, 1)).getUTCDay();
+  const leap = (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+  return jan1 === 4 || (leap && jan1 === 3) ? 53 : 52;
+}
+
+/**
+ * Calendar for a plan year (ISO week-numbering year); no year = 53 weeks, no dates
+ */
+export function createPlanCalendar(planYear?: number): PlanCalendar {
+  return planYear === undefined
+    ? { weeksInYear: MAX_ISO_WEEKS }
+    : { planYear, weeksInYear: isoWeeksInYear(planYear) };
+}
+
+/**
+ * Monday of an ISO week, as a UTC date
+ */
+function isoWeekMonday(year: number, week: number): Date {
+  // Week 1 is the week with January 4th in it
+  const jan4 = Date.UTC(year, 0, 4);
+  const jan4Weekday = (new Date(jan4).getUTCDay() + 6) % 7; // Monday = 0
+  return new Date(jan4 - jan4Weekday * DAY_MS + (week - 1) * 7 * DAY_MS);
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Bring a week number into 1..weeksInYear (week 54 of a 53-week year is week 1)
+ */
+export function wrapWeek(calendar: PlanCalendar, week: number): number {
+  const n = calendar.weeksInYear;
+  return ((((week - 1) % n) + n) % n) + 1;
+}
+
+/**
+ * True when the window runs past the end of the year into the next one
+ */
+export function wrapsYear(startWeek: number, endWeek: number): boolean {
+  return startWeek > endWeek;
+}
+
+/**
+ * Number of weeks in a window, counting across the year boundary
+ */
+export function windowLength(calendar: PlanCalendar, startWeek: number, endWeek: number): number {
+  return wrapsYear(startWeek, endWeek)
+    ? calendar.weeksInYear - startWeek + 1 + endWeek
+    : endWeek - startWeek + 1;
+}
+
+/**
+ * The calendar weeks of a window, in order (weeks past the end of the year are dropped)
+ */
+export function windowWeeks(calendar: PlanCalendar, startWeek: number, endWeek: number): number[] {
+  const weeks: number[] = [];
+  const last = wrapsYear(startWeek, endWeek) ? calendar.weeksInYear : endWeek;
+  for (let week = Math.max(1, startWeek); week <= Math.min(last, calendar.weeksInYear); week++) weeks.push(week);
+  if (wrapsYear(startWeek, endWeek)) {
+    for (let week = 1; week <= Math.min(endWeek, calendar.weeksInYear); week++) weeks.push(week);
+  }
+  return weeks;
+}
+
+/**
+ * True when a calendar week falls inside a (possibly wrapping) window
+ */
+export function windowContains(startWeek: number, endWeek: number, week: number): boolean {
+  return wrapsYear(startWeek, endWeek)
+    ? week >= startWeek || week <= endWeek
+    : week >= startWeek && week <= endWeek;
+}
+
+/**
+ * True when every week of the inner window is in the outer window
+ */
+export function windowWithin(
+  calendar: PlanCalendar,
+  inner: { startWeek: number; endWeek: number },
+  outer: { startWeek: number; endWeek: number }
+): boolean {
+  return windowWeeks(calendar, inner.startWeek, inner.endWeek)
+    .every(week => windowContains(outer.startWeek, outer.endWeek, week));
+}
+
+/**
+ * Group a set of calendar weeks into windows of consecutive weeks. A run
+ * ending in the last week joins a run starting in week 1 when joinAcrossYear
+ * is set; all weeks of the year come back as one 1–weeksInYear window.
+ */
+export function weeksToWindows(
+  calendar: PlanCalendar,
+  weeks: Set<number>,
+  joinAcrossYear = true
+): { startWeek: number; endWeek: number }[] {
+  const n = calendar.weeksInYear;
+  const windows: { startWeek: number; endWeek: number }[] = [];
+  for (let week = 1; week <= n; week++) {
+    if (!weeks.has(week)) continue;
+    const last = windows[windows.length - 1];
+    if (last && last.endWeek === week - 1) last.endWeek = week;
+    else windows.push({ startWeek: week, endWeek: week });
+  }
+
+  const first = windows[0];
+  const last = windows[windows.length - 1];
+  if (joinAcrossYear && windows.length > 1 && first.startWeek === 1 && last.endWeek === n) {
+    windows.shift();
+    last.endWeek = first.endWeek;
+  }
+  return windows;
+}
+
+/**
+ * Weeks two windows have in common, as windows (two when one wraps around
+ * the other's gap)
+ */
+export function overlapWindows(
+  calendar: PlanCalendar,
+  a: { startWeek: number; endWeek: number },
+  b: { startWeek: number; endWeek: number }
+): { startWeek: number; endWeek: number }[] {
+  const common = new Set(
+    windowWeeks(calendar, a.startWeek, a.endWeek).filter(week => windowContains(b.startWeek, b.endWeek, week))
+  );
+  // Only join across the boundary when one of the windows does
+  return weeksToWindows(calendar, common, wrapsYear(a.startWeek, a.endWeek) || wrapsYear(b.startWeek, b.endWeek));
+}
+
+/**
+ * "50–4 (into next year)" style label for lineage and warnings
+ */
+export function describeWindow(startWeek: number, endWeek: number): string {
+  return `${startWeek}–${endWeek}${wrapsYear(startWeek, endWeek) ? ' (into next year)' : ''}`;
+}
+
+/**
+ * First and last day (Monday / Sunday) of a window in the plan year; a
+ * wrapping window ends in the following year. Empty without a plan year.
+ */
+export function windowDates(
+  calendar: PlanCalendar,
+  startWeek: number,
+  endWeek: number
+): { startDate?: string; endDate?: string } {
+  if (calendar.planYear === undefined) return {};
+  const endYear = wrapsYear(startWeek, endWeek) ? calendar.planYear + 1 : calendar.planYear;
+  const start = isoWeekMonday(calendar.planYear, startWeek);
+  const end = new Date(isoWeekMonday(endYear, endWeek).getTime() + 6 * DAY_MS);
+  return { startDate: isoDate(start), endDate: isoDate(end) };
+}
+
+/**
+ * Monday of week 1 of the plan year, e.g. 2026 → 2025-12-29
+ */
+export function planYearStart(calendar: PlanCalendar): string | undefined {
+  return calendar.planYear === undefined ? undefined : isoDate(isoWeekMonday(calendar.planYear, 1));
+}
@@ -1,4 +1,6 @@
 import * as XLSX from 'xlsx';
+import type { TransformResult } from './types';
+import { readCsvRecords } from './csvReader';
 
 export interface CompareConfig {
   keyFields: string[];
@@ -44,14 +46,44 @@ export const COMPARE_CONFIGS: Record<string, CompareConfig> = {
     compareFields: [],
     label: 'Catalogs',
   },
+  categories: {
+    keyFields: ['category'],
+    compareFields: ['kind', 'parentCategory', 'unitOfMeasure', 'spaceCategory', 'areaSqFt'],
+    label: 'Categories',
+  },
+  productionItems: {
+    keyFields: ['productionItemNum', 'category', 'genus', 'color'],
+    compareFields: ['locations', 'categoryCount'],
+    label: 'Production Items',
+  },
   events: {
     keyFields: ['recipeId', 'phase', 'startWeek', 'endWeek'],
-    compareFields: ['locationCode', 'triggerWeeks', 'durationWeeks'],
+    compareFields: ['locationCode', 'triggerWeeks', 'durationWeeks', 'trigger', 'spaceType'],
     label: 'Events',
   },
+  eventDefinitions: {
+    keyFields: ['event'],
+    compareFields: ['category', 'timeProfile', 'detailCount', 'recipeCount'],
+    label: 'Event Definitions',
+  },
+  eventDetails: {
+    keyFields: ['event', 'trigger', 'spaceType', 'duration'],
+    compareFields: ['description', 'phase', 'spaceCategory'],
+    label: 'Event Details',
+  },
+  triggers: {
+    keyFields: ['description'],
+    compareFields: ['timeProfile', 'unitOffset'],
+    label: 'Triggers',
+  },
+  recipeSpaceEvents: {
+    keyFields: ['recipeId', 'event'],
+    compareFields: ['locationCode', 'category', 'phases', 'isExcluded', 'exclusionRule'],
+    label: 'Recipe Space Events',
+  },
   specs: {
     keyFields: ['recipeId', 'phase'],
-    compareFields: ['spaceWidth', 'spaceLength', 'qtyPerArea'],
+    compareFields: ['spaceWidth', 'spaceLength', 'qtyPerArea', 'stagger', 'spaceModel'],
     label: 'Space Specs',
   },
   mixes: {
@@ -59,8 +91,49 @@ export const COMPARE_CONFIGS: Record<string, CompareConfig> = {
     compareFields: ['mixPct', 'commonItem', 'location', 'variant', 'note'],
     label: 'Mixes',
   },
+  recipeMixes: {
+    keyFields: ['recipeId', 'catalogId'],
+    compareFields: ['mixPct'],
+    label: 'Recipe Mixes',
+  },
+  blnVariantMixes: {
+    keyFields: ['recipeId', 'catalogId'],
+    compareFields: ['mixPct'],
+    label: 'BLN Variant Mixes',
+  },
+  wildcardRecipes: {
+    keyFields: ['locationCode', 'series', 'commonItem', 'startWeek', 'endWeek'],
+    compareFields: ['genus', 'category', 'color', 'growWeeks', 'pattern', 'notes'],
+    label: 'Wildcard Recipes',
+  },
 };
 
+/**
+ * Output rows of a transform result for one COMPARE_CONFIGS type
+ */
+export function getOutputData(result: TransformResult, type: string): Record<string, unknown>[] {
+  switch (type) {
+    case 'recipes': return result.recipes as unknown as Record<string, unknown>[];
+    case 'catalogs': return result.catalogs as unknown as Record<string, unknown>[];
+    case 'categories': return result.categories as unknown as Record<string, unknown>[];
+    case 'productionItems': return result.productionItems as unknown as Record<string, unknown>[];
+    case 'events': return result.events as unknown as Record<string, unknown>[];
+    case 'eventDefinitions': return result.eventDefinitions as unknown as Record<string, unknown>[];
+    case 'eventDetails': return result.eventDetails as unknown as Record<string, unknown>[];
+    case 'triggers': return result.triggers as unknown as Record<string, unknown>[];
+    case 'recipeSpaceEvents': return result.recipeSpaceEvents as unknown as Record<string, unknown>[];
+    case 'specs': return result.specs as unknown as Record<string, unknown>[];
+    case 'mixes': return result.mixes as unknown as Record<string, unknown>[];
+    case 'recipeMixes': return result.recipeMixes as unknown as Record<string, unknown>[];
+    case 'blnVariantMixes': return result.blnVariantMixes as unknown as Record<string, unknown>[];
+    case 'wildcardRecipes': return result.wildcardRecipes as unknown as Record<string, unknown>[];
+    default: return [];
+  }
+}
+
+/** Numeric compare fields within this distance are treated as equal */
+const NUMERIC_TOLERANCE = 1e-6;
+
 /**
  * Build a composite key from a row's key fields.
  * Normalizes values to lowercase trimmed strings for fuzzy matching.
@@ -71,6 +144,17 @@ function buildKey(row: Record<string, string>, keyFields: string[]): string {
     .join('|');
 }
 
+/**
+ * Comparison key of an output row, as used by compareData
+ */
+export function compareKey(row: Record<string, unknown>, type: string): string {
+  const cfg = COMPARE_CONFIGS[type];
+  if (!cfg) {
+    throw new Error(`No comparison config for type: ${type}`);
+  }
+  return buildKey(Object.fromEntries(cfg.keyFields.map(f => [f, String(row[f] ?? '')])), cfg.keyFields);
+}
+
 /**
  * Try to auto-detect which output type a comparison file matches.
  * Looks at column headers and matches against known configs.
@@ -116,18 +200,16 @@ export function parseComparisonFile(
 }
 
 function parseCSVToRows(content: string): { headers: string[]; rows: Record<string, string>[] } {
-  const cleanContent = content.replace(/^\uFEFF/, '');
-  const lines = cleanContent.split(/\r?\n/).filter(l => l.trim());
-  if (lines.length < 2) return { headers: [], rows: [] };
+  const records = Array.from(readCsvRecords(content)).filter(r => !r.error);
+  if (records.length < 2) return { headers: [], rows: [] };
 
-  const headers = parseCSVLine(lines[0]);
+  const headers = records[0].fields.map(h => h.trim());
   const rows: Record<string, string>[] = [];
 
-  for (let i = 1; i < lines.length; i++) {
-    const values = parseCSVLine(lines[i]);
+  for (const record of records.slice(1)) {
     const row: Record<string, string> = {};
     headers.forEach((h, idx) => {
-      row[h] = values[idx] ?? '';
+      row[h] = (record.fields[idx] ?? '').trim();
     });
     rows.push(row);
   }
@@ -135,31 +217,6 @@ function parseCSVToRows(content: string): { headers: string[]; rows: Record<stri
   return { headers, rows };
 }
 
-function parseCSVLine(line: string): string[] {
-  const fields: string[] = [];
-  let field = '';
-  let inQuotes = false;
-
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        field += '"';
-        i++;
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (char === ',' && !inQuotes) {
-      fields.push(field.trim());
-      field = '';
-    } else {
-      field += char;
-    }
-  }
-  fields.push(field.trim());
-  return fields;
-}
-
 function parseExcelToRows(data: ArrayBuffer): { headers: string[]; rows: Record<string, string>[] } {
   const workbook = XLSX.read(data, { type: 'array' });
   const sheet = workbook.Sheets[workbook.SheetNames[0]];
@@ -307,7 +364,9 @@ export function compareData(
         const compareNum = parseFloat(compareVal);
         const bothNumeric = !isNaN(sourceNum) && !isNaN(compareNum);
 
-        if (bothNumeric ? sourceNum !== compareNum : sourceVal.toLowerCase() !== compareVal.toLowerCase()) {
+        // (PRODUCE shows floats such as SpaceWidth to 9 decimals, e.g. 8.660254038)
+        const numericDiff = bothNumeric && Math.abs(sourceNum - compareNum) > NUMERIC_TOLERANCE;
+        if (bothNumeric ? numericDiff : sourceVal.toLowerCase() !== compareVal.toLowerCase()) {
           diffs.push({
             field,
             expected: compareVal || '(empty)',
@@ -354,3 +413,26 @@ export function compareData(
     rows: resultRows,
   };
 }
+
+/**
+ * Compare one output type of two transform runs. The baseline run plays the
+ * part of the uploaded PRODUCE file, so "added" means new since the baseline.
+ */
+export function compareRuns(current: TransformResult, baseline: TransformResult, type: string): ComparisonResult {
+  const cfg = COMPARE_CONFIGS[type];
+  if (!cfg) {
+    throw new Error(`No comparison config for type: ${type}`);
+  }
+
+  // Keep every scalar field so delta exports can reuse the baseline rows (ids included)
+  const rows = getOutputData(baseline, type).map(row => {
+    const r: Record<string, string> = {};
+    for (const [field, value] of Object.entries(row)) {
+      if (typeof value !== 'object' || value === null) r[field] = String(value ?? '');
+    }
+    return r;
+  });
+  const headers = rows.length > 0 ? Object.keys(rows[0]) : [...cfg.keyFields, ...cfg.compareFields];
+
+  return compareData(getOutputData(current, type), { headers, rows }, type);
+}
@@ -4,47 +4,26 @@ import type {
   ProductionSchemeLinePeriod,
   ProductionPreference,
   ParsedData,
+  SourceKind,
+  SourceRef,
+  CsvParseError,
+  ArcFlowFileKind,
+  ArcFlowMergeMode,
+  MergeReport,
 } from './types';
-
-/**
- * Parse CSV content into rows, handling quoted fields and BOM
- */
-function parseCSV(content: string): string[][] {
-  // Remove BOM if present
-  const cleanContent = content.replace(/^\uFEFF/, '');
-
-  const rows: string[][] = [];
-  const lines = cleanContent.split(/\r?\n/);
-
-  for (const line of lines) {
-    if (!line.trim()) continue;
-
-    const row: string[] = [];
-    let field = '';
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-
-      if (char === '"') {
-        if (inQuotes && line[i + 1] === '"') {
-          field += '"';
-          i++;
-        } else {
-          inQuotes = !inQuotes;
-        }
-      } else if (char === ',' && !inQuotes) {
-        row.push(field.trim());
-        field = '';
-      } else {
-        field += char;
-      }
-    }
-    row.push(field.trim());
-    rows.push(row);
-  }
-
-  return rows;
+import { readCsvTable } from './csvReader';
+import type { CsvInput } from './csvReader';
+import {
+  SCHEME_COLUMNS,
+  SCHEME_LINE_COLUMNS,
+  SCHEME_LINE_PERIOD_COLUMNS,
+  PREFERENCE_COLUMNS,
+  detectArcFlowFile,
+} from './arcFlowFiles';
+import { mergeArcFlowFiles } from './mergeDrops';
+
+function sourceRef(kind: SourceKind, file: string, line: number): SourceRef {
+  return { kind, file, line };
 }
 
 /**
@@ -61,124 +40,155 @@ function cleanNumber(value: string): number {
  * Parse ProductionScheme CSV
  * Columns: Code, Description, Genus Code
  */
-export function parseProductionScheme(content: string): ProductionScheme[] {
-  const rows = parseCSV(content);
-  const schemes: ProductionScheme[] = [];
-
-  // Skip header row
-  for (let i = 1; i < rows.length; i++) {
-    const row = rows[i];
-    if (row.length < 3) continue;
-
-    schemes.push({
-      code: row[0],
-      description: row[1],
-      genusCode: row[2],
-    });
-  }
-
-  return schemes;
+export function parseProductionScheme(
+  content: CsvInput,
+  fileName = 'ProductionScheme.csv',
+  errors: CsvParseError[] = []
+): ProductionScheme[] {
+  const table = readCsvTable(content, fileName, SCHEME_COLUMNS);
+  errors.push(...table.errors);
+
+  return table.rows.map(({ values, line }) => ({
+    code: values.code,
+    description: values.description,
+    genusCode: values.genusCode,
+    source: sourceRef('scheme', fileName, line),
+  }));
 }
 
 /**
  * Parse ProductionSchemeLine CSV
  * Columns: Production Scheme Code, Line no_, Production Phase, Duration, Qty_ per Area, Output _
  */
-export function parseProductionSchemeLine(content: string): ProductionSchemeLine[] {
-  const rows = parseCSV(content);
-  const lines: ProductionSchemeLine[] = [];
-
-  for (let i = 1; i < rows.length; i++) {
-    const row = rows[i];
-    if (row.length < 6) continue;
-
-    lines.push({
-      schemeCode: row[0],
-      lineNo: row[1].replace(/,/g, ''),
-      phase: row[2].toUpperCase(),
-      duration: cleanNumber(row[3]),
-      qtyPerArea: cleanNumber(row[4]),
-      output: cleanNumber(row[5]),
-    });
-  }
-
-  return lines;
+export function parseProductionSchemeLine(
+  content: CsvInput,
+  fileName = 'ProductionSchemeLine.csv',
+  errors: CsvParseError[] = []
+): ProductionSchemeLine[] {
+  const table = readCsvTable(content, fileName, SCHEME_LINE_COLUMNS);
+  errors.push(...table.errors);
+
+  return table.rows.map(({ values, line }) => ({
+    schemeCode: values.schemeCode,
+    lineNo: values.lineNo.replace(/,/g, ''),
+    phase: values.phase.toUpperCase(),
+    duration: cleanNumber(values.duration),
+    qtyPerArea: cleanNumber(values.qtyPerArea),
+    output: cleanNumber(values.output),
+    source: sourceRef('schemeLine', fileName, line),
+  }));
 }
 
 /**
  * Parse ProductionSchemeLinePeriod CSV
  * Columns: Production Scheme Code, Production Scheme Line No_, Production Phase, No_ of Days, Period No_
  */
-export function parseProductionSchemeLinePeriod(content: string): ProductionSchemeLinePeriod[] {
-  const rows = parseCSV(content);
-  const periods: ProductionSchemeLinePeriod[] = [];
-
-  for (let i = 1; i < rows.length; i++) {
-    const row = rows[i];
-    if (row.length < 5) continue;
-
-    periods.push({
-      schemeCode: row[0],
-      lineNo: row[1].replace(/,/g, ''),
-      phase: row[2].toUpperCase(),
-      days: cleanNumber(row[3]),
-      periodNo: Math.round(cleanNumber(row[4])),
-    });
-  }
-
-  return periods;
+export function parseProductionSchemeLinePeriod(
+  content: CsvInput,
+  fileName = 'ProductionSchemeLinePeriod.csv',
+  errors: CsvParseError[] = []
+): ProductionSchemeLinePeriod[] {
+  const table = readCsvTable(content, fileName, SCHEME_LINE_PERIOD_COLUMNS);
+  errors.push(...table.errors);
+
+  return table.rows.map(({ values, line }) => ({
+    schemeCode: values.schemeCode,
+    lineNo: values.lineNo.replace(/,/g, ''),
+    phase: values.phase.toUpperCase(),
+    days: cleanNumber(values.days),
+    periodNo: Math.round(cleanNumber(values.periodNo)),
+    source: sourceRef('schemeLinePeriod', fileName, line),
+  }));
 }
 
 /**
  * Parse ProductionPreferences CSV
  * Columns: Production Item No_, Production Variant Code, Location Code, Production Scheme Code, Activity Scheme Code, Add_ Activity Scheme Code
  */
-export function parseProductionPreferences(content: string): ProductionPreference[] {
-  const rows = parseCSV(content);
-  const preferences: ProductionPreference[] = [];
-
-  for (let i = 1; i < rows.length; i++) {
-    const row = rows[i];
-    if (row.length < 6) continue;
-
-    preferences.push({
-      productionItemNo: row[0],
-      variantCode: row[1],
-      locationCode: row[2],
-      schemeCode: row[3],
-      activitySchemeCode: row[4],
-      addActivitySchemeCode: row[5],
-    });
+export function parseProductionPreferences(
+  content: CsvInput,
+  fileName = 'ProductionPreferences.csv',
+  errors: CsvParseError[] = []
+): ProductionPreference[] {
+  const table = readCsvTable(content, fileName, PREFERENCE_COLUMNS);
+  errors.push(...table.errors);
+
+  return table.rows.map(({ values, line }) => ({
+    productionItemNo: values.productionItemNo,
+    variantCode: values.variantCode,
+    locationCode: values.locationCode,
+    schemeCode: values.schemeCode,
+    activitySchemeCode: values.activitySchemeCode,
+    addActivitySchemeCode: values.addActivitySchemeCode,
+    source: sourceRef('preference', fileName, line),
+  }));
+}
+
+const ARC_FLOW_PARSERS: {
+  [K in ArcFlowFileKind]: (content: CsvInput, fileName: string, errors: CsvParseError[]) => ParsedData[K];
+} = {
+  schemes: parseProductionScheme,
+  schemeLines: parseProductionSchemeLine,
+  schemeLinePeriods: parseProductionSchemeLinePeriod,
+  preferences: parseProductionPreferences,
+};
+
+/**
+ * Parse one export from all of its files, merging when there is more than one
+ */
+function parseArcFlowKind<K extends ArcFlowFileKind>(
+  kind: K,
+  files: { name: string; content: CsvInput }[],
+  mergeMode: ArcFlowMergeMode,
+  result: ParsedData,
+  report: MergeReport
+): void {
+  const parse = ARC_FLOW_PARSERS[kind] as (content: CsvInput, fileName: string, errors: CsvParseError[]) => ParsedData[K];
+  const parsed = files.map(file => ({ name: file.name, rows: parse(file.content, file.name, result.parseErrors) }));
+  if (parsed.length === 1) {
+    result[kind] = parsed[0].rows;
+    return;
   }
 
-  return preferences;
+  const merged = mergeArcFlowFiles(kind, parsed, mergeMode);
+  result[kind] = merged.rows as ParsedData[K];
+  report.files.push(...merged.files);
+  report.conflicts.push(...merged.conflicts);
+  report.contributions.push(...merged.contributions);
 }
 
 /**
- * Parse all Arc Flow files
+ * Parse all Arc Flow files. Each file is routed by its `kind` when given
+ * (e.g. a manual override), otherwise by header signature. Several files of
+ * the same export are merged (see mergeDrops.ts) and reported in `mergeReport`.
  */
-export function parseAllFiles(files: { name: string; content: string }[]): ParsedData {
+export function parseAllFiles(
+  files: { name: string; content: CsvInput; kind?: ArcFlowFileKind | null }[],
+  mergeMode: ArcFlowMergeMode = 'concat'
+): ParsedData {
   const result: ParsedData = {
     schemes: [],
     schemeLines: [],
     schemeLinePeriods: [],
     preferences: [],
     mixRows: [],
+    parseErrors: [],
   };
 
+  const filesByKind = new Map<ArcFlowFileKind, { name: string; content: CsvInput }[]>();
   for (const file of files) {
-    const nameLower = file.name.toLowerCase();
-
-    if (nameLower.includes('productionschemelineperiod')) {
-      result.schemeLinePeriods = parseProductionSchemeLinePeriod(file.content);
-    } else if (nameLower.includes('productionschemeline')) {
-      result.schemeLines = parseProductionSchemeLine(file.content);
-    } else if (nameLower.includes('productionscheme')) {
-      result.schemes = parseProductionScheme(file.content);
-    } else if (nameLower.includes('productionpreferences')) {
-      result.preferences = parseProductionPreferences(file.content);
-    }
+    const kind = file.kind !== undefined ? file.kind : detectArcFlowFile(file.name, file.content).kind;
+    if (!kind) continue;
+    const existing = filesByKind.get(kind) || [];
+    existing.push(file);
+    filesByKind.set(kind, existing);
+  }
+
+  const report: MergeReport = { mode: mergeMode, files: [], conflicts: [], contributions: [] };
+  for (const [kind, kindFiles] of filesByKind) {
+    parseArcFlowKind(kind, kindFiles, mergeMode, result, report);
   }
+  if (report.files.length > 0) result.mergeReport = report;
 
   return result;
 }
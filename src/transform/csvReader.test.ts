@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { decodeCsvStream, detectDelimiter, readCsvRecords, streamCsvRecords } from './csvReader';
+import type { CsvRecord } from './csvReader';
+
+const CSV = 'Code,Description,Notes\r\n' +
+  'BN-012PANN-BEG-LSP,"Begonia, 12"" pan","first line\r\nsecond line"\r\n' +
+  '\r\n' +
+  'OH08-75INPLT-CLY,"He said ""hi""",plain\n';
+
+const EXPECTED = [
+  { fields: ['Code', 'Description', 'Notes'], line: 1 },
+  { fields: ['BN-012PANN-BEG-LSP', 'Begonia, 12" pan', 'first line\nsecond line'], line: 2 },
+  { fields: ['OH08-75INPLT-CLY', 'He said "hi"', 'plain'], line: 5 },
+];
+
+async function* asyncChunks<T>(chunks: T[]): AsyncGenerator<T> {
+  yield* chunks;
+}
+
+async function collect(records: AsyncIterable<CsvRecord>): Promise<CsvRecord[]> {
+  const out: CsvRecord[] = [];
+  for await (const record of records) out.push(record);
+  return out;
+}
+
+describe('readCsvRecords', () => {
+  it('reads quoted delimiters, escaped quotes and quoted newlines', () => {
+    expect([...readCsvRecords(CSV)]).toEqual(EXPECTED);
+  });
+
+  it('reads the same records wherever the text is split into chunks', () => {
+    for (let at = 1; at < CSV.length; at++) {
+      expect([...readCsvRecords([CSV.slice(0, at), CSV.slice(at)])], `split at ${at}`).toEqual(EXPECTED);
+    }
+  });
+
+  it('keeps an escaped quote split across chunks', () => {
+    const records = [...readCsvRecords(['a,b\n"x"', '"y",z\n'])];
+    expect(records[1].fields).toEqual(['x"y', 'z']);
+  });
+
+  it('reads one character per chunk', () => {
+    expect([...readCsvRecords([...CSV])]).toEqual(EXPECTED);
+  });
+
+  it('reports an unterminated quoted field', () => {
+    const records = [...readCsvRecords('a,b\n1,"open\n')];
+    expect(records).toHaveLength(2);
+    expect(records[1].error).toMatch(/Unterminated/);
+  });
+
+  it('detects the delimiter from the header line', () => {
+    expect(detectDelimiter('Code;Description;"a;b"')).toBe(';');
+    expect(detectDelimiter('Code\tDescription')).toBe('\t');
+    expect([...readCsvRecords('a;b\n1;2\n')][1].fields).toEqual(['1', '2']);
+  });
+});
+
+describe('streamCsvRecords', () => {
+  it('reads records from async chunks', async () => {
+    expect(await collect(streamCsvRecords(asyncChunks([...CSV])))).toEqual(EXPECTED);
+  });
+});
+
+describe('decodeCsvStream', () => {
+  it('decodes UTF-16 LE with a multi-byte split across chunks', async () => {
+    const text = 'Code,Genus\nBN-1,Bégonia\n';
+    const bytes = new Uint8Array(2 + text.length * 2);
+    bytes.set([0xff, 0xfe]);
+    for (let i = 0; i < text.length; i++) {
+      bytes[2 + i * 2] = text.charCodeAt(i) & 0xff;
+      bytes[3 + i * 2] = text.charCodeAt(i) >> 8;
+    }
+    const chunks = [bytes.subarray(0, 7), bytes.subarray(7, 30), bytes.subarray(30)];
+    const decoded: string[] = [];
+    for await (const chunk of decodeCsvStream(asyncChunks(chunks))) decoded.push(chunk);
+    expect(decoded.join('')).toBe(text);
+  });
+
+  it('decodes UTF-8 with a character split across chunks', async () => {
+    const bytes = new TextEncoder().encode('a,b\n1,é\n');
+    const at = bytes.indexOf(0xc3) + 1;
+    const decoded: string[] = [];
+    for await (const chunk of decodeCsvStream(asyncChunks([bytes.subarray(0, at), bytes.subarray(at)]))) decoded.push(chunk);
+    expect(decoded.join('')).toBe('a,b\n1,é\n');
+  });
+});
@@ -0,0 +1,428 @@
+/**
+ * Shared RFC 4180 CSV reader.
+ * Reads records one at a time from a string or from text chunks decoded
+ * from a file stream (UTF-8 or UTF-16), handling quoted fields with embedded
+ * delimiters, quotes and newlines, CRLF / LF / CR line endings and
+ * non-comma delimiters.
+ */
+import type { CsvParseError } from './types';
+
+export interface CsvRecord {
+  fields: string[];
+  line: number; // 1-based line the record starts on
+  error?: string; // set when the record could not be read cleanly
+}
+
+// CSV text: one string, or decoded chunks in order (an array when it is read more than once)
+export type CsvInput = string | Iterable<string>;
+
+export interface CsvReaderOptions {
+  delimiter?: string; // detected from the header line when unset
+}
+
+// A column looked up by header name; aliases cover renamed NAV / Arc Flow headers
+export interface CsvColumn {
+  header: string;
+  aliases?: string[];
+  optional?: boolean; // missing column / value reads as ''
+}
+
+export interface CsvTableRow<K extends string> {
+  values: Record<K, string>;
+  line: number;
+}
+
+export interface CsvTable<K extends string> {
+  rows: CsvTableRow<K>[];
+  errors: CsvParseError[];
+}
+
+const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+
+/**
+ * Pick the delimiter that splits the header line into the most fields
+ * (quoted text is ignored)
+ */
+export function detectDelimiter(headerLine: string): string {
+  const counts = new Map<string, number>(DELIMITER_CANDIDATES.map(d => [d, 0]));
+  let inQuotes = false;
+  for (const char of headerLine) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && counts.has(char)) counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let best = ',';
+  for (const [delimiter, count] of counts) {
+    if (count > (counts.get(best) ?? 0)) best = delimiter;
+  }
+  return best;
+}
+
+/** Bytes of an upload the UTF-16 check looks at */
+const ENCODING_SAMPLE_BYTES = 512;
+
+/**
+ * Encoding of raw CSV bytes: UTF-8 (with or without BOM) or UTF-16 LE / BE,
+ * as written by NAV "Unicode" exports. UTF-16 without a BOM is recognised
+ * by the zero high bytes of ASCII text in the first 512 bytes.
+ */
+function detectEncoding(bytes: Uint8Array): string {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+
+  const sample = bytes.subarray(0, ENCODING_SAMPLE_BYTES);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  }
+  const half = sample.length / 2;
+  if (oddZeros > half * 0.3 && evenZeros === 0) return 'utf-16le';
+  if (evenZeros > half * 0.3 && oddZeros === 0) return 'utf-16be';
+  return 'utf-8';
+}
+
+/**
+ * Decode raw file bytes to text, whatever the encoding (see detectEncoding)
+ */
+export function decodeCsvBytes(data: ArrayBuffer | Uint8Array): string {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  return new TextDecoder(detectEncoding(bytes)).decode(bytes).replace(/^\uFEFF/, '');
+}
+
+/**
+ * Decode a stream of raw byte chunks to text chunks. The encoding is detected
+ * from the first 512 bytes; multi-byte characters split across chunks
+ * (UTF-8 sequences, UTF-16 code units) are carried over by the decoder.
+ */
+export async function* decodeCsvStream(chunks: AsyncIterable<Uint8Array>): AsyncGenerator<string, void, undefined> {
+  let decoder: TextDecoder | null = null;
+  let head: Uint8Array[] = [];
+  let headBytes = 0;
+
+  for await (const chunk of chunks) {
+    if (!decoder) {
+      head.push(chunk);
+      headBytes += chunk.length;
+      if (headBytes < ENCODING_SAMPLE_BYTES) continue;
+      const bytes = concatBytes(head);
+      head = [];
+      decoder = new TextDecoder(detectEncoding(bytes));
+      yield decoder.decode(bytes, { stream: true });
+      continue;
+    }
+    yield decoder.decode(chunk, { stream: true });
+  }
+
+  if (!decoder) {
+    // Shorter than the encoding sample
+    const bytes = concatBytes(head);
+    decoder = new TextDecoder(detectEncoding(bytes));
+    yield decoder.decode(bytes, { stream: true });
+  }
+  yield decoder.decode();
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+/**
+ * Byte chunks of a file or blob, as its stream delivers them
+ */
+export async function* readBlobChunks(blob: Blob): AsyncGenerator<Uint8Array, void, undefined> {
+  const reader = blob.stream().getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Decode a byte stream (a file stream in the browser or Node) into text chunks.
+ * The chunks can be passed to readCsvRecords / readCsvTable as they are,
+ * so a large export is never joined into one string.
+ */
+export async function collectCsvChunks(bytes: AsyncIterable<Uint8Array>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of decodeCsvStream(bytes)) {
+    if (chunk) chunks.push(chunk);
+  }
+  return chunks;
+}
+
+/**
+ * Read an uploaded CSV file as decoded text chunks, whatever its encoding
+ */
+export function readCsvChunks(file: Blob): Promise<string[]> {
+  return collectCsvChunks(readBlobChunks(file));
+}
+
+/**
+ * Read an uploaded CSV file into one string, whatever its encoding
+ */
+export async function readCsvFile(file: Blob): Promise<string> {
+  return (await readCsvChunks(file)).join('');
+}
+
+/**
+ * Incremental CSV record reader: text goes in chunk by chunk, complete records
+ * come out. Records may span chunks (quoted newlines, an escaped "" split
+ * across two chunks); the delimiter is detected from the header line.
+ */
+function createCsvRecordReader(options: CsvReaderOptions): { push: (chunk: string) => CsvRecord[]; end: () => CsvRecord[] } {
+  let delimiter = options.delimiter;
+  let pending = ''; // text held back until the delimiter is known
+  let started = false;
+
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let afterQuote = false; // closed a quoted field; only whitespace may follow before the delimiter
+  let quoteAtChunkEnd = false; // closing quote was the last char of a chunk: may be half of ""
+  let line = 1;
+  let recordLine = 1;
+  let lastWasCR = false;
+
+  const endRecord = (): CsvRecord | null => {
+    fields.push(field);
+    const record = fields.length === 1 && fields[0].trim() === '' ? null : { fields, line: recordLine };
+    fields = [];
+    field = '';
+    afterQuote = false;
+    return record;
+  };
+
+  const consume = (text: string, records: CsvRecord[]) => {
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      // "\r\n" counts as one line break
+      if (lastWasCR && char === '\n') {
+        lastWasCR = false;
+        continue;
+      }
+      lastWasCR = char === '\r';
+
+      if (quoteAtChunkEnd) {
+        quoteAtChunkEnd = false;
+        if (char === '"') {
+          // Escaped quote split across two chunks
+          field += '"';
+          inQuotes = true;
+          afterQuote = false;
+          continue;
+        }
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          if (text[i + 1] === '"') {
+            field += '"';
+            i++;
+          } else {
+            inQuotes = false;
+            afterQuote = true;
+            quoteAtChunkEnd = i + 1 === text.length;
+          }
+        } else if (char === '\n' || char === '\r') {
+          line++;
+          field += '\n';
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        if (field.trim() === '' && !afterQuote) {
+          field = '';
+          inQuotes = true;
+        } else {
+          field += char; // stray quote inside an unquoted field
+        }
+      } else if (char === delimiter) {
+        fields.push(field);
+        field = '';
+        afterQuote = false;
+      } else if (char === '\n' || char === '\r') {
+        line++;
+        const record = endRecord();
+        if (record) records.push(record);
+        recordLine = line;
+      } else {
+        if (!afterQuote || char.trim() !== '') field += char;
+      }
+    }
+  };
+
+  return {
+    push: chunk => {
+      const records: CsvRecord[] = [];
+      let text = chunk;
+      if (!started) {
+        text = (pending + text).replace(/^\uFEFF/, '');
+        if (!delimiter) {
+          const lineEnd = text.search(/[\r\n]/);
+          if (lineEnd === -1) {
+            pending = text;
+            return records;
+          }
+          delimiter = detectDelimiter(text.slice(0, lineEnd));
+        }
+        started = true;
+        pending = '';
+      }
+      consume(text, records);
+      return records;
+    },
+    end: () => {
+      const records: CsvRecord[] = [];
+      if (!started) {
+        delimiter ??= detectDelimiter(pending);
+        consume(pending.replace(/^\uFEFF/, ''), records);
+      }
+
+      const unterminated = inQuotes;
+      const record = endRecord();
+      if (unterminated) {
+        records.push({ fields: record?.fields ?? [''], line: recordLine, error: 'Unterminated quoted field (missing closing ")' });
+      } else if (record) {
+        records.push(record);
+      }
+      return records;
+    },
+  };
+}
+
+/**
+ * Read CSV records from a string or from text chunks (e.g. readCsvChunks).
+ * Blank lines are skipped; a quote left open at the end of the input comes
+ * back as an error record rather than a silent partial row.
+ */
+export function* readCsvRecords(input: CsvInput, options: CsvReaderOptions = {}): Generator<CsvRecord, void, undefined> {
+  const reader = createCsvRecordReader(options);
+  for (const chunk of typeof input === 'string' ? [input] : input) {
+    yield* reader.push(chunk);
+  }
+  yield* reader.end();
+}
+
+/**
+ * Stream CSV records from text chunks as they arrive (e.g. decodeCsvStream),
+ * holding no more than one chunk and the record in progress
+ */
+export async function* streamCsvRecords(
+  input: AsyncIterable<string>,
+  options: CsvReaderOptions = {}
+): AsyncGenerator<CsvRecord, void, undefined> {
+  const reader = createCsvRecordReader(options);
+  for await (const chunk of input) {
+    yield* reader.push(chunk);
+  }
+  yield* reader.end();
+}
+
+/**
+ * Header names compare case-insensitively, ignoring spaces and punctuation
+ * ("Line no_", "Line No.", "LineNo" are the same column)
+ */
+export function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Read a CSV file into rows keyed by column, mapping columns by header name.
+ * Rows that cannot be read are left out and reported with file, line and reason.
+ */
+export function readCsvTable<K extends string>(
+  input: CsvInput,
+  fileName: string,
+  columns: Record<K, CsvColumn>,
+  options: CsvReaderOptions = {}
+): CsvTable<K> {
+  const rows: CsvTableRow<K>[] = [];
+  const errors: CsvParseError[] = [];
+  const keys = Object.keys(columns) as K[];
+
+  let indexes: Map<K, number> | null = null;
+  let headerCount = 0;
+
+  for (const record of readCsvRecords(input, options)) {
+    if (record.error) {
+      errors.push({ file: fileName, line: record.line, reason: record.error });
+      continue;
+    }
+
+    // First record: header row
+    if (!indexes) {
+      const headers = record.fields.map(h => normalizeHeader(h));
+      headerCount = headers.length;
+      indexes = new Map();
+      const missing: string[] = [];
+      for (const key of keys) {
+        const column = columns[key];
+        const names = [column.header, ...(column.aliases ?? [])].map(normalizeHeader);
+        const index = headers.findIndex(h => names.includes(h));
+        if (index >= 0) indexes.set(key, index);
+        else if (!column.optional) missing.push(column.header);
+      }
+      if (missing.length > 0) {
+        errors.push({
+          file: fileName,
+          line: record.line,
+          reason: `Missing column${missing.length > 1 ? 's' : ''} ${missing.map(m => `"${m}"`).join(', ')}`,
+        });
+        return { rows, errors };
+      }
+      continue;
+    }
+
+    const fields = record.fields;
+    if (fields.length > headerCount && fields.slice(headerCount).some(f => f.trim() !== '')) {
+      errors.push({
+        file: fileName,
+        line: record.line,
+        reason: `Row has ${fields.length} fields but the header has ${headerCount} (unquoted delimiter in a value?)`,
+      });
+      continue;
+    }
+
+    const missing = keys.filter(key => {
+      const index = indexes?.get(key);
+      return !columns[key].optional && index !== undefined && index >= fields.length;
+    });
+    if (missing.length > 0) {
+      errors.push({
+        file: fileName,
+        line: record.line,
+        reason: `Row has ${fields.length} of ${headerCount} fields; no value for ${missing.map(k => `"${columns[k].header}"`).join(', ')}`,
+      });
+      continue;
+    }
+
+    const values = {} as Record<K, string>;
+    for (const key of keys) {
+      const index = indexes.get(key);
+      values[key] = index === undefined ? '' : (fields[index] ?? '').trim();
+    }
+    rows.push({ values, line: record.line });
+  }
+
+  return { rows, errors };
+}
@@ -0,0 +1,83 @@
+import type { TransformResult } from './types';
+import { compareRuns, compareKey, getOutputData } from './comparator';
+import { RUN_DIFF_TYPES } from './runDiff';
+
+export type DeltaAction = 'insert' | 'update' | 'delete';
+
+// One row of a delta export: the current row for inserts / updates, the baseline row for deletes
+export interface DeltaRow {
+  action: DeltaAction;
+  baselineId: string; // PRODUCE-side id of the row being updated or deleted ('' for inserts)
+  row: Record<string, unknown>;
+}
+
+export interface DeltaTable {
+  type: string; // COMPARE_CONFIGS key
+  label: string;
+  rows: DeltaRow[];
+  inserts: number;
+  updates: number;
+  deletes: number;
+}
+
+export interface DeltaExport {
+  baselineLabel: string;
+  tables: DeltaTable[];
+}
+
+const ACTION_ORDER: Record<DeltaAction, number> = { delete: 0, update: 1, insert: 2 };
+
+/**
+ * Work out the inserts, updates and deletes that take PRODUCE from the
+ * baseline (previous run or PRODUCE extract) to the current result.
+ * Unchanged rows are left out, as are tables the baseline does not cover.
+ */
+export function buildDelta(
+  current: TransformResult,
+  baseline: TransformResult,
+  baselineLabel = 'baseline',
+  types = RUN_DIFF_TYPES
+): DeltaExport {
+  const tables = types.map(type => {
+    const comparison = compareRuns(current, baseline, type);
+    const currentByKey = new Map(getOutputData(current, type).map(row => [compareKey(row, type), row]));
+    const rows: DeltaRow[] = [];
+
+    for (const compared of comparison.rows) {
+      if (compared.status === 'matched') continue;
+
+      if (compared.status === 'removed') {
+        rows.push({ action: 'delete', baselineId: compared.compareRow?.id ?? '', row: compared.compareRow ?? {} });
+        continue;
+      }
+
+      const row = currentByKey.get(compared.key) ?? compared.sourceRow ?? {};
+      rows.push({
+        action: compared.status === 'added' ? 'insert' : 'update',
+        baselineId: compared.status === 'changed' ? compared.compareRow?.id ?? '' : '',
+        row,
+      });
+    }
+
+    // Deletes first so re-used keys can be inserted afterwards
+    rows.sort((a, b) => ACTION_ORDER[a.action] - ACTION_ORDER[b.action]);
+
+    return {
+      type,
+      label: comparison.dataType,
+      rows,
+      inserts: rows.filter(r => r.action === 'insert').length,
+      updates: rows.filter(r => r.action === 'update').length,
+      deletes: rows.filter(r => r.action === 'delete').length,
+    };
+  });
+
+  return { baselineLabel, tables };
+}
+
+/**
+ * Total number of delta rows across all tables
+ */
+export function countDeltaRows(delta: DeltaExport): number {
+  return delta.tables.reduce((sum, t) => sum + t.rows.length, 0);
+}
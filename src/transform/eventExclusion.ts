@@ -0,0 +1,62 @@
+import type { EventExclusionRule, EventExclusionScope } from './types';
+
+export const EVENT_EXCLUSION_SCOPE_LABELS: Record<EventExclusionScope, string> = {
+  phase: 'Phase',
+  location: 'Location',
+  category: 'Category',
+};
+
+/**
+ * The first rule that excludes a recipe → event link: a location rule matches
+ * the recipe's location, a category rule its category and a phase rule any
+ * phase of its space events. No match → undefined (the link is included).
+ */
+export function resolveEventExclusionRule(
+  rules: EventExclusionRule[],
+  link: { locationCode: string; category: string; phases: string[] }
+): EventExclusionRule | undefined {
+  const same = (a: string, b: string) => a.trim().toUpperCase() === b.trim().toUpperCase();
+
+  return rules.find(rule => {
+    switch (rule.scope) {
+      case 'location': return same(rule.value, link.locationCode);
+      case 'category': return same(rule.value, link.category);
+      default: return link.phases.some(phase => same(rule.value, phase));
+    }
+  });
+}
+
+/**
+ * Label for lineage steps and exports, e.g. "location:NC04"
+ */
+export function describeEventExclusionRule(rule: EventExclusionRule): string {
+  return `${rule.scope}:${rule.value}`;
+}
+
+/**
+ * Parse an event exclusion rules JSON file (array of { scope, value })
+ */
+export function parseEventExclusionRules(json: string): EventExclusionRule[] {
+  const raw: unknown = JSON.parse(json);
+  if (!Array.isArray(raw)) {
+    throw new Error('Event exclusion rules file must contain an array of rules');
+  }
+
+  return raw.map((entry, idx) => {
+    const item = entry as Partial<EventExclusionRule>;
+    if (!item.scope || !Object.hasOwn(EVENT_EXCLUSION_SCOPE_LABELS, item.scope)) {
+      throw new Error(`Invalid event exclusion rule at index ${idx}: scope must be "phase", "location" or "category"`);
+    }
+    if (typeof item.value !== 'string' || !item.value.trim()) {
+      throw new Error(`Invalid event exclusion rule at index ${idx}: missing value`);
+    }
+    return { scope: item.scope, value: item.value.trim().toUpperCase() };
+  });
+}
+
+/**
+ * Serialize rules for saving / download
+ */
+export function serializeEventExclusionRules(rules: EventExclusionRule[]): string {
+  return JSON.stringify(rules, null, 2);
+}
@@ -1,17 +1,25 @@
 import * as XLSX from 'xlsx';
-import type { TransformResult, Catalog, Recipe, SpaceEvent, SpaceSpec, RecipeMix } from './types';
+import type {
+  TransformResult, Catalog, Category, ProductionItem, Recipe, SpaceEvent, SpaceSpec, RecipeMix, WildcardRecipe, MixAuditReport,
+  SpaceEventDefinition, SpaceEventDetail, EventTrigger, RecipeSpaceEvent, VariantMix,
+} from './types';
+import { misallocatedWeeks } from './mixAudit';
+import { stripLineage, lineageRows } from './lineage';
+import { RUN_DIFF_SHEETS } from './runDiff';
+import type { DeltaExport, DeltaTable } from './delta';
 
 /**
- * Convert array of objects to CSV string
+ * Convert array of objects to CSV string (header = the column keys unless given)
  */
-function toCSV<T>(data: T[], columns: (keyof T)[]): string {
+function toCSV<T>(data: T[], columns: (keyof T)[], headers: string[] = columns as string[]): string {
   if (data.length === 0) return '';
 
-  const header = (columns as string[]).join(',');
+  const header = headers.join(',');
   const rows = data.map(item =>
     columns.map(col => {
       const val = item[col];
-      if (typeof val === 'string' && (val.includes(',') || val.includes('"'))) {
+      // Quote fields holding a separator, a quote or a line break (RFC 4180)
+      if (typeof val === 'string' && /[",\r\n]/.test(val)) {
         return `"${val.replace(/"/g, '""')}"`;
       }
       return String(val ?? '');
@@ -21,83 +29,269 @@ function toCSV<T>(data: T[], columns: (keyof T)[]): string {
   return [header, ...rows].join('\n');
 }
 
+/**
+ * Insert startDate / endDate after endWeek when the rows carry dates (a plan year was set)
+ */
+function withDateColumns<T extends object>(rows: T[], columns: (keyof T)[]): (keyof T)[] {
+  const dated = rows.some(row => 'startDate' in row && row.startDate !== undefined);
+  const at = columns.indexOf('endWeek' as keyof T);
+  if (!dated || at < 0) return columns;
+  return [...columns.slice(0, at + 1), 'startDate', 'endDate', ...columns.slice(at + 1)] as (keyof T)[];
+}
+
+/** Catalog CSV columns */
+const CATALOG_COLUMNS: (keyof Catalog)[] = ['id', 'genus', 'series', 'color'];
+
+/** Category CSV columns (Setup.Categories + its SpacePlanning.Categories link) */
+const CATEGORY_COLUMNS: (keyof Category)[] = [
+  'id',
+  'category',
+  'kind',
+  'parentId',
+  'parentCategory',
+  'schemeCode',
+  'unitOfMeasure',
+  'spaceCategoryId',
+  'spaceCategory',
+  'areaSqFt',
+];
+
+/** Production item CSV columns (Setup.ProductionItems) */
+const PRODUCTION_ITEM_COLUMNS: (keyof ProductionItem)[] = [
+  'id',
+  'productionItemNum',
+  'categoryId',
+  'category',
+  'catalogId',
+  'genus',
+  'series',
+  'color',
+  'locations',
+  'categoryCount',
+];
+
+/** Recipe CSV columns (PRODUCE Plan Import format) */
+const RECIPE_COLUMNS: (keyof Recipe)[] = [
+  'id',
+  'locationCode',
+  'locationId',
+  'category',
+  'categoryId',
+  'schemeCode',
+  'genus',
+  'series',
+  'color',
+  'startWeek',
+  'endWeek',
+  'growWeeks',
+  'notes',
+  'catalogId',
+];
+
+/** Event CSV columns */
+const EVENT_COLUMNS: (keyof SpaceEvent)[] = [
+  'id',
+  'recipeId',
+  'locationCode',
+  'locationId',
+  'category',
+  'schemeCode',
+  'schemePrefix',
+  'genusAbbrev',
+  'areaSqFt',
+  'genus',
+  'series',
+  'color',
+  'phase',
+  'startWeek',
+  'endWeek',
+  'triggerWeeks',
+  'durationWeeks',
+  'timeProfile',
+  'trigger',
+  'spaceType',
+  'eventId',
+  'eventDetailId',
+  'triggerId',
+];
+
+/** Space spec CSV columns */
+const SPEC_COLUMNS: (keyof SpaceSpec)[] = [
+  'id',
+  'recipeId',
+  'spaceWidth',
+  'spaceLength',
+  'qtyPerArea',
+  'phase',
+  'locationId',
+  'stagger',
+  'spaceModel',
+  'spaceModelRule',
+  'categoryId',
+  'spaceCategoryId',
+];
+
+/** Mix CSV columns (PRODUCE RecipeMix format) */
+const MIX_COLUMNS: (keyof RecipeMix)[] = [
+  'id',
+  'recipeId',
+  'catalogId',
+  'mixPct',
+  'commonItem',
+  'location',
+  'locationId',
+  'variant',
+  'startWeek',
+  'endWeek',
+  'note',
+];
+
+/** Recipe space event CSV columns */
+const RECIPE_SPACE_EVENT_COLUMNS: (keyof RecipeSpaceEvent)[] = [
+  'id', 'recipeId', 'eventId', 'event', 'locationCode', 'category', 'phases', 'isExcluded', 'exclusionRule',
+];
+
+/** Setup.RecipeMixes / dbo.BLNVariantMixes columns, with the PRODUCE column names as headers */
+const VARIANT_MIX_COLUMNS: (keyof VariantMix)[] = ['recipeId', 'catalogId', 'mixPct'];
+const VARIANT_MIX_HEADERS = ['RecipeID', 'CatalogID', 'MixPct'];
+
+/** Columns of each delta table, keyed like COMPARE_CONFIGS */
+const DELTA_COLUMNS: Record<string, string[]> = {
+  catalogs: CATALOG_COLUMNS,
+  categories: CATEGORY_COLUMNS,
+  productionItems: PRODUCTION_ITEM_COLUMNS,
+  recipes: RECIPE_COLUMNS,
+  events: EVENT_COLUMNS,
+  recipeSpaceEvents: RECIPE_SPACE_EVENT_COLUMNS,
+  specs: SPEC_COLUMNS,
+  mixes: MIX_COLUMNS,
+  recipeMixes: VARIANT_MIX_COLUMNS,
+  blnVariantMixes: VARIANT_MIX_COLUMNS,
+};
+
 /**
  * Export catalogs to CSV
  */
 export function exportCatalogsCSV(catalogs: Catalog[]): string {
-  return toCSV(catalogs, ['id', 'genus', 'series', 'color']);
+  return toCSV(catalogs, CATALOG_COLUMNS);
+}
+
+/**
+ * Export categories (Setup.Categories) to CSV
+ */
+export function exportCategoriesCSV(categories: Category[]): string {
+  return toCSV(categories, CATEGORY_COLUMNS);
+}
+
+/**
+ * Export production items (Setup.ProductionItems) to CSV
+ */
+export function exportProductionItemsCSV(productionItems: ProductionItem[]): string {
+  return toCSV(productionItems, PRODUCTION_ITEM_COLUMNS);
 }
 
 /**
  * Export recipes to CSV (PRODUCE Plan Import format)
  */
 export function exportRecipesCSV(recipes: Recipe[]): string {
-  return toCSV(recipes, [
-    'id',
-    'locationCode',
-    'category',
-    'schemeCode',
-    'genus',
-    'series',
-    'color',
-    'startWeek',
-    'endWeek',
-    'growWeeks',
-    'notes',
-    'catalogId',
-  ]);
+  return toCSV(recipes, withDateColumns(recipes, RECIPE_COLUMNS));
 }
 
 /**
  * Export events to CSV
  */
 export function exportEventsCSV(events: SpaceEvent[]): string {
-  return toCSV(events, [
+  return toCSV(events, withDateColumns(events, EVENT_COLUMNS));
+}
+
+/**
+ * Export event definitions (Events.Spaces) to CSV
+ */
+export function exportEventDefinitionsCSV(definitions: SpaceEventDefinition[]): string {
+  return toCSV(definitions, ['id', 'event', 'category', 'timeProfile', 'detailCount', 'recipeCount']);
+}
+
+/**
+ * Export event details (Events.SpaceDetails) to CSV
+ */
+export function exportEventDetailsCSV(details: SpaceEventDetail[]): string {
+  return toCSV(details, [
     'id',
-    'recipeId',
-    'locationCode',
-    'category',
-    'schemeCode',
-    'genus',
-    'series',
-    'color',
+    'eventId',
+    'event',
+    'description',
     'phase',
-    'startWeek',
-    'endWeek',
-    'triggerWeeks',
-    'durationWeeks',
+    'triggerId',
+    'trigger',
+    'spaceCategory',
+    'spaceType',
+    'spaceTypeId',
+    'duration',
   ]);
 }
 
+/**
+ * Export triggers (Events.Triggers) to CSV
+ */
+export function exportTriggersCSV(triggers: EventTrigger[]): string {
+  return toCSV(triggers, ['id', 'description', 'timeProfile', 'unitOffset']);
+}
+
+/**
+ * Export recipe → event links (Setup.RecipeSpaceEvents) to CSV
+ */
+export function exportRecipeSpaceEventsCSV(links: RecipeSpaceEvent[]): string {
+  return toCSV(links, RECIPE_SPACE_EVENT_COLUMNS);
+}
+
 /**
  * Export specs to CSV
  */
 export function exportSpecsCSV(specs: SpaceSpec[]): string {
-  return toCSV(specs, [
-    'id',
-    'recipeId',
-    'spaceWidth',
-    'spaceLength',
-    'qtyPerArea',
-    'phase',
-  ]);
+  return toCSV(specs, SPEC_COLUMNS);
 }
 
 /**
  * Export mixes to CSV (PRODUCE RecipeMix format)
  */
 export function exportMixesCSV(mixes: RecipeMix[]): string {
-  return toCSV(mixes, [
+  return toCSV(mixes, withDateColumns(mixes, MIX_COLUMNS));
+}
+
+/**
+ * Export Setup.RecipeMixes rows to CSV (float MixPct; ID is left to the IDENTITY column)
+ */
+export function exportRecipeMixesCSV(recipeMixes: VariantMix[]): string {
+  return toCSV(recipeMixes, VARIANT_MIX_COLUMNS, VARIANT_MIX_HEADERS);
+}
+
+/**
+ * Export dbo.BLNVariantMixes rows to CSV (whole-percent MixPct, smallint CatalogID)
+ */
+export function exportBlnVariantMixesCSV(blnVariantMixes: VariantMix[]): string {
+  return toCSV(blnVariantMixes, VARIANT_MIX_COLUMNS, VARIANT_MIX_HEADERS);
+}
+
+/**
+ * Export wildcard recipes to CSV (Color `*`, empty weeks = whole year)
+ */
+export function exportWildcardRecipesCSV(wildcardRecipes: WildcardRecipe[]): string {
+  return toCSV(wildcardRecipes, [
     'id',
-    'recipeId',
-    'catalogId',
-    'mixPct',
+    'locationCode',
+    'locationId',
+    'category',
+    'schemeCode',
+    'genus',
+    'series',
+    'color',
     'commonItem',
-    'location',
-    'variant',
     'startWeek',
     'endWeek',
-    'note',
+    'growWeeks',
+    'pattern',
+    'variantCount',
+    'notes',
   ]);
 }
 
@@ -107,26 +301,53 @@ export function exportMixesCSV(mixes: RecipeMix[]): string {
  */
 export function exportAll(result: TransformResult): {
   catalogs: string;
+  categories: string;
+  productionItems: string;
   recipes: string;
   events: string;
+  eventDefinitions: string;
+  eventDetails: string;
+  triggers: string;
+  recipeSpaceEvents: string;
   specs: string;
   mixes: string;
+  recipeMixes: string;
+  blnVariantMixes: string;
+  wildcardRecipes: string;
   summary: string;
 } {
   return {
     catalogs: exportCatalogsCSV(result.catalogs),
+    categories: exportCategoriesCSV(result.categories),
+    productionItems: exportProductionItemsCSV(result.productionItems),
     recipes: exportRecipesCSV(result.recipes),
     events: exportEventsCSV(result.events),
+    eventDefinitions: exportEventDefinitionsCSV(result.eventDefinitions),
+    eventDetails: exportEventDetailsCSV(result.eventDetails),
+    triggers: exportTriggersCSV(result.triggers),
+    recipeSpaceEvents: exportRecipeSpaceEventsCSV(result.recipeSpaceEvents),
     specs: exportSpecsCSV(result.specs),
     mixes: exportMixesCSV(result.mixes),
+    recipeMixes: exportRecipeMixesCSV(result.recipeMixes),
+    blnVariantMixes: exportBlnVariantMixesCSV(result.blnVariantMixes),
+    wildcardRecipes: exportWildcardRecipesCSV(result.wildcardRecipes),
     summary: JSON.stringify({
       timestamp: new Date().toISOString(),
       counts: {
         catalogs: result.catalogs.length,
+        categories: result.categories.length,
+        productionItems: result.productionItems.length,
         recipes: result.recipes.length,
         events: result.events.length,
+        eventDefinitions: result.eventDefinitions.length,
+        eventDetails: result.eventDetails.length,
+        triggers: result.triggers.length,
+        recipeSpaceEvents: result.recipeSpaceEvents.length,
         specs: result.specs.length,
         mixes: result.mixes.length,
+        recipeMixes: result.recipeMixes.length,
+        blnVariantMixes: result.blnVariantMixes.length,
+        wildcardRecipes: result.wildcardRecipes.length,
       },
       errors: result.errors,
       warnings: result.warnings,
@@ -134,6 +355,33 @@ export function exportAll(result: TransformResult): {
   };
 }
 
+/**
+ * Export one delta table to CSV: action (insert / update / delete), the
+ * PRODUCE id being replaced, then the table's usual columns
+ */
+export function exportDeltaCSV(table: DeltaTable): string {
+  const rows: Record<string, unknown>[] = table.rows.map(r => ({ ...r.row, action: r.action, baselineId: r.baselineId }));
+  return toCSV(rows, withDateColumns(rows, ['action', 'baselineId', ...DELTA_COLUMNS[table.type]]));
+}
+
+/**
+ * List the delta CSV files with their file names. Tables without changes are left out.
+ */
+export function buildDeltaExportFiles(
+  delta: DeltaExport,
+  prefix = 'bln'
+): { content: string; name: string; mime: string }[] {
+  const timestamp = new Date().toISOString().split('T')[0];
+
+  return delta.tables
+    .filter(t => t.rows.length > 0)
+    .map(t => ({
+      content: exportDeltaCSV(t),
+      name: `${prefix}-delta-${t.type}-${timestamp}.csv`,
+      mime: 'text/csv',
+    }));
+}
+
 /**
  * Trigger browser download of a string as a file
  */
@@ -165,71 +413,259 @@ export function downloadBlob(blob: Blob, filename: string): void {
 }
 
 /**
- * Export all results as a single multi-sheet Excel workbook.
- * One download — no browser popup-blocker issues.
+ * Append the mix audit sheets (names follow the VBA audit macros)
+ */
+export function appendMixAuditSheets(wb: XLSX.WorkBook, report: MixAuditReport): void {
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(report.weeks, {
+    header: ['location', 'commonItem', 'week', 'sourcePct', 'linkedPct', 'status'],
+  }), 'AuditWeeks');
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(report.unlinkedRows, {
+    header: ['location', 'commonItem', 'productionItem', 'variant', 'firstWeek', 'unlinkedWeeks', 'reason', 'recipeIdTried'],
+  }), 'Unlinked');
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(report.orphanRecipes.map(r => ({
+    id: r.id,
+    locationCode: r.locationCode,
+    schemeCode: r.schemeCode,
+    genus: r.genus,
+    series: r.series,
+    startWeek: r.startWeek,
+    endWeek: r.endWeek,
+  })), {
+    header: ['id', 'locationCode', 'schemeCode', 'genus', 'series', 'startWeek', 'endWeek'],
+  }), 'OrphanRecipes');
+}
+
+/**
+ * Download the mix audit on its own as an Excel workbook
+ */
+export function downloadMixAuditExcel(report: MixAuditReport, prefix = 'bln'): void {
+  const wb = XLSX.utils.book_new();
+  appendMixAuditSheets(wb, report);
+  const timestamp = new Date().toISOString().split('T')[0];
+  XLSX.writeFile(wb, `${prefix}-mix-audit-${timestamp}.xlsx`);
+}
+
+/**
+ * Build the multi-sheet Excel workbook for a transform result.
+ * Shared by the browser download and the headless CLI.
+ * The import sheets keep the PRODUCE columns; row lineage goes on its own
+ * Lineage sheet, and only when asked for (it is by far the largest part).
  */
-export function downloadAsExcel(result: TransformResult, prefix = 'bln'): void {
+export function buildExcelWorkbook(result: TransformResult, includeLineage = false): XLSX.WorkBook {
   const wb = XLSX.utils.book_new();
 
   if (result.catalogs.length > 0) {
-    const ws = XLSX.utils.json_to_sheet(result.catalogs);
+    const ws = XLSX.utils.json_to_sheet(stripLineage(result.catalogs));
     XLSX.utils.book_append_sheet(wb, ws, 'Catalogs');
   }
+  if (result.categories.length > 0) {
+    const ws = XLSX.utils.json_to_sheet(stripLineage(result.categories));
+    XLSX.utils.book_append_sheet(wb, ws, 'Categories');
+  }
+  if (result.productionItems.length > 0) {
+    const ws = XLSX.utils.json_to_sheet(stripLineage(result.productionItems));
+    XLSX.utils.book_append_sheet(wb, ws, 'ProductionItems');
+  }
   if (result.recipes.length > 0) {
-    const ws = XLSX.utils.json_to_sheet(result.recipes);
+    const ws = XLSX.utils.json_to_sheet(stripLineage(result.recipes));
     XLSX.utils.book_append_sheet(wb, ws, 'Recipes');
   }
   if (result.events.length > 0) {
-    const ws = XLSX.utils.json_to_sheet(result.events);
+    const ws = XLSX.utils.json_to_sheet(stripLineage(result.events));
     XLSX.utils.book_append_sheet(wb, ws, 'Events');
   }
+  if (result.eventDefinitions.length > 0) {
+    const ws = XLSX.utils.json_to_sheet(result.eventDefinitions);
+    XLSX.utils.book_append_sheet(wb, ws, 'EventSpaces');
+  }
+  if (result.eventDetails.length > 0) {
+    const ws = XLSX.utils.json_to_sheet(result.eventDetails);
+    XLSX.utils.book_append_sheet(wb, ws, 'EventSpaceDetails');
+  }
+  if (result.triggers.length > 0) {
+    const ws = XLSX.utils.json_to_sheet(result.triggers);
+    XLSX.utils.book_append_sheet(wb, ws, 'Triggers');
+  }
+  if (result.recipeSpaceEvents.length > 0) {
+    const ws = XLSX.utils.json_to_sheet(stripLineage(result.recipeSpaceEvents));
+    XLSX.utils.book_append_sheet(wb, ws, 'RecipeSpaceEvents');
+  }
   if (result.specs.length > 0) {
-    const ws = XLSX.utils.json_to_sheet(result.specs);
+    const ws = XLSX.utils.json_to_sheet(stripLineage(result.specs));
     XLSX.utils.book_append_sheet(wb, ws, 'SpaceSpecs');
   }
   if (result.mixes.length > 0) {
-    const ws = XLSX.utils.json_to_sheet(result.mixes);
+    const ws = XLSX.utils.json_to_sheet(stripLineage(result.mixes));
     XLSX.utils.book_append_sheet(wb, ws, 'Mixes');
   }
+  if (result.recipeMixes.length > 0) {
+    const ws = XLSX.utils.aoa_to_sheet([
+      VARIANT_MIX_HEADERS,
+      ...result.recipeMixes.map(m => VARIANT_MIX_COLUMNS.map(col => m[col])),
+    ]);
+    XLSX.utils.book_append_sheet(wb, ws, 'RecipeMixes');
+  }
+  if (result.blnVariantMixes.length > 0) {
+    const ws = XLSX.utils.aoa_to_sheet([
+      VARIANT_MIX_HEADERS,
+      ...result.blnVariantMixes.map(m => VARIANT_MIX_COLUMNS.map(col => m[col])),
+    ]);
+    XLSX.utils.book_append_sheet(wb, ws, 'BLNVariantMixes');
+  }
+  if (result.wildcardRecipes.length > 0) {
+    const ws = XLSX.utils.json_to_sheet(stripLineage(result.wildcardRecipes));
+    XLSX.utils.book_append_sheet(wb, ws, 'WildcardRecipes');
+  }
+  if (result.mixAudit.weeks.length > 0) {
+    appendMixAuditSheets(wb, result.mixAudit);
+  }
+  if (includeLineage) {
+    const rows = [
+      ...lineageRows('Catalogs', result.catalogs),
+      ...lineageRows('Categories', result.categories),
+      ...lineageRows('ProductionItems', result.productionItems),
+      ...lineageRows('Recipes', result.recipes),
+      ...lineageRows('Events', result.events),
+      ...lineageRows('RecipeSpaceEvents', result.recipeSpaceEvents),
+      ...lineageRows('SpaceSpecs', result.specs),
+      ...lineageRows('Mixes', result.mixes),
+      ...lineageRows('WildcardRecipes', result.wildcardRecipes),
+    ];
+    if (rows.length > 0) {
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(rows), 'Lineage');
+    }
+  }
 
   // Summary sheet
   const summaryData = [
     { field: 'Timestamp', value: new Date().toISOString() },
     { field: 'Catalogs', value: result.catalogs.length },
+    { field: 'Categories', value: result.categories.length },
+    { field: 'ProductionItems', value: result.productionItems.length },
     { field: 'Recipes', value: result.recipes.length },
     { field: 'Events', value: result.events.length },
+    { field: 'EventSpaces', value: result.eventDefinitions.length },
+    { field: 'EventSpaceDetails', value: result.eventDetails.length },
+    { field: 'Triggers', value: result.triggers.length },
+    { field: 'RecipeSpaceEvents', value: result.recipeSpaceEvents.length },
+    { field: 'ExcludedRecipeSpaceEvents', value: result.recipeSpaceEvents.filter(l => l.isExcluded).length },
     { field: 'SpaceSpecs', value: result.specs.length },
     { field: 'Mixes', value: result.mixes.length },
+    { field: 'RecipeMixes', value: result.recipeMixes.length },
+    { field: 'BLNVariantMixes', value: result.blnVariantMixes.length },
+    { field: 'WildcardRecipes', value: result.wildcardRecipes.length },
+    { field: 'MisallocatedMixWeeks', value: misallocatedWeeks(result.mixAudit).length },
+    { field: 'UnlinkedMixRows', value: result.mixAudit.unlinkedRows.length },
+    { field: 'OrphanRecipes', value: result.mixAudit.orphanRecipes.length },
     { field: 'Errors', value: result.errors.length },
     { field: 'Warnings', value: result.warnings.length },
   ];
   const summaryWs = XLSX.utils.json_to_sheet(summaryData);
   XLSX.utils.book_append_sheet(wb, summaryWs, 'Summary');
 
+  return wb;
+}
+
+/**
+ * Build the delta workbook: one sheet per changed table (same sheet names as
+ * the full export) with an action column, plus a Summary of the counts
+ */
+export function buildDeltaWorkbook(delta: DeltaExport): XLSX.WorkBook {
+  const wb = XLSX.utils.book_new();
+
+  for (const table of delta.tables) {
+    if (table.rows.length === 0) continue;
+    const rows: Record<string, unknown>[] = table.rows.map(r => ({ ...r.row, action: r.action, baselineId: r.baselineId }));
+    const ws = XLSX.utils.json_to_sheet(rows, {
+      header: withDateColumns(rows, ['action', 'baselineId', ...DELTA_COLUMNS[table.type]]),
+    });
+    XLSX.utils.book_append_sheet(wb, ws, RUN_DIFF_SHEETS[table.type]);
+  }
+
+  const summaryData: { field: string; value: string | number }[] = [
+    { field: 'Timestamp', value: new Date().toISOString() },
+    { field: 'Mode', value: 'delta' },
+    { field: 'Baseline', value: delta.baselineLabel },
+  ];
+  for (const table of delta.tables) {
+    const sheet = RUN_DIFF_SHEETS[table.type];
+    summaryData.push(
+      { field: `${sheet} inserts`, value: table.inserts },
+      { field: `${sheet} updates`, value: table.updates },
+      { field: `${sheet} deletes`, value: table.deletes },
+    );
+  }
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(summaryData), 'Summary');
+
+  return wb;
+}
+
+/**
+ * File name of the Excel workbook export
+ */
+export function excelExportFilename(prefix = 'bln', delta = false): string {
   const timestamp = new Date().toISOString().split('T')[0];
-  XLSX.writeFile(wb, `${prefix}-export-${timestamp}.xlsx`);
+  return `${prefix}-${delta ? 'delta' : 'export'}-${timestamp}.xlsx`;
 }
 
 /**
- * Download all exports as separate CSV files (with sufficient delays)
+ * Export all results as a single multi-sheet Excel workbook.
+ * One download — no browser popup-blocker issues.
+ * With a delta, only the inserts / updates / deletes against its baseline are written.
  */
-export function downloadAllExports(result: TransformResult, prefix = 'bln'): void {
+export function downloadAsExcel(
+  result: TransformResult,
+  prefix = 'bln',
+  delta?: DeltaExport,
+  includeLineage = false
+): void {
+  if (delta) {
+    XLSX.writeFile(buildDeltaWorkbook(delta), excelExportFilename(prefix, true));
+    return;
+  }
+  XLSX.writeFile(buildExcelWorkbook(result, includeLineage), excelExportFilename(prefix), { compression: true });
+}
+
+/**
+ * List the individual export files (CSVs + JSON summary) with their file names.
+ * Empty tables are left out.
+ */
+export function buildExportFiles(
+  result: TransformResult,
+  prefix = 'bln'
+): { content: string; name: string; mime: string }[] {
   const timestamp = new Date().toISOString().split('T')[0];
   const allExports = exportAll(result);
 
-  const files: { content: string; name: string; mime?: string }[] = [
-    { content: allExports.catalogs, name: `${prefix}-catalogs-${timestamp}.csv` },
-    { content: allExports.recipes, name: `${prefix}-recipes-${timestamp}.csv` },
-    { content: allExports.events, name: `${prefix}-events-${timestamp}.csv` },
-    { content: allExports.specs, name: `${prefix}-specs-${timestamp}.csv` },
-    { content: allExports.mixes, name: `${prefix}-mixes-${timestamp}.csv` },
+  return [
+    { content: allExports.catalogs, name: `${prefix}-catalogs-${timestamp}.csv`, mime: 'text/csv' },
+    { content: allExports.categories, name: `${prefix}-categories-${timestamp}.csv`, mime: 'text/csv' },
+    { content: allExports.productionItems, name: `${prefix}-production-items-${timestamp}.csv`, mime: 'text/csv' },
+    { content: allExports.recipes, name: `${prefix}-recipes-${timestamp}.csv`, mime: 'text/csv' },
+    { content: allExports.events, name: `${prefix}-events-${timestamp}.csv`, mime: 'text/csv' },
+    { content: allExports.eventDefinitions, name: `${prefix}-event-spaces-${timestamp}.csv`, mime: 'text/csv' },
+    { content: allExports.eventDetails, name: `${prefix}-event-details-${timestamp}.csv`, mime: 'text/csv' },
+    { content: allExports.triggers, name: `${prefix}-triggers-${timestamp}.csv`, mime: 'text/csv' },
+    { content: allExports.recipeSpaceEvents, name: `${prefix}-recipe-space-events-${timestamp}.csv`, mime: 'text/csv' },
+    { content: allExports.specs, name: `${prefix}-specs-${timestamp}.csv`, mime: 'text/csv' },
+    { content: allExports.mixes, name: `${prefix}-mixes-${timestamp}.csv`, mime: 'text/csv' },
+    { content: allExports.recipeMixes, name: `${prefix}-recipe-mixes-${timestamp}.csv`, mime: 'text/csv' },
+    { content: allExports.blnVariantMixes, name: `${prefix}-bln-variant-mixes-${timestamp}.csv`, mime: 'text/csv' },
+    { content: allExports.wildcardRecipes, name: `${prefix}-wildcard-recipes-${timestamp}.csv`, mime: 'text/csv' },
     { content: allExports.summary, name: `${prefix}-summary-${timestamp}.json`, mime: 'application/json' },
   ].filter(f => f.content.length > 0);
+}
+
+/**
+ * Download all exports as separate CSV files (with sufficient delays)
+ */
+export function downloadAllExports(result: TransformResult, prefix = 'bln'): void {
+  const files = buildExportFiles(result, prefix);
 
   // Chain downloads with 800ms gaps to avoid browser blocking
   files.forEach((file, i) => {
     setTimeout(() => {
-      downloadFile(file.content, file.name, file.mime || 'text/csv');
+      downloadFile(file.content, file.name, file.mime);
     }, i * 800);
   });
 }
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { cloneIdLedger, createIdAllocator, emptyIdLedger, parseIdLedger, serializeIdLedger } from './idLedger';
+
+describe('createIdAllocator', () => {
+  it('numbers new keys from 1 in first-seen order', () => {
+    const entries: Record<string, number> = {};
+    const allocate = createIdAllocator(entries);
+    expect(['A', 'B', 'C'].map(allocate)).toEqual([1, 2, 3]);
+    expect(entries).toEqual({ A: 1, B: 2, C: 3 });
+  });
+
+  it('keeps the ids of keys already in the ledger', () => {
+    const allocate = createIdAllocator({ A: 1, B: 2, C: 3 });
+    expect(['C', 'A'].map(allocate)).toEqual([3, 1]);
+  });
+
+  it('never reuses the id of a key that disappeared', () => {
+    const entries = { A: 1, B: 2, C: 3 };
+    const allocate = createIdAllocator(entries);
+    // B is gone from this run; the new key D must not take its id
+    expect(['A', 'C', 'D'].map(allocate)).toEqual([1, 3, 4]);
+    expect(entries).toEqual({ A: 1, B: 2, C: 3, D: 4 });
+  });
+
+  it('gives a repeated key its own "#2" entry', () => {
+    const entries: Record<string, number> = { A: 1 };
+    const allocate = createIdAllocator(entries);
+    expect(['A', 'A', 'A'].map(allocate)).toEqual([1, 2, 3]);
+    expect(entries).toEqual({ A: 1, 'A#2': 2, 'A#3': 3 });
+    expect(['A', 'A', 'A'].map(createIdAllocator(entries))).toEqual([1, 2, 3]);
+  });
+
+  it('does not hand out one id twice when the ledger maps two keys to it', () => {
+    const allocate = createIdAllocator({ A: 1, B: 1 });
+    expect(['A', 'B'].map(allocate)).toEqual([1, 2]);
+  });
+});
+
+describe('id ledger files', () => {
+  it('round-trips through serializeIdLedger and parseIdLedger', () => {
+    const ledger = emptyIdLedger();
+    ledger.tables.recipes = { 'OH08|BN-012PANN-BEG-LSP|1|26': 7 };
+    ledger.tables.catalogs = { X: 3 };
+    expect(parseIdLedger(serializeIdLedger(ledger))).toEqual(ledger);
+  });
+
+  it('fills tables missing from older files', () => {
+    const ledger = parseIdLedger(JSON.stringify({ version: 1, tables: { catalogs: { X: 3 } } }));
+    expect(ledger.tables.catalogs).toEqual({ X: 3 });
+    expect(ledger.tables.wildcardRecipes).toEqual({});
+  });
+
+  it('rejects other versions and ids that are not positive integers', () => {
+    expect(() => parseIdLedger('{"version":2,"tables":{}}')).toThrow(/version 1/);
+    expect(() => parseIdLedger('{"version":1,"tables":{"catalogs":{"X":0}}}')).toThrow(/positive integer/);
+    expect(() => parseIdLedger('{"version":1,"tables":{"catalogs":[]}}')).toThrow(/catalogs/);
+  });
+
+  it('clones without sharing tables with the original', () => {
+    const ledger = emptyIdLedger();
+    ledger.tables.specs = { S: 1 };
+    const clone = cloneIdLedger(ledger);
+    clone.tables.specs.T = 2;
+    expect(ledger.tables.specs).toEqual({ S: 1 });
+  });
+});
@@ -0,0 +1,133 @@
+import type { IdLedger, IdLedgerTable } from './types';
+
+export const ID_LEDGER_TABLES: IdLedgerTable[] = [
+  'catalogs',
+  'categories',
+  'spaceCategories',
+  'productionItems',
+  'recipes',
+  'events',
+  'triggers',
+  'eventDefinitions',
+  'eventDetails',
+  'recipeSpaceEvents',
+  'specs',
+  'mixes',
+  'wildcardRecipes',
+];
+
+// Hands out the id for a natural key; repeated keys within one run get "#2", "#3", … suffixes
+export type IdAllocator = (naturalKey: string) => number;
+
+/**
+ * Ledger with no ids allocated yet
+ */
+export function emptyIdLedger(): IdLedger {
+  return {
+    version: 1,
+    tables: {
+      catalogs: {},
+      categories: {},
+      spaceCategories: {},
+      productionItems: {},
+      recipes: {},
+      events: {},
+      triggers: {},
+      eventDefinitions: {},
+      eventDetails: {},
+      recipeSpaceEvents: {},
+      specs: {},
+      mixes: {},
+      wildcardRecipes: {},
+    },
+  };
+}
+
+/**
+ * Copy of a ledger that the transform can extend without touching the caller's copy
+ */
+export function cloneIdLedger(ledger?: IdLedger): IdLedger {
+  const clone = emptyIdLedger();
+  if (!ledger) return clone;
+  for (const table of ID_LEDGER_TABLES) {
+    clone.tables[table] = { ...ledger.tables[table] };
+  }
+  return clone;
+}
+
+/**
+ * Allocator for one ledger table. Keys already in the ledger keep their id;
+ * new keys get the next id above every id ever handed out, so ids of rows
+ * that disappeared are never reused for something else.
+ * Allocated ids are written back into `entries`.
+ */
+export function createIdAllocator(entries: Record<string, number>): IdAllocator {
+  let next = Object.values(entries).reduce((max, id) => Math.max(max, id), 0) + 1;
+  const used = new Set<number>();
+  const occurrences = new Map<string, number>();
+
+  return (naturalKey: string) => {
+    const occurrence = (occurrences.get(naturalKey) ?? 0) + 1;
+    occurrences.set(naturalKey, occurrence);
+    const key = occurrence === 1 ? naturalKey : `${naturalKey}#${occurrence}`;
+
+    let id = entries[key];
+    if (id === undefined || used.has(id)) {
+      id = next++;
+      entries[key] = id;
+    }
+    used.add(id);
+    return id;
+  };
+}
+
+/**
+ * Natural key of a recipe (location + scheme + week window), shared by the
+ * events, specs and mixes keys so they follow their recipe
+ */
+export function recipeLedgerKey(recipe: { locationCode: string; schemeCode: string; startWeek: number; endWeek: number }): string {
+  return `${recipe.locationCode}|${recipe.schemeCode}|${recipe.startWeek}|${recipe.endWeek}`;
+}
+
+/**
+ * Number of natural keys recorded per table
+ */
+export function countLedgerEntries(ledger: IdLedger): Record<IdLedgerTable, number> {
+  const counts = {} as Record<IdLedgerTable, number>;
+  for (const table of ID_LEDGER_TABLES) {
+    counts[table] = Object.keys(ledger.tables[table]).length;
+  }
+  return counts;
+}
+
+/**
+ * Parse a ledger JSON file (as written by serializeIdLedger)
+ */
+export function parseIdLedger(json: string): IdLedger {
+  const raw = JSON.parse(json) as Partial<IdLedger> | null;
+  if (!raw || typeof raw !== 'object' || raw.version !== 1 || !raw.tables || typeof raw.tables !== 'object') {
+    throw new Error('Id ledger file must be a version 1 ledger with a "tables" object');
+  }
+
+  const ledger = emptyIdLedger();
+  for (const table of ID_LEDGER_TABLES) {
+    const entries: unknown = raw.tables[table] ?? {};
+    if (typeof entries !== 'object' || entries === null || Array.isArray(entries)) {
+      throw new Error(`Invalid id ledger table "${table}": expected an object of key → id`);
+    }
+    for (const [key, id] of Object.entries(entries)) {
+      if (!Number.isInteger(id) || (id as number) < 1) {
+        throw new Error(`Invalid id ledger entry in "${table}" for key "${key}": id must be a positive integer`);
+      }
+      ledger.tables[table][key] = id as number;
+    }
+  }
+  return ledger;
+}
+
+/**
+ * Serialize a ledger for saving / download
+ */
+export function serializeIdLedger(ledger: IdLedger): string {
+  return JSON.stringify(ledger, null, 2);
+}
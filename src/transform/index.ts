@@ -1,6 +1,24 @@
 export * from './types';
 export * from './csvParser';
+export * from './csvReader';
+export * from './arcFlowFiles';
+export * from './mergeDrops';
 export * from './transformer';
 export * from './exporter';
+export * from './sqlExporter';
 export * from './mixParser';
 export * from './comparator';
+export * from './locationMap';
+export * from './recipeLookup';
+export * from './mixAudit';
+export * from './spaceModel';
+export * from './lineage';
+export * from './runDiff';
+export * from './delta';
+export * from './idLedger';
+export * from './calendar';
+export * from './weekRounding';
+export * from './phaseMerge';
+export * from './schemeCode';
+export * from './eventExclusion';
+export * from './variantMixes';
@@ -0,0 +1,58 @@
+import type { Lineage, SourceKind, SourceRef } from './types';
+
+export const SOURCE_KIND_LABELS: Record<SourceKind, string> = {
+  scheme: 'Production Scheme',
+  schemeLine: 'Scheme Line',
+  schemeLinePeriod: 'Scheme Line Period',
+  preference: 'Production Preference',
+  mix: '4M Variant Mix',
+};
+
+/**
+ * Drop missing refs and duplicates, keeping first-seen order
+ */
+export function collectSources(...refs: (SourceRef | (SourceRef | undefined)[] | undefined)[]): SourceRef[] {
+  const seen = new Set<string>();
+  const sources: SourceRef[] = [];
+  for (const ref of refs.flat()) {
+    if (!ref) continue;
+    const key = `${ref.kind}|${ref.file}|${ref.line}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    sources.push(ref);
+  }
+  return sources;
+}
+
+/**
+ * "ProductionPreferences260203.csv:42"
+ */
+export function sourceLabel(ref: SourceRef): string {
+  return `${ref.file}:${ref.line}`;
+}
+
+/**
+ * Drop the lineage object, so import sheets keep the PRODUCE columns only
+ */
+export function stripLineage<T extends { lineage: Lineage }>(rows: T[]): Omit<T, 'lineage'>[] {
+  return rows.map(row => {
+    const copy: Partial<T> = { ...row };
+    delete copy.lineage;
+    return copy as Omit<T, 'lineage'>;
+  });
+}
+
+/**
+ * Lineage text of each row, keyed by its table and id (the opt-in Lineage sheet)
+ */
+export function lineageRows(
+  table: string,
+  rows: { id: number; lineage: Lineage }[]
+): { table: string; id: number; sources: string; steps: string }[] {
+  return rows.map(row => ({
+    table,
+    id: row.id,
+    sources: row.lineage.sources.map(sourceLabel).join(', '),
+    steps: row.lineage.steps.join('; '),
+  }));
+}
@@ -0,0 +1,91 @@
+import type { LocationMapping } from './types';
+
+/**
+ * Default Arc Flow location code → PRODUCE dbo.Locations.ID mapping
+ * Source: reference/sql-schema/data-analysis.md (Location ID Mapping)
+ */
+export const DEFAULT_LOCATION_MAPPINGS: LocationMapping[] = [
+  { code: 'KY01', locationId: 28, description: 'Main facility' },
+  { code: 'VA06', locationId: 29, description: 'Main facility' },
+  { code: 'OH08', locationId: 30 },
+  { code: 'VA05', locationId: 31 },
+  { code: 'MD05', locationId: 5 },
+  { code: 'VA07', locationId: 6 },
+  { code: 'NC04', locationId: 10 },
+  { code: 'NC03', locationId: 11 },
+  { code: 'MD03', locationId: 4 },
+  { code: 'NJ00', locationId: 7 },
+];
+
+/**
+ * Build a case-insensitive code → LocationID lookup
+ */
+export function buildLocationLookup(mappings: LocationMapping[]): Map<string, number> {
+  const lookup = new Map<string, number>();
+  for (const mapping of mappings) {
+    const code = mapping.code.trim().toUpperCase();
+    if (code && Number.isInteger(mapping.locationId)) {
+      lookup.set(code, mapping.locationId);
+    }
+  }
+  return lookup;
+}
+
+/**
+ * Resolve a location code through a lookup built by buildLocationLookup
+ */
+export function resolveLocationId(lookup: Map<string, number>, code: string): number | undefined {
+  return lookup.get(code.trim().toUpperCase());
+}
+
+/**
+ * List the non-empty location codes that have no mapping, sorted
+ */
+export function findUnmappedLocations(codes: Iterable<string>, mappings: LocationMapping[]): string[] {
+  const lookup = buildLocationLookup(mappings);
+  const unmapped = new Set<string>();
+  for (const code of codes) {
+    if (code.trim() && resolveLocationId(lookup, code) === undefined) {
+      unmapped.add(code.trim());
+    }
+  }
+  return [...unmapped].sort();
+}
+
+/**
+ * Parse a location mapping JSON file.
+ * Accepts either an array of { code, locationId, description? } or a { code: locationId } object.
+ */
+export function parseLocationMappings(json: string): LocationMapping[] {
+  const raw: unknown = JSON.parse(json);
+
+  const entries: unknown[] = Array.isArray(raw)
+    ? raw
+    : raw && typeof raw === 'object'
+      ? Object.entries(raw).map(([code, locationId]) => ({ code, locationId }))
+      : [];
+
+  if (entries.length === 0) {
+    throw new Error('Location mapping file contains no mappings');
+  }
+
+  return entries.map((entry, idx) => {
+    const item = entry as Partial<LocationMapping>;
+    const locationId = Number(item.locationId);
+    if (typeof item.code !== 'string' || !item.code.trim() || !Number.isInteger(locationId)) {
+      throw new Error(`Invalid location mapping at index ${idx}: expected { code, locationId }`);
+    }
+    return {
+      code: item.code.trim().toUpperCase(),
+      locationId,
+      ...(item.description ? { description: String(item.description) } : {}),
+    };
+  });
+}
+
+/**
+ * Serialize mappings for saving / download
+ */
+export function serializeLocationMappings(mappings: LocationMapping[]): string {
+  return JSON.stringify(mappings, null, 2);
+}
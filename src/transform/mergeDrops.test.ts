@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { mergeArcFlowFiles, snapshotDate } from './mergeDrops';
+import type { ProductionPreference } from './types';
+
+function preference(schemeCode: string, activitySchemeCode = 'ACT-1', line = 2): ProductionPreference {
+  return {
+    productionItemNo: 'PI-1',
+    variantCode: 'V1',
+    locationCode: 'OH08',
+    schemeCode,
+    activitySchemeCode,
+    addActivitySchemeCode: '',
+    source: { kind: 'preference', file: 'ProductionPreferences.csv', line },
+  };
+}
+
+describe('snapshotDate', () => {
+  it('reads the YYMMDD suffix of the file name', () => {
+    expect(snapshotDate('ProductionScheme260203.csv')).toBe('2026-02-03');
+    expect(snapshotDate('ProductionScheme_OH_251230.csv')).toBe('2025-12-30');
+  });
+
+  it('ignores numbers that are not dates', () => {
+    expect(snapshotDate('ProductionScheme.csv')).toBeNull();
+    expect(snapshotDate('ProductionScheme261340.csv')).toBeNull();
+    expect(snapshotDate('ProductionScheme1260203.csv')).toBeNull();
+  });
+});
+
+describe('mergeArcFlowFiles', () => {
+  it('drops identical rows from later files as duplicates', () => {
+    const merged = mergeArcFlowFiles('preferences', [
+      { name: 'East.csv', rows: [preference('BN-012PANN-BEG-LSP')] },
+      { name: 'West.csv', rows: [preference('BN-012PANN-BEG-LSP', 'ACT-1', 9)] },
+    ], 'concat');
+    expect(merged.rows).toHaveLength(1);
+    expect(merged.contributions.map(c => c.status)).toEqual(['kept', 'duplicate']);
+    expect(merged.conflicts).toEqual([]);
+  });
+
+  it('keeps the first row and reports a conflict when a later file differs', () => {
+    const merged = mergeArcFlowFiles('preferences', [
+      { name: 'East.csv', rows: [preference('BN-012PANN-BEG-LSP', 'ACT-1')] },
+      { name: 'West.csv', rows: [preference('BN-012PANN-BEG-LSP', 'ACT-2', 9)] },
+    ], 'concat');
+    expect(merged.rows.map(r => r.activitySchemeCode)).toEqual(['ACT-1']);
+    expect(merged.conflicts).toEqual([expect.objectContaining({
+      keptFile: 'East.csv',
+      droppedFile: 'West.csv',
+      droppedLine: 9,
+      differences: 'activitySchemeCode: ACT-1 → ACT-2',
+    })]);
+  });
+
+  it('does not treat one item grown under two schemes as a conflict', () => {
+    const merged = mergeArcFlowFiles('preferences', [
+      { name: 'East.csv', rows: [preference('BN-012PANN-BEG-LEU')] },
+      { name: 'West.csv', rows: [preference('BN-012PANN-BEG-MON')] },
+    ], 'concat');
+    expect(merged.rows).toHaveLength(2);
+    expect(merged.conflicts).toEqual([]);
+  });
+
+  it('never deduplicates rows within one file', () => {
+    const merged = mergeArcFlowFiles('preferences', [
+      { name: 'East.csv', rows: [preference('S', 'ACT-1'), preference('S', 'ACT-2')] },
+    ], 'concat');
+    expect(merged.rows).toHaveLength(2);
+  });
+
+  it('lets the latest snapshot take over its keys in latest mode', () => {
+    const merged = mergeArcFlowFiles('preferences', [
+      { name: 'ProductionPreferences260210.csv', rows: [preference('S', 'NEW')] },
+      { name: 'ProductionPreferences260203.csv', rows: [preference('S', 'OLD'), preference('T', 'ONLY-OLD')] },
+    ], 'latest');
+    expect(merged.rows.map(r => r.activitySchemeCode)).toEqual(['ONLY-OLD', 'NEW']);
+    expect(merged.conflicts).toEqual([]);
+    expect(merged.files.map(f => [f.file, f.kept, f.overridden])).toEqual([
+      ['ProductionPreferences260210.csv', 1, 0],
+      ['ProductionPreferences260203.csv', 1, 1],
+    ]);
+  });
+});
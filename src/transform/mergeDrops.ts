@@ -0,0 +1,195 @@
+/**
+ * Merge several files of the same Arc Flow export (per-region exports, or
+ * successive weekly drops) into one set of rows, recording which file each
+ * row came from.
+ */
+import type {
+  ArcFlowFileKind,
+  ArcFlowMergeMode,
+  MergeConflict,
+  MergeContribution,
+  MergeFileSummary,
+  MergeReport,
+  ParsedData,
+  SourceRef,
+} from './types';
+import { ARC_FLOW_FILE_LABELS } from './arcFlowFiles';
+
+type ArcFlowRow<K extends ArcFlowFileKind> = ParsedData[K][number];
+
+// Natural key of a row: rows from different files with the same key describe the same thing
+const MERGE_KEYS: { [K in ArcFlowFileKind]: (row: ArcFlowRow<K>) => string } = {
+  schemes: row => row.code,
+  schemeLines: row => `${row.schemeCode}|${row.lineNo}`,
+  schemeLinePeriods: row => `${row.schemeCode}|${row.lineNo}|${row.periodNo}`,
+  // One item / variant / location can be grown under several schemes (e.g. -LEU and -MON)
+  preferences: row => `${row.productionItemNo}|${row.variantCode}|${row.locationCode}|${row.schemeCode}`,
+};
+
+export const MERGE_MODE_LABELS: Record<ArcFlowMergeMode, string> = {
+  concat: 'Combine all files',
+  latest: 'Latest snapshot wins',
+};
+
+/**
+ * Snapshot date from an Arc Flow file name suffix (YYMMDD, e.g.
+ * ProductionScheme260203.csv → 2026-02-03), or null when there is none
+ */
+export function snapshotDate(fileName: string): string | null {
+  const matches = [...fileName.matchAll(/(?<!\d)(\d{2})(\d{2})(\d{2})(?!\d)/g)];
+  for (const match of matches.reverse()) {
+    const [, yy, mm, dd] = match;
+    if (Number(mm) >= 1 && Number(mm) <= 12 && Number(dd) >= 1 && Number(dd) <= 31) {
+      return `20${yy}-${mm}-${dd}`;
+    }
+  }
+  return null;
+}
+
+// Undated files count as older than any dated one
+function compareSnapshots(a: string | null, b: string | null): number {
+  return (a ?? '').localeCompare(b ?? '');
+}
+
+function rowValues(row: object): [string, unknown][] {
+  return Object.entries(row).filter(([field]) => field !== 'source');
+}
+
+function rowSignature(row: object): string {
+  return JSON.stringify(rowValues(row));
+}
+
+function describeDifferences(kept: object, dropped: object): string {
+  const keptValues = new Map(rowValues(kept));
+  return rowValues(dropped)
+    .filter(([field, value]) => String(keptValues.get(field)) !== String(value))
+    .map(([field, value]) => `${field}: ${String(keptValues.get(field))} → ${String(value)}`)
+    .join('; ');
+}
+
+/**
+ * Merge the rows of several files of one export.
+ * Rows of a single file are never deduplicated against each other; only
+ * rows sharing a natural key across files are. In 'latest' mode a file with
+ * a later date suffix takes over every key it contains.
+ */
+export function mergeArcFlowFiles<K extends ArcFlowFileKind>(
+  kind: K,
+  files: { name: string; rows: ArcFlowRow<K>[] }[],
+  mode: ArcFlowMergeMode
+): { rows: ArcFlowRow<K>[]; files: MergeFileSummary[]; conflicts: MergeConflict[]; contributions: MergeContribution[] } {
+  const keyOf = MERGE_KEYS[kind] as (row: ArcFlowRow<K>) => string;
+  const dated = files.map(file => ({ ...file, snapshot: snapshotDate(file.name) }));
+  const ordered = mode === 'latest'
+    ? [...dated].sort((a, b) => compareSnapshots(a.snapshot, b.snapshot))
+    : dated;
+
+  const entries: { row: ArcFlowRow<K>; contribution: MergeContribution }[] = [];
+  const owners = new Map<string, { file: string; snapshot: string | null; entries: typeof entries }>();
+  const conflicts: MergeConflict[] = [];
+
+  for (const file of ordered) {
+    for (const row of file.rows) {
+      const key = keyOf(row);
+      const source = (row as { source?: SourceRef }).source;
+      const contribution: MergeContribution = { kind, key, file: file.name, line: source?.line ?? 0, status: 'kept' };
+      const entry = { row, contribution };
+      entries.push(entry);
+
+      const owner = owners.get(key);
+      if (!owner || owner.file === file.name) {
+        if (owner) owner.entries.push(entry);
+        else owners.set(key, { file: file.name, snapshot: file.snapshot, entries: [entry] });
+        continue;
+      }
+
+      if (mode === 'latest' && compareSnapshots(file.snapshot, owner.snapshot) > 0) {
+        for (const replaced of owner.entries) replaced.contribution.status = 'overridden';
+        owners.set(key, { file: file.name, snapshot: file.snapshot, entries: [entry] });
+        continue;
+      }
+
+      const signature = rowSignature(row);
+      if (owner.entries.some(e => rowSignature(e.row) === signature)) {
+        contribution.status = 'duplicate';
+        continue;
+      }
+
+      contribution.status = 'conflict';
+      const kept = owner.entries[0];
+      conflicts.push({
+        kind,
+        key,
+        keptFile: kept.contribution.file,
+        keptLine: kept.contribution.line,
+        droppedFile: file.name,
+        droppedLine: contribution.line,
+        differences: describeDifferences(kept.row, row),
+      });
+    }
+  }
+
+  const contributions = entries.map(e => e.contribution);
+  const summaries: MergeFileSummary[] = dated.map(file => {
+    const fromFile = contributions.filter(c => c.file === file.name);
+    return {
+      kind,
+      file: file.name,
+      snapshot: file.snapshot,
+      rows: fromFile.length,
+      kept: fromFile.filter(c => c.status === 'kept').length,
+      duplicates: fromFile.filter(c => c.status === 'duplicate').length,
+      overridden: fromFile.filter(c => c.status === 'overridden').length,
+      conflicts: fromFile.filter(c => c.status === 'conflict').length,
+    };
+  });
+
+  return {
+    rows: entries.filter(e => e.contribution.status === 'kept').map(e => e.row),
+    files: summaries,
+    conflicts,
+    contributions,
+  };
+}
+
+/**
+ * One line per merged export, e.g. "ProductionPreferences: 3 files, 1,204 duplicate(s), 2 conflict(s)"
+ */
+export function describeMerge(report: MergeReport): string[] {
+  const kinds = [...new Set(report.files.map(f => f.kind))];
+  return kinds.map(kind => {
+    const files = report.files.filter(f => f.kind === kind);
+    const total = (field: 'kept' | 'duplicates' | 'overridden' | 'conflicts') =>
+      files.reduce((sum, f) => sum + f[field], 0);
+    return `${ARC_FLOW_FILE_LABELS[kind]}: ${files.length} files, ${total('kept').toLocaleString()} row(s) kept, ` +
+      `${total('duplicates').toLocaleString()} duplicate(s), ${total('overridden').toLocaleString()} overridden, ` +
+      `${total('conflicts').toLocaleString()} conflict(s)`;
+  });
+}
+
+/**
+ * Row contribution report: which file and line each merged row came from and what happened to it
+ */
+export function exportMergeReportCSV(report: MergeReport): string {
+  const escape = (value: string) =>
+    /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+  const conflictNotes = new Map(report.conflicts.map(c => [
+    `${c.droppedFile}|${c.droppedLine}`,
+    `differs from ${c.keptFile}:${c.keptLine} (${c.differences})`,
+  ]));
+
+  const header = ['Export', 'Key', 'File', 'Line', 'Status', 'Note'].join(',');
+  const rows = report.contributions.map(c =>
+    [
+      ARC_FLOW_FILE_LABELS[c.kind],
+      c.key,
+      c.file,
+      String(c.line),
+      c.status,
+      c.status === 'conflict' ? conflictNotes.get(`${c.file}|${c.line}`) ?? '' : '',
+    ].map(escape).join(',')
+  );
+
+  return [header, ...rows].join('\n');
+}
@@ -0,0 +1,186 @@
+import type {
+  ParsedData,
+  Recipe,
+  RecipeMix,
+  MixAllocationStatus,
+  MixWeekAudit,
+  UnlinkedMixRow,
+  MixAuditReport,
+} from './types';
+import { buildRecipeLookup } from './recipeLookup';
+import type { RecipeLookup } from './recipeLookup';
+
+/** Allowed deviation from 100% before a week is flagged (same as the VBA audits) */
+const MIX_SUM_TOLERANCE = 0.01;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function allocationStatus(sumPct: number): MixAllocationStatus {
+  if (Math.abs(sumPct - 100) <= MIX_SUM_TOLERANCE) return 'OK';
+  return sumPct > 100 ? 'OVER' : 'UNDER';
+}
+
+/**
+ * Sum mix percentages per location + common item + week, for both the
+ * 4M Variant Mixes input and the generated mixes.
+ *
+ * VBA equivalent: AuditCommonItemWeeks
+ */
+function auditWeeks(data: ParsedData, mixes: RecipeMix[]): MixWeekAudit[] {
+  const sums = new Map<string, MixWeekAudit>();
+
+  const entryFor = (location: string, commonItem: string, week: number): MixWeekAudit => {
+    const key = `${location}|${commonItem}|${week}`;
+    let entry = sums.get(key);
+    if (!entry) {
+      entry = { location, commonItem, week, sourcePct: 0, linkedPct: 0, status: 'OK' };
+      sums.set(key, entry);
+    }
+    return entry;
+  };
+
+  for (const mixRow of data.mixRows) {
+    for (const [week, pct] of mixRow.weeklyPcts) {
+      entryFor(mixRow.location, mixRow.commonItem, week).sourcePct += pct;
+    }
+  }
+
+  for (const mix of mixes) {
+    for (let week = mix.startWeek; week <= mix.endWeek; week++) {
+      entryFor(mix.location, mix.commonItem, week).linkedPct += mix.mixPct;
+    }
+  }
+
+  const weeks = Array.from(sums.values()).map(entry => ({
+    ...entry,
+    sourcePct: round2(entry.sourcePct),
+    linkedPct: round2(entry.linkedPct),
+    status: allocationStatus(entry.linkedPct),
+  }));
+
+  return weeks.sort((a, b) =>
+    a.location.localeCompare(b.location) ||
+    a.commonItem.localeCompare(b.commonItem) ||
+    a.week - b.week
+  );
+}
+
+/**
+ * Find mix input rows (or weeks of them) that did not become a linked mix.
+ * A row is unlinked when no recipe covers the week, or when it linked to a
+ * recipe but no catalog matched its variant.
+ *
+ * VBA equivalent: AuditUnlinkedMixRows
+ */
+function auditUnlinkedRows(data: ParsedData, recipes: Recipe[], mixes: RecipeMix[], lookup: RecipeLookup): UnlinkedMixRow[] {
+  const unlinkedRows: UnlinkedMixRow[] = [];
+  const seriesByRecipe = new Map(recipes.map(r => [r.id, r.series]));
+
+  // Weeks covered by generated mixes, per location|commonItem|productionItem|variant
+  const coveredWeeks = new Map<string, Set<number>>();
+  const noCatalog = new Map<string, RecipeMix[]>();
+
+  for (const mix of mixes) {
+    const key = `${mix.location}|${mix.commonItem}|${seriesByRecipe.get(mix.recipeId) ?? ''}|${mix.variant}`;
+    const covered = coveredWeeks.get(key) || new Set<number>();
+    for (let week = mix.startWeek; week <= mix.endWeek; week++) covered.add(week);
+    coveredWeeks.set(key, covered);
+
+    if (!mix.catalogId) {
+      const existing = noCatalog.get(key) || [];
+      existing.push(mix);
+      noCatalog.set(key, existing);
+    }
+  }
+
+  for (const mixRow of data.mixRows) {
+    const key = `${mixRow.location}|${mixRow.commonItem}|${mixRow.productionItem}|${mixRow.variantCode}`;
+    const covered = coveredWeeks.get(key);
+    const uncovered = Array.from(mixRow.weeklyPcts.keys())
+      .filter(week => !covered?.has(week))
+      .sort((a, b) => a - b);
+
+    if (uncovered.length > 0) {
+      const recipe = lookup.find(mixRow.location, mixRow.productionItem, uncovered[0]);
+      if (!recipe) {
+        unlinkedRows.push({
+          location: mixRow.location,
+          commonItem: mixRow.commonItem,
+          productionItem: mixRow.productionItem,
+          variant: mixRow.variantCode,
+          firstWeek: uncovered[0],
+          unlinkedWeeks: uncovered.length,
+          reason: 'No recipe in range',
+        });
+      }
+    }
+
+    const catalogMisses = noCatalog.get(key);
+    if (catalogMisses) {
+      unlinkedRows.push({
+        location: mixRow.location,
+        commonItem: mixRow.commonItem,
+        productionItem: mixRow.productionItem,
+        variant: mixRow.variantCode,
+        firstWeek: Math.min(...catalogMisses.map(m => m.startWeek)),
+        unlinkedWeeks: catalogMisses.reduce((sum, m) => sum + m.endWeek - m.startWeek + 1, 0),
+        reason: 'No catalog match',
+        recipeIdTried: catalogMisses[0].recipeId,
+      });
+      noCatalog.delete(key);
+    }
+  }
+
+  return unlinkedRows;
+}
+
+/**
+ * Recipes for a location + production item that appears in the mix data,
+ * but that no generated mix links to.
+ *
+ * VBA equivalent: AuditMixLinks (reverse direction)
+ */
+function findOrphanRecipes(data: ParsedData, recipes: Recipe[], mixes: RecipeMix[]): Recipe[] {
+  const mixedItems = new Set(data.mixRows.map(row => `${row.location}|${row.productionItem}`));
+  const linkedRecipeIds = new Set(mixes.map(mix => mix.recipeId));
+
+  return recipes.filter(recipe =>
+    mixedItems.has(`${recipe.locationCode}|${recipe.series}`) && !linkedRecipeIds.has(recipe.id)
+  );
+}
+
+/**
+ * Audit generated mixes against the 4M Variant Mixes input
+ */
+export function auditMixes(
+  data: ParsedData,
+  recipes: Recipe[],
+  mixes: RecipeMix[],
+  lookup: RecipeLookup = buildRecipeLookup(recipes)
+): MixAuditReport {
+  if (data.mixRows.length === 0) {
+    return { weeks: [], unlinkedRows: [], orphanRecipes: [] };
+  }
+
+  return {
+    weeks: auditWeeks(data, mixes),
+    unlinkedRows: auditUnlinkedRows(data, recipes, mixes, lookup),
+    orphanRecipes: findOrphanRecipes(data, recipes, mixes),
+  };
+}
+
+/**
+ * Weeks whose linked mix total is not 100%
+ */
+export function misallocatedWeeks(report: MixAuditReport): MixWeekAudit[] {
+  return report.weeks.filter(week => week.status !== 'OK');
+}
+
+/**
+ * Total number of audit findings (misallocated weeks + unlinked rows + orphan recipes)
+ */
+export function countMixAuditIssues(report: MixAuditReport): number {
+  return misallocatedWeeks(report).length + report.unlinkedRows.length + report.orphanRecipes.length;
+}
@@ -12,7 +12,7 @@ import type { MixRow } from './types';
  * - Column E: Variant Code
  * - Columns F onwards: Week percentages (header row has week numbers)
  */
-export function parseMixExcel(data: ArrayBuffer): MixRow[] {
+export function parseMixExcel(data: ArrayBuffer, fileName = '4M Variant Mixes.xlsx'): MixRow[] {
   const workbook = XLSX.read(data, { type: 'array' });
 
   // Get first sheet (or sheet named "MixData" if it exists)
@@ -26,7 +26,9 @@ export function parseMixExcel(data: ArrayBuffer): MixRow[] {
   }
 
   // Convert to array of arrays
-  const rows: unknown[][] = XLSX.utils.sheet_to_json(sheet, { header: 1 });
+  // Keep blank rows so array index + first sheet row = Excel row number (for lineage)
+  const rows: unknown[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, blankrows: true });
+  const firstRow = sheet['!ref'] ? XLSX.utils.decode_range(sheet['!ref']).s.r + 1 : 1;
 
   if (rows.length < 2) {
     return [];
@@ -86,6 +88,7 @@ export function parseMixExcel(data: ArrayBuffer): MixRow[] {
         productionItem,
         variantCode,
         weeklyPcts,
+        source: { kind: 'mix', file: `${fileName} [${sheetName}]`, line: firstRow + i },
       });
     }
   }
@@ -0,0 +1,98 @@
+import type { PhaseMergeAction, PhaseMergeRule } from './types';
+
+export const PHASE_MERGE_LABELS: Record<PhaseMergeAction, string> = {
+  merge: 'Merge into grow weeks',
+  standalone: 'Standalone space event',
+  ignore: 'Ignore',
+};
+
+/**
+ * Built-in handling when no rule matches: INVENTORY stays a space event of
+ * its own, every other non-GROW phase (SPACE, HANG, SHADE, ...) is summed
+ * into the recipe grow weeks (the original MergeGrowAndSpace behaviour)
+ */
+export function defaultPhaseAction(phase: string): PhaseMergeAction {
+  return phase === 'INVENTORY' ? 'standalone' : 'merge';
+}
+
+/**
+ * Pick the rule for a scheme phase: a genus rule beats a category rule; no match → undefined
+ */
+export function resolvePhaseMergeRule(
+  rules: PhaseMergeRule[],
+  category: string,
+  genus: string,
+  phase: string
+): PhaseMergeRule | undefined {
+  const same = (a: string, b: string) => a.trim().toUpperCase() === b.trim().toUpperCase();
+  const forPhase = rules.filter(rule => same(rule.phase, phase));
+
+  return (
+    forPhase.find(rule => rule.scope === 'genus' && same(rule.value, genus)) ??
+    forPhase.find(rule => rule.scope === 'category' && same(rule.value, category))
+  );
+}
+
+/**
+ * Phase → action lookup for one scheme (GROW always counts as merged: it is the grow weeks)
+ */
+export function createPhaseActions(
+  rules: PhaseMergeRule[],
+  category: string,
+  genus: string
+): (phase: string) => { action: PhaseMergeAction; rule?: PhaseMergeRule } {
+  return phase => {
+    if (phase === 'GROW') return { action: 'merge' };
+    const rule = resolvePhaseMergeRule(rules, category, genus, phase);
+    return { action: rule?.action ?? defaultPhaseAction(phase), rule };
+  };
+}
+
+/**
+ * Label for lineage steps, e.g. "genus:BEGONIA HANG" or "default"
+ */
+export function describePhaseMergeRule(rule: PhaseMergeRule | undefined): string {
+  return rule ? `${rule.scope}:${rule.value} ${rule.phase}` : 'default';
+}
+
+/**
+ * Parse a phase merge rules JSON file (array of { scope, value, phase, action })
+ */
+export function parsePhaseMergeRules(json: string): PhaseMergeRule[] {
+  const raw: unknown = JSON.parse(json);
+  if (!Array.isArray(raw)) {
+    throw new Error('Phase merge rules file must contain an array of rules');
+  }
+
+  return raw.map((entry, idx) => {
+    const item = entry as Partial<PhaseMergeRule>;
+    if (item.scope !== 'category' && item.scope !== 'genus') {
+      throw new Error(`Invalid phase merge rule at index ${idx}: scope must be "category" or "genus"`);
+    }
+    if (typeof item.value !== 'string' || !item.value.trim()) {
+      throw new Error(`Invalid phase merge rule at index ${idx}: missing value`);
+    }
+    if (typeof item.phase !== 'string' || !item.phase.trim()) {
+      throw new Error(`Invalid phase merge rule at index ${idx}: missing phase`);
+    }
+    if (item.phase.trim().toUpperCase() === 'GROW') {
+      throw new Error(`Invalid phase merge rule at index ${idx}: GROW is always kept`);
+    }
+    if (!item.action || !Object.hasOwn(PHASE_MERGE_LABELS, item.action)) {
+      throw new Error(`Invalid phase merge rule at index ${idx}: unknown action "${String(item.action)}"`);
+    }
+    return {
+      scope: item.scope,
+      value: item.value.trim().toUpperCase(),
+      phase: item.phase.trim().toUpperCase(),
+      action: item.action,
+    };
+  });
+}
+
+/**
+ * Serialize rules for saving / download
+ */
+export function serializePhaseMergeRules(rules: PhaseMergeRule[]): string {
+  return JSON.stringify(rules, null, 2);
+}
@@ -0,0 +1,70 @@
+import type { Recipe, PlanCalendar } from './types';
+import { createPlanCalendar, describeWindow, windowContains, windowLength, windowWeeks } from './calendar';
+
+/**
+ * Recipes of one location + series, indexed by week
+ */
+interface RecipeWindows {
+  recipes: Recipe[]; // narrowest window first; ties keep recipe order
+  bestByWeek: Map<number, Recipe>;
+}
+
+export interface RecipeLookup {
+  /**
+   * Best recipe for a location, production item (series) and week:
+   * the narrowest week window that covers the week
+   *
+   * VBA equivalent: PickBestRecipe
+   */
+  find(location: string, productionItem: string, week: number): Recipe | undefined;
+  /**
+   * Every recipe whose window covers the week, best first
+   */
+  candidates(location: string, productionItem: string, week: number): Recipe[];
+}
+
+
+/**
+ * Index recipes by location + series, with the best recipe per week
+ * precomputed, so mix generation, wildcard detection and the mix audit
+ * look recipes up without scanning them all for every segment.
+ * Windows that wrap into the next year cover weeks at both ends of the year.
+ */
+export function buildRecipeLookup(recipes: Recipe[], calendar: PlanCalendar = createPlanCalendar()): RecipeLookup {
+  const width = (recipe: Recipe) => windowLength(calendar, recipe.startWeek, recipe.endWeek);
+
+  const index = new Map<string, RecipeWindows>();
+  for (const recipe of recipes) {
+    const key = `${recipe.locationCode}|${recipe.series}`;
+    const existing: RecipeWindows = index.get(key) || { recipes: [], bestByWeek: new Map() };
+    existing.recipes.push(recipe);
+    index.set(key, existing);
+  }
+
+  for (const windows of index.values()) {
+    windows.recipes.sort((a, b) => width(a) - width(b));
+    // Narrowest first: a week keeps the first recipe that claims it
+    for (const recipe of windows.recipes) {
+      for (const week of windowWeeks(calendar, recipe.startWeek, recipe.endWeek)) {
+        if (!windows.bestByWeek.has(week)) windows.bestByWeek.set(week, recipe);
+      }
+    }
+  }
+
+  return {
+    find: (location, productionItem, week) =>
+      index.get(`${location}|${productionItem}`)?.bestByWeek.get(week),
+    candidates: (location, productionItem, week) =>
+      (index.get(`${location}|${productionItem}`)?.recipes ?? [])
+        .filter(recipe => windowContains(recipe.startWeek, recipe.endWeek, week)),
+  };
+}
+
+/**
+ * Lineage step explaining why a recipe was picked for a week
+ */
+export function describeRecipePick(lookup: RecipeLookup, recipe: Recipe, location: string, productionItem: string, week: number): string {
+  const count = lookup.candidates(location, productionItem, week).length;
+  return `Recipe #${recipe.id} (${recipe.schemeCode}, weeks ${describeWindow(recipe.startWeek, recipe.endWeek)}): ` +
+    (count > 1 ? `narrowest of ${count} windows covering week ${week}` : `only window covering week ${week}`);
+}
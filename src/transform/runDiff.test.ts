@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { diffRuns, parseResultWorkbook } from './runDiff';
+import { buildDelta } from './delta';
+import { buildExcelWorkbook } from './exporter';
+import { emptyIdLedger } from './idLedger';
+import type { TransformResult, VariantMix } from './types';
+
+function result(recipeMixes: VariantMix[]): TransformResult {
+  return {
+    catalogs: [],
+    categories: [],
+    productionItems: [],
+    recipes: [],
+    events: [],
+    eventDefinitions: [],
+    eventDetails: [],
+    triggers: [],
+    recipeSpaceEvents: [],
+    specs: [],
+    mixes: [],
+    recipeMixes,
+    blnVariantMixes: [],
+    wildcardRecipes: [],
+    mixAudit: { weeks: [], unlinkedRows: [], orphanRecipes: [] },
+    idLedger: emptyIdLedger(),
+    errors: [],
+    warnings: [],
+  };
+}
+
+const baseline = result([
+  { recipeId: 1, catalogId: 10, mixPct: 60 },
+  { recipeId: 1, catalogId: 11, mixPct: 40 },
+  { recipeId: 2, catalogId: 10, mixPct: 100 },
+]);
+const current = result([
+  { recipeId: 1, catalogId: 10, mixPct: 50 },
+  { recipeId: 1, catalogId: 11, mixPct: 40 },
+  { recipeId: 1, catalogId: 12, mixPct: 10 },
+]);
+
+describe('diffRuns', () => {
+  it('lists added, removed and changed rows', () => {
+    const diff = diffRuns(current, baseline, ['recipeMixes']);
+    const byAction = Object.fromEntries(['added', 'removed', 'changed'].map(action =>
+      [action, diff.entries.filter(e => e.action === action).map(e => e.key)]
+    ));
+    expect(byAction).toEqual({ added: ['1|12'], removed: ['2|10'], changed: ['1|10'] });
+    expect(diff.entries.find(e => e.action === 'changed')?.changes).toBe('mixPct: 60 → 50');
+  });
+
+  it('finds no changes between a run and itself', () => {
+    expect(diffRuns(current, current).entries).toEqual([]);
+  });
+});
+
+describe('buildDelta', () => {
+  it('counts inserts, updates and deletes, deletes first', () => {
+    const [table] = buildDelta(current, baseline, 'previous run', ['recipeMixes']).tables;
+    expect([table.inserts, table.updates, table.deletes]).toEqual([1, 1, 1]);
+    expect(table.rows.map(r => r.action)).toEqual(['delete', 'update', 'insert']);
+    expect(table.rows[0].row).toMatchObject({ recipeId: '2', catalogId: '10' }); // baseline rows as compared (strings)
+  });
+});
+
+describe('parseResultWorkbook', () => {
+  it('reads the variant mix sheets back under their field names', () => {
+    const data = XLSX.write(buildExcelWorkbook(current), { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
+    const parsed = parseResultWorkbook(data);
+    expect(parsed.recipeMixes).toEqual(current.recipeMixes);
+    expect(diffRuns(current, parsed, ['recipeMixes']).entries).toEqual([]);
+  });
+
+  it('rejects a workbook without any export sheet', () => {
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([['a']]), 'Other');
+    expect(() => parseResultWorkbook(XLSX.write(wb, { type: 'array', bookType: 'xlsx' }))).toThrow(/Not a BLN export workbook/);
+  });
+});
@@ -0,0 +1,262 @@
+import * as XLSX from 'xlsx';
+import type { TransformResult, Recipe } from './types';
+import { compareRuns, getOutputData, parseComparisonFile, detectCompareType } from './comparator';
+import type { ComparisonResult, ComparisonRow } from './comparator';
+import { emptyIdLedger } from './idLedger';
+
+/** Output tables diffed between two runs (COMPARE_CONFIGS keys) */
+export const RUN_DIFF_TYPES = [
+  'catalogs',
+  'categories',
+  'productionItems',
+  'recipes',
+  'events',
+  'recipeSpaceEvents',
+  'specs',
+  'mixes',
+  'recipeMixes',
+  'blnVariantMixes',
+];
+
+/** Workbook sheet holding each diffed table (see buildExcelWorkbook) */
+export const RUN_DIFF_SHEETS: Record<string, string> = {
+  catalogs: 'Catalogs',
+  categories: 'Categories',
+  productionItems: 'ProductionItems',
+  recipes: 'Recipes',
+  events: 'Events',
+  recipeSpaceEvents: 'RecipeSpaceEvents',
+  specs: 'SpaceSpecs',
+  mixes: 'Mixes',
+  recipeMixes: 'RecipeMixes',
+  blnVariantMixes: 'BLNVariantMixes',
+};
+
+// The variant mix sheets carry the PRODUCE column names, not the field names
+const VARIANT_MIX_FIELDS: Record<string, string> = { RecipeID: 'recipeId', CatalogID: 'catalogId', MixPct: 'mixPct' };
+const SHEET_FIELDS: Record<string, Record<string, string>> = {
+  recipeMixes: VARIANT_MIX_FIELDS,
+  blnVariantMixes: VARIANT_MIX_FIELDS,
+};
+
+export type ChangeAction = 'added' | 'removed' | 'changed';
+
+// One line of the change log handed to the PRODUCE admins
+export interface ChangeLogEntry {
+  schemeCode: string; // '' for catalogs, which are not tied to a scheme
+  locationCode: string;
+  table: string;
+  action: ChangeAction;
+  key: string;
+  changes: string; // "growWeeks: 12 → 13; notes: … → …"
+}
+
+export interface RunDiffGroup {
+  schemeCode: string;
+  locationCode: string;
+  added: number;
+  removed: number;
+  changed: number;
+  entries: ChangeLogEntry[];
+}
+
+// A baseline read from uploaded files, with the tables the files actually held
+export interface ParsedBaseline {
+  result: TransformResult;
+  tables: string[];
+}
+
+export interface RunDiff {
+  tables: ComparisonResult[];
+  groups: RunDiffGroup[];
+  entries: ChangeLogEntry[];
+}
+
+/**
+ * Resolve the scheme code + location a compared row belongs to.
+ * Events, specs and mixes are placed through their recipe.
+ */
+function rowScope(row: Record<string, string>, recipesById: Map<string, Recipe>): { schemeCode: string; locationCode: string } {
+  const recipe = row.recipeId ? recipesById.get(row.recipeId) : undefined;
+  return {
+    schemeCode: recipe?.schemeCode ?? row.schemeCode ?? '',
+    locationCode: recipe?.locationCode ?? row.locationCode ?? row.location ?? '',
+  };
+}
+
+function describeChanges(row: ComparisonRow): string {
+  return row.diffs.map(d => `${d.field}: ${d.expected} → ${d.actual}`).join('; ');
+}
+
+/**
+ * Diff two transform results table by table and group the changes by
+ * scheme code and location. The baseline is the earlier run.
+ */
+export function diffRuns(current: TransformResult, baseline: TransformResult, types = RUN_DIFF_TYPES): RunDiff {
+  const currentRecipes = new Map(current.recipes.map(r => [String(r.id), r]));
+  const baselineRecipes = new Map(baseline.recipes.map(r => [String(r.id), r]));
+
+  const tables = types.map(type => compareRuns(current, baseline, type));
+  const entries: ChangeLogEntry[] = [];
+
+  for (const table of tables) {
+    for (const row of table.rows) {
+      if (row.status === 'matched') continue;
+
+      // Removed rows only exist in the baseline, so resolve them there
+      const scope = row.status === 'removed'
+        ? rowScope(row.compareRow ?? {}, baselineRecipes)
+        : rowScope(row.sourceRow ?? {}, currentRecipes);
+
+      entries.push({
+        ...scope,
+        table: table.dataType,
+        action: row.status,
+        key: row.key,
+        changes: describeChanges(row),
+      });
+    }
+  }
+
+  const groupMap = new Map<string, RunDiffGroup>();
+  for (const entry of entries) {
+    const groupKey = `${entry.schemeCode}|${entry.locationCode}`;
+    let group = groupMap.get(groupKey);
+    if (!group) {
+      group = { schemeCode: entry.schemeCode, locationCode: entry.locationCode, added: 0, removed: 0, changed: 0, entries: [] };
+      groupMap.set(groupKey, group);
+    }
+    group[entry.action]++;
+    group.entries.push(entry);
+  }
+
+  const groups = Array.from(groupMap.values()).sort((a, b) =>
+    a.schemeCode.localeCompare(b.schemeCode) || a.locationCode.localeCompare(b.locationCode)
+  );
+
+  return {
+    tables,
+    groups,
+    entries: groups.flatMap(g => g.entries),
+  };
+}
+
+/**
+ * Change log CSV (one line per added / removed / changed row), grouped by scheme and location
+ */
+export function exportChangeLogCSV(diff: RunDiff): string {
+  const escape = (value: string) =>
+    /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+  const header = ['SchemeCode', 'LocationCode', 'Table', 'Action', 'Key', 'Changes'].join(',');
+  const rows = diff.entries.map(e =>
+    [e.schemeCode, e.locationCode, e.table, e.action, e.key, e.changes].map(escape).join(',')
+  );
+
+  return [header, ...rows].join('\n');
+}
+
+function emptyResult(): TransformResult {
+  return {
+    catalogs: [],
+    categories: [],
+    productionItems: [],
+    recipes: [],
+    events: [],
+    eventDefinitions: [],
+    eventDetails: [],
+    triggers: [],
+    recipeSpaceEvents: [],
+    specs: [],
+    mixes: [],
+    recipeMixes: [],
+    blnVariantMixes: [],
+    wildcardRecipes: [],
+    mixAudit: { weeks: [], unlinkedRows: [], orphanRecipes: [] },
+    idLedger: emptyIdLedger(),
+    errors: [],
+    warnings: [],
+  };
+}
+
+/**
+ * Put rows read from a file into the matching table of a result
+ */
+function setTable(result: TransformResult, type: string, rows: Record<string, unknown>[]): void {
+  switch (type) {
+    case 'catalogs': result.catalogs = rows as unknown as TransformResult['catalogs']; break;
+    case 'categories': result.categories = rows as unknown as TransformResult['categories']; break;
+    case 'productionItems': result.productionItems = rows as unknown as TransformResult['productionItems']; break;
+    case 'recipes': result.recipes = rows as unknown as TransformResult['recipes']; break;
+    case 'events': result.events = rows as unknown as TransformResult['events']; break;
+    case 'recipeSpaceEvents': result.recipeSpaceEvents = rows as unknown as TransformResult['recipeSpaceEvents']; break;
+    case 'specs': result.specs = rows as unknown as TransformResult['specs']; break;
+    case 'mixes': result.mixes = rows as unknown as TransformResult['mixes']; break;
+    case 'recipeMixes': result.recipeMixes = rows as unknown as TransformResult['recipeMixes']; break;
+    case 'blnVariantMixes': result.blnVariantMixes = rows as unknown as TransformResult['blnVariantMixes']; break;
+  }
+}
+
+/**
+ * Read a previous run back from its Excel export (bln-export-*.xlsx) so it
+ * can be diffed. Only the tables in RUN_DIFF_TYPES are restored.
+ */
+export function parseResultWorkbook(data: ArrayBuffer): TransformResult {
+  const workbook = XLSX.read(data, { type: 'array' });
+  const present = RUN_DIFF_TYPES.filter(type => workbook.Sheets[RUN_DIFF_SHEETS[type]]);
+
+  if (present.length === 0) {
+    throw new Error(`Not a BLN export workbook: no ${Object.values(RUN_DIFF_SHEETS).join(', ')} sheet`);
+  }
+
+  const result = emptyResult();
+  for (const type of present) {
+    const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets[RUN_DIFF_SHEETS[type]], { defval: '' });
+    if (rows[0]?.action !== undefined) {
+      throw new Error('This is a delta workbook — upload a full BLN export instead');
+    }
+    const fields = SHEET_FIELDS[type];
+    setTable(result, type, fields
+      ? rows.map(row => Object.fromEntries(Object.entries(row).map(([header, value]) => [fields[header] ?? header, value])))
+      : rows);
+  }
+
+  return result;
+}
+
+/**
+ * Build a baseline from uploaded files: full BLN export workbooks and/or
+ * single-table PRODUCE extracts (CSV or Excel, table detected from the headers).
+ * Later files replace tables read from earlier ones.
+ */
+export function parseBaselineFiles(
+  files: { name: string; content?: string; excelData?: ArrayBuffer }[]
+): ParsedBaseline {
+  const result = emptyResult();
+  const tables = new Set<string>();
+
+  for (const file of files) {
+    if (file.excelData) {
+      const workbook = XLSX.read(file.excelData, { type: 'array' });
+      if (RUN_DIFF_TYPES.some(type => workbook.Sheets[RUN_DIFF_SHEETS[type]])) {
+        const parsed = parseResultWorkbook(file.excelData);
+        // A full export leaves out empty sheets, so every table counts as provided
+        for (const type of RUN_DIFF_TYPES) {
+          setTable(result, type, getOutputData(parsed, type));
+          tables.add(type);
+        }
+        continue;
+      }
+    }
+
+    const extract = parseComparisonFile(file);
+    const type = detectCompareType(extract.headers);
+    if (!type || !RUN_DIFF_TYPES.includes(type)) {
+      throw new Error(`${file.name}: could not tell which PRODUCE table this extract holds`);
+    }
+    setTable(result, type, extract.rows);
+    tables.add(type);
+  }
+
+  return { result, tables: RUN_DIFF_TYPES.filter(type => tables.has(type)) };
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { parseSchemeCode } from './schemeCode';
+
+describe('parseSchemeCode', () => {
+  it('reads a network scheme with a time profile', () => {
+    expect(parseSchemeCode('BN-012PANN-BEG-LSP')).toEqual({
+      prefix: 'BN',
+      prefixKind: 'network',
+      category: '012PANN',
+      genusAbbrev: 'BEG',
+      qualifiers: [],
+      timeProfile: 'LSP',
+      errors: [],
+    });
+  });
+
+  it('reads a site scheme without a time profile', () => {
+    const parts = parseSchemeCode('OH08-75INPLT-CLY');
+    expect(parts).toMatchObject({ prefix: 'OH08', prefixKind: 'site', category: '75INPLT', genusAbbrev: 'CLY', timeProfile: '' });
+    expect(parts.errors).toEqual([]);
+  });
+
+  it('reads the area suffix and qualifiers', () => {
+    expect(parseSchemeCode('BN-45INVIG-FUC-LSP-0.172')).toMatchObject({ timeProfile: 'LSP', areaSqFt: 0.172, errors: [] });
+    expect(parseSchemeCode('BN-06INANN-BEG-H-LSP')).toMatchObject({ genusAbbrev: 'BEG', qualifiers: ['H'], timeProfile: 'LSP' });
+  });
+
+  it('reads site-specific time profiles', () => {
+    expect(parseSchemeCode('CG-04INVEG-TOM-KY1SP')).toMatchObject({ prefixKind: 'grower', timeProfile: 'KY1SP' });
+  });
+
+  it('does not take a lone segment after the prefix for a time profile', () => {
+    expect(parseSchemeCode('BN-LSP')).toMatchObject({ timeProfile: '', errors: ['"LSP" is not a container / category'] });
+  });
+
+  it('treats codes without a dash as plain scheme ids', () => {
+    expect(parseSchemeCode('PS000001')).toMatchObject({ prefixKind: 'none', errors: [] });
+    expect(parseSchemeCode('  ').errors).toEqual(['empty scheme code']);
+  });
+
+  it('lists the problems of malformed codes', () => {
+    expect(parseSchemeCode('XYZ1-012PANN').errors).toEqual(['prefix "XYZ1" is not BN, a site code or a grower code']);
+    expect(parseSchemeCode('BN--BEG').errors).toContain('empty segment');
+    expect(parseSchemeCode('BN-012PANN-BEG-0.172').errors).toEqual(['area suffix without a time profile']);
+  });
+});
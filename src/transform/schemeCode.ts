@@ -0,0 +1,105 @@
+/**
+ * Arc Flow scheme code grammar.
+ *
+ *   code        = prefix "-" container [ "-" genus { "-" qualifier } ] [ "-" timeProfile ] [ "-" area ]
+ *   prefix      = "BN"                      network scheme
+ *               | site code, e.g. OH08      scheme owned by one site
+ *               | grower code, e.g. CG      two-letter grower / program code
+ *   container   = container + category, e.g. 012PANN, 04INVEG, 1GALPER, PT072
+ *   genus       = genus abbreviation, e.g. BEG, FUC
+ *   timeProfile = LSP | MSP | SSP | LHN | MHN | SHN | LPT | MPT | SPT | SHD,
+ *                 or a site-specific profile such as KY1SP
+ *   area        = sq ft per plant, a decimal number such as 0.172
+ *
+ * Examples: BN-012PANN-BEG-LSP, OH08-75INPLT-CLY, BN-45INVIG-FUC-LSP-0.172,
+ * BN-06INANN-BEG-H-LSP (qualifier H). Codes without a dash (PS000001,
+ * STD_PS_4000001) are plain scheme ids with no structure.
+ */
+import type { SchemeCodeParts } from './types';
+
+/** Standard time profiles: Long / Medium / Short × spring, hanging, pot, shade */
+export const TIME_PROFILES = ['LSP', 'MSP', 'SSP', 'LHN', 'MHN', 'SHN', 'LPT', 'MPT', 'SPT', 'SHD'];
+
+const SITE_PREFIX = /^[A-Z]{2}\d{2}$/;
+const GROWER_PREFIX = /^[A-Z]{2}$/;
+const SITE_TIME_PROFILE = /^[A-Z]{2}\d(SP|HN|PT)$/; // e.g. KY1SP, VA7SP
+const SEGMENT = /^[A-Z0-9.]+$/;
+const AREA = /^\d*\.\d+$/;
+
+export function isTimeProfile(segment: string): boolean {
+  return TIME_PROFILES.includes(segment) || SITE_TIME_PROFILE.test(segment);
+}
+
+/**
+ * Parse a scheme code into its parts. Problems are listed in `errors`;
+ * the parts that could be read are still filled in.
+ */
+export function parseSchemeCode(code: string): SchemeCodeParts {
+  const parts: SchemeCodeParts = {
+    prefix: '',
+    prefixKind: 'none',
+    category: '',
+    genusAbbrev: '',
+    qualifiers: [],
+    timeProfile: '',
+    errors: [],
+  };
+  const trimmed = code.trim();
+  if (!trimmed.includes('-')) {
+    if (!trimmed) parts.errors.push('empty scheme code');
+    else if (/\s/.test(trimmed)) parts.errors.push('contains spaces');
+    return parts;
+  }
+
+  const segments = trimmed.toUpperCase().split('-');
+  if (segments.some(s => !s.trim())) parts.errors.push('empty segment');
+  const invalid = segments.filter(s => s.trim() && !SEGMENT.test(s));
+  if (invalid.length > 0) parts.errors.push(`unexpected characters in ${invalid.map(s => `"${s}"`).join(', ')}`);
+
+  // Prefix
+  parts.prefix = segments[0];
+  if (parts.prefix === 'BN') parts.prefixKind = 'network';
+  else if (SITE_PREFIX.test(parts.prefix)) parts.prefixKind = 'site';
+  else if (GROWER_PREFIX.test(parts.prefix)) parts.prefixKind = 'grower';
+  else parts.errors.push(`prefix "${parts.prefix}" is not BN, a site code or a grower code`);
+
+  // Area suffix, then time profile, from the end
+  const rest = segments.slice(1);
+  if (rest.length > 1 && AREA.test(rest[rest.length - 1])) {
+    parts.areaSqFt = Number(rest.pop());
+  }
+  const last = rest[rest.length - 1];
+  if (rest.length > 1 && isTimeProfile(last)) {
+    parts.timeProfile = last;
+    rest.pop();
+  } else if (parts.areaSqFt !== undefined) {
+    parts.errors.push('area suffix without a time profile');
+  }
+
+  // Container / category, genus abbreviation and qualifiers
+  const [category, genusAbbrev, ...qualifiers] = rest;
+  parts.category = category ?? '';
+  parts.genusAbbrev = genusAbbrev ?? '';
+  parts.qualifiers = qualifiers;
+  if (!parts.category) parts.errors.push('missing container / category');
+  else if (AREA.test(parts.category) || isTimeProfile(parts.category)) {
+    parts.errors.push(`"${parts.category}" is not a container / category`);
+  }
+
+  return parts;
+}
+
+/**
+ * "prefix BN (network), category 012PANN, genus BEG, time profile LSP" for lineage
+ */
+export function describeSchemeCode(parts: SchemeCodeParts): string {
+  if (parts.prefixKind === 'none') return 'plain scheme id (no prefix, category or time profile)';
+  return [
+    `prefix ${parts.prefix} (${parts.prefixKind})`,
+    `category ${parts.category || '(none)'}`,
+    `genus ${parts.genusAbbrev || '(none)'}`,
+    ...(parts.qualifiers.length > 0 ? [`qualifier ${parts.qualifiers.join('-')}`] : []),
+    `time profile ${parts.timeProfile || '(none)'}`,
+    ...(parts.areaSqFt !== undefined ? [`area ${parts.areaSqFt} sq ft`] : []),
+  ].join(', ');
+}
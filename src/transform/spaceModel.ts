@@ -0,0 +1,132 @@
+import type { SpaceModelKind, SpaceModelRule } from './types';
+
+/** PRODUCE default space: 12" × 12" */
+export const DEFAULT_SPACE_DIMENSION = 12;
+
+export const SPACE_MODEL_LABELS: Record<SpaceModelKind, string> = {
+  square: 'Square from area',
+  fixedWidth: 'Fixed width, derived length',
+  stagger: 'Staggered rows',
+  default: 'Default 12×12',
+};
+
+/** Model used when no category or genus rule matches */
+export const DEFAULT_SPACE_MODEL: SpaceModelKind = 'square';
+
+/**
+ * Width and length (inches) for one plant from Arc Flow Qty per Area (plants per sq ft).
+ * Area per plant = 144 / qtyPerArea sq in, so the square side is 12 × SQRT(1 / Qty_per_Area)
+ * (e.g. 1.92 → 8.660254038, matching SpacePlanning.Specs).
+ * Falls back to the 12×12 default when the quantity is missing or the model needs data it lacks.
+ */
+export function computeSpaceDimensions(
+  model: SpaceModelKind,
+  qtyPerArea: number,
+  fixedWidth?: number
+): { spaceWidth: number; spaceLength: number; stagger: boolean; model: SpaceModelKind; formula: string } {
+  const fallback = (reason: string) => ({
+    spaceWidth: DEFAULT_SPACE_DIMENSION,
+    spaceLength: DEFAULT_SPACE_DIMENSION,
+    stagger: false,
+    model: 'default' as const,
+    formula: `default 12 × 12 (${reason})`,
+  });
+  if (model === 'default') return fallback('default model');
+  if (!(qtyPerArea > 0)) return fallback('no Qty per Area');
+
+  const areaPerPlant = 144 / qtyPerArea;
+
+  switch (model) {
+    case 'square': {
+      const side = Math.sqrt(areaPerPlant);
+      return { spaceWidth: side, spaceLength: side, stagger: false, model, formula: `12 × √(1/${qtyPerArea}) = ${side.toFixed(3)}` };
+    }
+    case 'fixedWidth': {
+      if (!fixedWidth || fixedWidth <= 0) return fallback('no fixed width');
+      const length = areaPerPlant / fixedWidth;
+      return {
+        spaceWidth: fixedWidth,
+        spaceLength: length,
+        stagger: false,
+        model,
+        formula: `width ${fixedWidth}, length 144/${qtyPerArea}/${fixedWidth} = ${length.toFixed(3)}`,
+      };
+    }
+    case 'stagger': {
+      // Offset rows: row spacing is width × √3/2, so width² × √3/2 = area per plant
+      const width = Math.sqrt((2 * areaPerPlant) / Math.sqrt(3));
+      const length = (width * Math.sqrt(3)) / 2;
+      return {
+        spaceWidth: width,
+        spaceLength: length,
+        stagger: true,
+        model,
+        formula: `staggered: width √(2 × 144/${qtyPerArea} / √3) = ${width.toFixed(3)}, row spacing width × √3/2 = ${length.toFixed(3)}`,
+      };
+    }
+  }
+}
+
+/**
+ * Pick the rule for a recipe: a genus rule beats a category rule; no match → undefined
+ */
+export function resolveSpaceModelRule(
+  rules: SpaceModelRule[],
+  category: string,
+  genus: string
+): SpaceModelRule | undefined {
+  const matches = (rule: SpaceModelRule, value: string) =>
+    rule.value.trim().toUpperCase() === value.trim().toUpperCase();
+
+  return (
+    rules.find(rule => rule.scope === 'genus' && matches(rule, genus)) ??
+    rules.find(rule => rule.scope === 'category' && matches(rule, category))
+  );
+}
+
+/**
+ * Label recorded on each SpaceSpec for the rule that produced it
+ */
+export function describeSpaceModelRule(rule: SpaceModelRule | undefined): string {
+  return rule ? `${rule.scope}:${rule.value}` : 'default';
+}
+
+/**
+ * Parse a space model rules JSON file (array of { scope, value, model, fixedWidth? })
+ */
+export function parseSpaceModelRules(json: string): SpaceModelRule[] {
+  const raw: unknown = JSON.parse(json);
+  if (!Array.isArray(raw)) {
+    throw new Error('Space model rules file must contain an array of rules');
+  }
+
+  return raw.map((entry, idx) => {
+    const item = entry as Partial<SpaceModelRule>;
+    if (item.scope !== 'category' && item.scope !== 'genus') {
+      throw new Error(`Invalid space model rule at index ${idx}: scope must be "category" or "genus"`);
+    }
+    if (typeof item.value !== 'string' || !item.value.trim()) {
+      throw new Error(`Invalid space model rule at index ${idx}: missing value`);
+    }
+    if (!item.model || !Object.hasOwn(SPACE_MODEL_LABELS, item.model)) {
+      throw new Error(`Invalid space model rule at index ${idx}: unknown model "${String(item.model)}"`);
+    }
+    const fixedWidth = item.fixedWidth === undefined ? undefined : Number(item.fixedWidth);
+    if (item.model === 'fixedWidth' && !(fixedWidth && fixedWidth > 0)) {
+      throw new Error(`Invalid space model rule at index ${idx}: fixedWidth model needs a positive fixedWidth`);
+    }
+    return {
+      scope: item.scope,
+      value: item.value.trim().toUpperCase(),
+      model: item.model,
+      ...(fixedWidth !== undefined ? { fixedWidth } : {}),
+    };
+  });
+}
+
+/**
+ * Serialize rules for saving / download
+ */
+export function serializeSpaceModelRules(rules: SpaceModelRule[]): string {
+  return JSON.stringify(rules, null, 2);
+}
@@ -0,0 +1,449 @@
+import type { TransformResult } from './types';
+import { SMALLINT_MIN, SMALLINT_MAX } from './variantMixes';
+import { spaceTypeFor } from './transformer';
+
+/**
+ * T-SQL import script generator for the PRODUCE database.
+ *
+ * The script loads our rows into temp tables keyed by our synthetic ids, then MERGEs them into
+ * the Import.recipes staging table and the final Setup / Events / SpacePlanning / dbo tables.
+ * Every foreign key (CategoryID, CatalogID, LocationID, RecipeID, EventID, TriggerID,
+ * SpaceCategoryID, SpaceTypeID) is resolved with a lookup subquery on natural keys, so the
+ * script is idempotent: running it twice leaves the database unchanged the second time.
+ * LocationID uses the mapped id from the location registry and only falls back to a lookup.
+ * Missing Events.Triggers rows are created from the transform's trigger table.
+ *
+ * Target tables are assumed to have IDENTITY primary keys.
+ */
+
+type SqlValue = string | number | boolean | null | undefined;
+
+interface TempColumn {
+  name: string;
+  type: string;
+}
+
+/** SQL Server allows at most 1000 rows per VALUES list */
+const INSERT_BATCH_SIZE = 1000;
+
+/**
+ * Format a value as a T-SQL literal
+ */
+function sqlLiteral(value: SqlValue): string {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'boolean') return value ? '1' : '0';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'NULL';
+  return `N'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * CREATE a temp table and fill it with batched INSERT ... VALUES statements
+ */
+function tempTable(name: string, columns: TempColumn[], rows: SqlValue[][]): string {
+  const lines: string[] = [
+    `IF OBJECT_ID('tempdb..${name}') IS NOT NULL DROP TABLE ${name};`,
+    `CREATE TABLE ${name} (${columns.map(c => `${c.name} ${c.type}`).join(', ')});`,
+  ];
+
+  const columnList = columns.map(c => c.name).join(', ');
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const batch = rows.slice(i, i + INSERT_BATCH_SIZE);
+    lines.push(`INSERT INTO ${name} (${columnList}) VALUES`);
+    lines.push(batch.map(row => `  (${row.map(sqlLiteral).join(', ')})`).join(',\n') + ';');
+  }
+
+  return lines.join('\n');
+}
+
+/** Null-safe equality for nullable week columns (wildcard recipes have NULL weeks) */
+function nullSafeEquals(left: string, right: string): string {
+  return `(${left} = ${right} OR (${left} IS NULL AND ${right} IS NULL))`;
+}
+
+/** Prefer the mapped LocationID; fall back to looking the code up in dbo.Locations */
+const LOCATION_ID = (alias: string) =>
+  `COALESCE(${alias}.LocationID, (SELECT TOP 1 l.ID FROM dbo.Locations l WHERE l.Location = ${alias}.LocationCode))`;
+const CATEGORY_ID = (category: string) => `(SELECT TOP 1 c.ID FROM Setup.Categories c WHERE c.Category = ${category})`;
+const SPACE_CATEGORY_ID = (category: string) => `(SELECT TOP 1 sc.ID FROM SpacePlanning.Categories sc WHERE sc.SpaceCategory = ${category})`;
+const SPACE_TYPE_ID = (type: string) => `(SELECT TOP 1 st.ID FROM SpacePlanning.SpaceTypes st WHERE st.SpaceType = ${type})`;
+const CATALOG_ID = (genus: string, series: string, color: string) =>
+  `(SELECT TOP 1 k.ID FROM Setup.Catalogs k WHERE k.Genus = ${genus} AND k.Series = ${series} AND k.Color = ${color})`;
+
+/**
+ * Resolve a PRODUCE recipe ID from the natural-key columns of a #Recipes row alias
+ */
+function recipeIdLookup(alias: string): string {
+  return `(SELECT TOP 1 pr.ID FROM Setup.Recipes pr
+      WHERE pr.LocationID = ${LOCATION_ID(alias)}
+        AND pr.CategoryID = ${CATEGORY_ID(`${alias}.SetupCategory`)}
+        AND pr.CatalogID = ${CATALOG_ID(`${alias}.Genus`, `${alias}.Series`, `${alias}.Color`)}
+        AND ${nullSafeEquals('pr.StartWeek', `${alias}.StartWeek`)}
+        AND ${nullSafeEquals('pr.EndWeek', `${alias}.EndWeek`)})`;
+}
+
+/**
+ * Generate an idempotent T-SQL import script from a transform result
+ */
+export function exportSqlScript(result: TransformResult): string {
+  const sections: string[] = [];
+
+  sections.push([
+    '-- BLN → PRODUCE import script',
+    `-- Generated: ${new Date().toISOString()}`,
+    `-- Catalogs: ${result.catalogs.length}, Categories: ${result.categories.length}, Production items: ${result.productionItems.length}, Recipes: ${result.recipes.length}, Events: ${result.events.length}, ` +
+      `Triggers: ${result.triggers.length}, Event details: ${result.eventDetails.length}, ` +
+      `Specs: ${result.specs.length}, Mixes: ${result.mixes.length}, Wildcard Recipes: ${result.wildcardRecipes.length}`,
+    'SET NOCOUNT ON;',
+    'SET XACT_ABORT ON;',
+    'BEGIN TRANSACTION;',
+  ].join('\n'));
+
+  // --- Source rows (our synthetic ids only live in these temp tables) ---
+  // Wildcard recipes and their `*` catalogs share the tables with negative SrcIDs;
+  // nothing else references them by id.
+  const wildcardCatalogs = new Map<string, { genus: string; series: string }>();
+  for (const w of result.wildcardRecipes) {
+    wildcardCatalogs.set(`${w.genus}|${w.series}`, { genus: w.genus, series: w.series });
+  }
+
+  const categoriesById = new Map(result.categories.map(c => [c.id, c]));
+  const categoryName = (id: number | undefined, fallback: string) =>
+    (id !== undefined ? categoriesById.get(id)?.category : undefined) ?? fallback;
+
+  sections.push('-- Source rows\n' + tempTable('#Catalogs', [
+    { name: 'SrcID', type: 'int PRIMARY KEY' },
+    { name: 'Genus', type: 'nvarchar(100)' },
+    { name: 'Series', type: 'nvarchar(100)' },
+    { name: 'Color', type: 'nvarchar(100)' },
+  ], [
+    ...result.catalogs.map(c => [c.id, c.genus, c.series, c.color]),
+    ...[...wildcardCatalogs.values()].map((c, idx) => [-(idx + 1), c.genus, c.series, '*']),
+  ]));
+
+  sections.push(tempTable('#Categories', [
+    { name: 'Category', type: 'nvarchar(100) PRIMARY KEY' },
+    { name: 'UnitOfMeasure', type: 'int' },
+    { name: 'SpaceCategory', type: 'nvarchar(100)' },
+  ], result.categories.map(c => [c.category, c.unitOfMeasure, c.spaceCategory])));
+
+  // Category is the parent (Import.recipes); SetupCategory is the Setup.Categories row
+  // the recipe references, the child category of its scheme code when there is one
+  sections.push(tempTable('#Recipes', [
+    { name: 'SrcID', type: 'int PRIMARY KEY' },
+    { name: 'LocationCode', type: 'nvarchar(50)' },
+    { name: 'LocationID', type: 'int' },
+    { name: 'Category', type: 'nvarchar(100)' },
+    { name: 'SetupCategory', type: 'nvarchar(100)' },
+    { name: 'SchemeCode', type: 'nvarchar(100)' },
+    { name: 'Genus', type: 'nvarchar(100)' },
+    { name: 'Series', type: 'nvarchar(100)' },
+    { name: 'Color', type: 'nvarchar(100)' },
+    { name: 'StartWeek', type: 'int' },
+    { name: 'EndWeek', type: 'int' },
+    { name: 'GrowWeeks', type: 'decimal(9, 2)' }, // two decimals under fractional week rounding
+    { name: 'Notes', type: 'nvarchar(450)' },
+  ], [
+    ...result.recipes.map(r => [
+      r.id, r.locationCode, r.locationId, r.category, categoryName(r.categoryId, r.category), r.schemeCode, r.genus, r.series, r.color,
+      r.startWeek, r.endWeek, r.growWeeks, r.notes,
+    ]),
+    ...result.wildcardRecipes.map(w => [
+      -w.id, w.locationCode, w.locationId, w.category, w.category, w.schemeCode, w.genus, w.series, w.color,
+      w.startWeek, w.endWeek, w.growWeeks, w.notes,
+    ]),
+  ]));
+
+  sections.push(tempTable('#ProductionItems', [
+    { name: 'ProductionItemNum', type: 'nvarchar(64)' },
+    { name: 'Category', type: 'nvarchar(100)' },
+    { name: 'Genus', type: 'nvarchar(100)' },
+    { name: 'Series', type: 'nvarchar(100)' },
+    { name: 'Color', type: 'nvarchar(100)' },
+  ], result.productionItems.map(p => [p.productionItemNum, p.category, p.genus, p.series, p.color])));
+
+  sections.push(tempTable('#Triggers', [
+    { name: 'Description', type: 'nvarchar(25) PRIMARY KEY' },
+    { name: 'TimeProfile', type: 'nvarchar(25)' },
+    { name: 'UnitOffset', type: 'decimal(9, 2)' },
+  ], result.triggers.map(t => [t.description, t.timeProfile, t.unitOffset])));
+
+  sections.push(tempTable('#EventDetails', [
+    { name: 'Event', type: 'nvarchar(100)' },
+    { name: 'Description', type: 'nvarchar(100)' },
+    { name: 'TriggerDescription', type: 'nvarchar(25)' },
+    { name: 'SpaceCategory', type: 'nvarchar(100)' },
+    { name: 'SpaceType', type: 'nvarchar(25)' },
+    { name: 'Duration', type: 'decimal(9, 2)' },
+  ], result.eventDetails.map(d => [d.event, d.description, d.trigger, d.spaceCategory, d.spaceType, d.duration])));
+
+  sections.push(tempTable('#EventLinks', [
+    { name: 'SrcRecipeID', type: 'int' },
+    { name: 'Event', type: 'nvarchar(100)' },
+    { name: 'IsExcluded', type: 'bit' },
+  ], result.recipeSpaceEvents.map(l => [l.recipeId, l.event, l.isExcluded])));
+
+  const spaceCategories = new Map(result.categories.map(c => [c.spaceCategoryId, c.spaceCategory]));
+  const recipesById = new Map(result.recipes.map(r => [r.id, r]));
+  sections.push(tempTable('#Specs', [
+    { name: 'SrcRecipeID', type: 'int' },
+    { name: 'SpaceCategory', type: 'nvarchar(100)' },
+    { name: 'SpaceType', type: 'nvarchar(25)' },
+    { name: 'Phase', type: 'nvarchar(25)' },
+    { name: 'SpaceWidth', type: 'float' },
+    { name: 'SpaceLength', type: 'float' },
+    { name: 'Stagger', type: 'bit' },
+  ], result.specs.map(s => [
+    s.recipeId,
+    (s.spaceCategoryId !== undefined ? spaceCategories.get(s.spaceCategoryId) : undefined) ?? recipesById.get(s.recipeId)?.category,
+    // Same rule as the event details, so hang time profiles (*HN) land on Hang space
+    spaceTypeFor(s.phase, recipesById.get(s.recipeId)?.timeProfile ?? ''),
+    s.phase, s.spaceWidth, s.spaceLength, s.stagger,
+  ])));
+
+  // One float row per recipe and catalog (Setup.RecipeMixes, see buildVariantMixes); the
+  // whole-percent dbo.BLNVariantMixes rows are rounded below, once PRODUCE CatalogIDs are known
+  sections.push(tempTable('#Mixes', [
+    { name: 'SrcRecipeID', type: 'int' },
+    { name: 'SrcCatalogID', type: 'int' },
+    { name: 'MixPct', type: 'float' },
+  ], result.recipeMixes.map(m => [m.recipeId, m.catalogId, m.mixPct])));
+
+  // --- Import staging ---
+  // Wildcard recipes (negative SrcID) go straight to Setup.Recipes: Import.recipes weeks are NOT NULL
+  sections.push(`-- Import.recipes staging
+MERGE Import.recipes AS t
+USING (
+  SELECT LocationCode AS RecipeGroup, StartWeek, EndWeek, Category, Genus, Series, Color, MAX(GrowWeeks) AS GrowWeeks, MAX(Notes) AS Notes
+  FROM #Recipes
+  WHERE SrcID > 0
+  GROUP BY LocationCode, StartWeek, EndWeek, Category, Genus, Series, Color
+) AS s
+ON t.RecipeGroup = s.RecipeGroup AND t.Category = s.Category AND t.Genus = s.Genus AND t.Series = s.Series
+  AND t.Color = s.Color AND t.StartWeek = s.StartWeek AND t.EndWeek = s.EndWeek
+WHEN MATCHED THEN UPDATE SET GrowWeeks = s.GrowWeeks, Notes = s.Notes
+WHEN NOT MATCHED THEN
+  INSERT (RecipeGroup, StartWeek, EndWeek, Category, Genus, Series, Color, GrowWeeks, PlantsPerPot, Yield, Trial, Substitution, Notes, ValidFirstStep)
+  VALUES (s.RecipeGroup, s.StartWeek, s.EndWeek, s.Category, s.Genus, s.Series, s.Color, s.GrowWeeks, 1, 1, 0, 0, s.Notes, 1);`);
+
+  // --- Master data ---
+  sections.push(`-- SpacePlanning.Categories
+MERGE SpacePlanning.Categories AS t
+USING (SELECT DISTINCT SpaceCategory FROM #Categories WHERE SpaceCategory <> N'') AS s
+ON t.SpaceCategory = s.SpaceCategory
+WHEN NOT MATCHED THEN INSERT (SpaceCategory) VALUES (s.SpaceCategory);`);
+
+  sections.push(`-- Setup.Categories
+MERGE Setup.Categories AS t
+USING (SELECT c.Category, c.UnitOfMeasure, ${SPACE_CATEGORY_ID('c.SpaceCategory')} AS SpaceCategoryID FROM #Categories c) AS s
+ON t.Category = s.Category
+WHEN MATCHED AND t.SpaceCategoryID IS NULL THEN UPDATE SET SpaceCategoryID = s.SpaceCategoryID
+WHEN NOT MATCHED THEN INSERT (Category, UnitOfMeasure, SpaceCategoryID) VALUES (s.Category, s.UnitOfMeasure, s.SpaceCategoryID);`);
+
+  sections.push(`-- Setup.Catalogs
+MERGE Setup.Catalogs AS t
+USING (SELECT DISTINCT Genus, Series, Color FROM #Catalogs) AS s
+ON t.Genus = s.Genus AND t.Series = s.Series AND t.Color = s.Color
+WHEN NOT MATCHED THEN INSERT (Genus, Series, Color) VALUES (s.Genus, s.Series, s.Color);`);
+
+  sections.push(`-- Setup.ProductionItems
+MERGE Setup.ProductionItems AS t
+USING (
+  SELECT DISTINCT * FROM (
+    SELECT
+      p.ProductionItemNum,
+      ${CATEGORY_ID('p.Category')} AS CategoryID,
+      ${CATALOG_ID('p.Genus', 'p.Series', 'p.Color')} AS CatalogID
+    FROM #ProductionItems p
+  ) resolved
+  WHERE CategoryID IS NOT NULL AND CatalogID IS NOT NULL
+) AS s
+ON t.ProductionItemNum = s.ProductionItemNum AND t.CategoryID = s.CategoryID AND t.CatalogID = s.CatalogID
+WHEN NOT MATCHED THEN INSERT (CategoryID, CatalogID, ProductionItemNum) VALUES (s.CategoryID, s.CatalogID, s.ProductionItemNum);`);
+
+  // --- Recipes ---
+  sections.push(`-- Setup.Recipes
+MERGE Setup.Recipes AS t
+USING (
+  SELECT LocationID, CategoryID, CatalogID, StartWeek, EndWeek, MAX(GrowWeeks) AS GrowWeeks, MAX(Notes) AS Notes
+  FROM (
+    SELECT
+      ${LOCATION_ID('r')} AS LocationID,
+      ${CATEGORY_ID('r.SetupCategory')} AS CategoryID,
+      ${CATALOG_ID('r.Genus', 'r.Series', 'r.Color')} AS CatalogID,
+      r.StartWeek, r.EndWeek, r.GrowWeeks, r.Notes
+    FROM #Recipes r
+  ) resolved
+  WHERE LocationID IS NOT NULL AND CategoryID IS NOT NULL AND CatalogID IS NOT NULL
+  GROUP BY LocationID, CategoryID, CatalogID, StartWeek, EndWeek
+) AS s
+ON t.LocationID = s.LocationID AND t.CategoryID = s.CategoryID AND t.CatalogID = s.CatalogID
+  AND ${nullSafeEquals('t.StartWeek', 's.StartWeek')} AND ${nullSafeEquals('t.EndWeek', 's.EndWeek')}
+WHEN MATCHED THEN UPDATE SET GrowWeeks = s.GrowWeeks, Notes = s.Notes
+WHEN NOT MATCHED THEN
+  INSERT (StartWeek, EndWeek, CategoryID, CatalogID, GrowWeeks, PlantsPerPot, Yield, Trial, Substitution, Notes, ValidFirstStep, LocationID)
+  VALUES (s.StartWeek, s.EndWeek, s.CategoryID, s.CatalogID, s.GrowWeeks, 1, 1, 0, 0, s.Notes, 1, s.LocationID);`);
+
+  // --- Events ---
+  sections.push(`-- Events.Triggers (new triggers copy source/unit from an existing trigger, preferring the same time profile)
+MERGE Events.Triggers AS t
+USING (
+  SELECT tr.Description, tr.UnitOffset, ref.TriggerSourceID, ref.TriggerUnitID
+  FROM #Triggers tr
+  OUTER APPLY (
+    SELECT TOP 1 x.TriggerSourceID, x.TriggerUnitID
+    FROM Events.Triggers x
+    ORDER BY CASE WHEN x.Description LIKE tr.TimeProfile + N'-%' THEN 0 ELSE 1 END, x.ID
+  ) ref
+  WHERE ref.TriggerSourceID IS NOT NULL
+) AS s
+ON t.Description = s.Description
+WHEN MATCHED AND t.UnitOffset <> s.UnitOffset THEN UPDATE SET UnitOffset = s.UnitOffset
+WHEN NOT MATCHED THEN
+  INSERT (Description, TriggerSourceID, TriggerUnitID, UnitOffset)
+  VALUES (s.Description, s.TriggerSourceID, s.TriggerUnitID, s.UnitOffset);`);
+
+  sections.push(`-- Events.Spaces (one event per scheme code)
+MERGE Events.Spaces AS t
+USING (SELECT DISTINCT Event FROM #EventDetails) AS s
+ON t.Event = s.Event
+WHEN NOT MATCHED THEN INSERT (Event) VALUES (s.Event);`);
+
+  sections.push(`-- Events.SpaceDetails
+MERGE Events.SpaceDetails AS t
+USING (
+  SELECT EventID, TriggerID, SpaceTypeID, Duration, MAX(Description) AS Description, MAX(SpaceCategoryID) AS SpaceCategoryID
+  FROM (
+    SELECT
+      (SELECT TOP 1 ev.ID FROM Events.Spaces ev WHERE ev.Event = d.Event) AS EventID,
+      d.Description,
+      (SELECT TOP 1 tr.ID FROM Events.Triggers tr WHERE tr.Description = d.TriggerDescription) AS TriggerID,
+      ${SPACE_CATEGORY_ID('d.SpaceCategory')} AS SpaceCategoryID,
+      ${SPACE_TYPE_ID('d.SpaceType')} AS SpaceTypeID,
+      d.Duration
+    FROM #EventDetails d
+  ) resolved
+  WHERE EventID IS NOT NULL AND TriggerID IS NOT NULL AND SpaceCategoryID IS NOT NULL AND SpaceTypeID IS NOT NULL
+  GROUP BY EventID, TriggerID, SpaceTypeID, Duration
+) AS s
+ON t.EventID = s.EventID AND t.TriggerID = s.TriggerID AND t.SpaceTypeID = s.SpaceTypeID AND t.Duration = s.Duration
+WHEN MATCHED THEN UPDATE SET Description = s.Description, SpaceCategoryID = s.SpaceCategoryID
+WHEN NOT MATCHED THEN
+  INSERT (EventID, Description, TriggerID, SpaceCategoryID, SpaceTypeID, Duration)
+  VALUES (s.EventID, s.Description, s.TriggerID, s.SpaceCategoryID, s.SpaceTypeID, s.Duration);`);
+
+  sections.push(`-- Setup.RecipeSpaceEvents
+MERGE Setup.RecipeSpaceEvents AS t
+USING (
+  SELECT RecipeID, EventID, CAST(MAX(CAST(IsExcluded AS int)) AS bit) AS IsExcluded
+  FROM (
+    SELECT
+      ${recipeIdLookup('r')} AS RecipeID,
+      (SELECT TOP 1 ev.ID FROM Events.Spaces ev WHERE ev.Event = l.Event) AS EventID,
+      l.IsExcluded
+    FROM #EventLinks l
+    JOIN #Recipes r ON r.SrcID = l.SrcRecipeID
+  ) resolved
+  WHERE RecipeID IS NOT NULL AND EventID IS NOT NULL
+  GROUP BY RecipeID, EventID
+) AS s
+ON t.RecipeID = s.RecipeID AND t.EventID = s.EventID
+WHEN MATCHED AND t.IsExcluded <> s.IsExcluded THEN UPDATE SET IsExcluded = s.IsExcluded
+WHEN NOT MATCHED THEN INSERT (RecipeID, EventID, IsExcluded) VALUES (s.RecipeID, s.EventID, s.IsExcluded);`);
+
+  // --- Space specs ---
+  sections.push(`-- SpacePlanning.Specs (one spec per space category, space type and location)
+MERGE SpacePlanning.Specs AS t
+USING (
+  SELECT SpaceCategoryID, SpaceTypeID, LocationID, MAX(SpaceWidth) AS SpaceWidth, MAX(SpaceLength) AS SpaceLength,
+    CAST(MAX(CAST(Stagger AS int)) AS bit) AS Stagger
+  FROM (
+    SELECT
+      ${SPACE_CATEGORY_ID('sp.SpaceCategory')} AS SpaceCategoryID,
+      ${SPACE_TYPE_ID('sp.SpaceType')} AS SpaceTypeID,
+      ${LOCATION_ID('r')} AS LocationID,
+      sp.SpaceWidth, sp.SpaceLength, sp.Stagger
+    FROM #Specs sp
+    JOIN #Recipes r ON r.SrcID = sp.SrcRecipeID
+  ) resolved
+  WHERE SpaceCategoryID IS NOT NULL AND SpaceTypeID IS NOT NULL
+  GROUP BY SpaceCategoryID, SpaceTypeID, LocationID
+) AS s
+ON t.SpaceCategoryID = s.SpaceCategoryID AND t.SpaceTypeID = s.SpaceTypeID AND ${nullSafeEquals('t.LocationID', 's.LocationID')}
+WHEN MATCHED THEN UPDATE SET SpaceWidth = s.SpaceWidth, SpaceLength = s.SpaceLength, Stagger = s.Stagger
+WHEN NOT MATCHED THEN
+  INSERT (SpaceCategoryID, SpaceTypeID, SpaceWidth, SpaceLength, Stagger, IsDefault, LocationID)
+  VALUES (s.SpaceCategoryID, s.SpaceTypeID, s.SpaceWidth, s.SpaceLength, s.Stagger, 0, s.LocationID);`);
+
+  // --- Mixes ---
+  sections.push(`-- dbo.BLNVariantMixes: rows whose PRODUCE CatalogID does not fit the smallint column are left out,
+-- the rest are scaled back up to the recipe total and rounded by largest remainder so they still add up to 100
+WITH resolved AS (
+  SELECT RecipeID, CatalogID, MAX(MixPct) AS MixPct
+  FROM (
+    SELECT
+      ${recipeIdLookup('r')} AS RecipeID,
+      ${CATALOG_ID('mc.Genus', 'mc.Series', 'mc.Color')} AS CatalogID,
+      m.MixPct
+    FROM #Mixes m
+    JOIN #Recipes r ON r.SrcID = m.SrcRecipeID
+    JOIN #Catalogs mc ON mc.SrcID = m.SrcCatalogID
+  ) x
+  WHERE RecipeID IS NOT NULL AND CatalogID IS NOT NULL
+  GROUP BY RecipeID, CatalogID
+), scaled AS (
+  SELECT RecipeID, CatalogID,
+    MixPct * Total / NULLIF(SUM(MixPct) OVER (PARTITION BY RecipeID), 0) AS MixPct,
+    ROUND(Total, 0) AS Total
+  FROM (
+    SELECT RecipeID, CatalogID, MixPct, SUM(MixPct) OVER (PARTITION BY RecipeID) AS Total
+    FROM resolved
+  ) x
+  WHERE CatalogID BETWEEN ${SMALLINT_MIN} AND ${SMALLINT_MAX}
+), floored AS (
+  SELECT RecipeID, CatalogID, MixPct, Total, FLOOR(MixPct + 1e-9) AS Whole
+  FROM scaled
+), ranked AS (
+  SELECT RecipeID, CatalogID, Whole,
+    Total - SUM(Whole) OVER (PARTITION BY RecipeID) AS UnitsLeft,
+    ROW_NUMBER() OVER (PARTITION BY RecipeID ORDER BY MixPct - Whole DESC, MixPct DESC, CatalogID) AS RemainderRank
+  FROM floored
+)
+MERGE dbo.BLNVariantMixes AS t
+USING (
+  SELECT RecipeID, CatalogID, CAST(Whole + CASE WHEN RemainderRank <= UnitsLeft THEN 1 ELSE 0 END AS tinyint) AS MixPct
+  FROM ranked
+) AS s
+ON t.RecipeID = s.RecipeID AND t.CatalogID = s.CatalogID
+WHEN MATCHED THEN UPDATE SET MixPct = s.MixPct
+WHEN NOT MATCHED THEN INSERT (RecipeID, CatalogID, MixPct) VALUES (s.RecipeID, s.CatalogID, s.MixPct);`);
+
+  // --- Report rows that could not be resolved ---
+  sections.push(`-- Triggers that could not be created (no existing trigger to copy source/unit from)
+SELECT tr.Description, tr.TimeProfile, tr.UnitOffset
+FROM #Triggers tr
+WHERE NOT EXISTS (SELECT 1 FROM Events.Triggers x WHERE x.Description = tr.Description);`);
+
+  sections.push(`-- Mixes left out of dbo.BLNVariantMixes: PRODUCE CatalogID does not fit its smallint column
+SELECT m.SrcRecipeID, mc.Genus, mc.Series, mc.Color, resolved.CatalogID
+FROM #Mixes m
+JOIN #Catalogs mc ON mc.SrcID = m.SrcCatalogID
+CROSS APPLY (SELECT ${CATALOG_ID('mc.Genus', 'mc.Series', 'mc.Color')} AS CatalogID) resolved
+WHERE resolved.CatalogID NOT BETWEEN ${SMALLINT_MIN} AND ${SMALLINT_MAX};`);
+
+  sections.push(`-- Unresolved source rows (missing location, category or catalog in PRODUCE)
+SELECT r.SrcID, r.LocationCode, r.Category, r.Genus, r.Series, r.Color, r.StartWeek, r.EndWeek
+FROM #Recipes r
+WHERE ${recipeIdLookup('r')} IS NULL;`);
+
+  sections.push('COMMIT TRANSACTION;');
+
+  return sections.join('\n\n') + '\n';
+}
+
+/**
+ * File name of the SQL import script export
+ */
+export function sqlExportFilename(prefix = 'bln'): string {
+  const timestamp = new Date().toISOString().split('T')[0];
+  return `${prefix}-import-${timestamp}.sql`;
+}
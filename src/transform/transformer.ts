@@ -3,41 +3,81 @@ import type {
   SchemeDictionary,
   SchemeRule,
   Catalog,
+  Category,
+  ProductionItem,
   Recipe,
   SpaceEvent,
   SpaceSpec,
   RecipeMix,
+  WildcardRecipe,
+  SpaceEventDefinition,
+  SpaceEventDetail,
+  EventTrigger,
+  RecipeSpaceEvent,
+  EventExclusionRule,
+  SpaceTypeName,
+  SpaceModelRule,
+  PhaseMergeRule,
+  SourceRef,
   TransformResult,
+  TransformOptions,
+  TransformProgress,
+  TransformStage,
+  IdLedgerTable,
+  PlanCalendar,
+  WeekRoundingPolicy,
 } from './types';
-
-/**
- * Parse scheme code to extract category
- * Format: BN-{Category}-{Genus}-{TimeProfile}
- * Example: BN-012PANN-BEG-LSP → Category = 012PANN
- */
-function parseSchemeCode(code: string): { category: string; timeProfile: string } {
-  const parts = code.split('-');
-  return {
-    category: parts.length >= 2 ? parts[1] : '',
-    timeProfile: parts.length >= 4 ? parts[3] : '',
-  };
-}
-
-/**
- * Convert days to weeks (7 days = 1 week)
- */
-function daysToWeeks(days: number): number {
-  return Math.round(days / 7);
-}
+import { DEFAULT_LOCATION_MAPPINGS, buildLocationLookup, resolveLocationId } from './locationMap';
+import { buildRecipeLookup, describeRecipePick } from './recipeLookup';
+import type { RecipeLookup } from './recipeLookup';
+import { collectSources } from './lineage';
+import {
+  DEFAULT_SPACE_MODEL,
+  computeSpaceDimensions,
+  resolveSpaceModelRule,
+  describeSpaceModelRule,
+} from './spaceModel';
+import { auditMixes } from './mixAudit';
+import { buildVariantMixes } from './variantMixes';
+import { parseSchemeCode, describeSchemeCode } from './schemeCode';
+import { PHASE_MERGE_LABELS, createPhaseActions, describePhaseMergeRule } from './phaseMerge';
+import { resolveEventExclusionRule, describeEventExclusionRule } from './eventExclusion';
+import {
+  createPlanCalendar,
+  wrapWeek,
+  wrapsYear,
+  windowContains,
+  windowWithin,
+  overlapWindows,
+  describeWindow,
+  windowDates,
+} from './calendar';
+import { DEFAULT_WEEK_ROUNDING, daysToWeeks, roundWeeks } from './weekRounding';
+import { ID_LEDGER_TABLES, cloneIdLedger, createIdAllocator, recipeLedgerKey } from './idLedger';
+import type { IdAllocator } from './idLedger';
 
 /**
  * Build scheme dictionary from parsed data
  * Maps scheme code → array of rules (phases with durations per period)
  *
+ * Each period runs until the next one starts, the last one to the end of the
+ * year. With a plan year set, periods repeat every year instead: the last
+ * period runs until the first one starts again (into the next year when the
+ * first period starts after week 1) and a single period covers the whole year.
+ * Period days and line durations become weeks under the rounding policy.
+ *
  * VBA equivalent: BuildSchemeDictionary
  */
-export function buildSchemeDictionary(data: ParsedData): SchemeDictionary {
+export function buildSchemeDictionary(
+  data: ParsedData,
+  calendar: PlanCalendar = createPlanCalendar(),
+  weekRounding: WeekRoundingPolicy = DEFAULT_WEEK_ROUNDING
+): { dictionary: SchemeDictionary; warnings: string[] } {
+  const lastWeek = calendar.weeksInYear;
+  const repeatYearly = calendar.planYear !== undefined;
+
   const dict: SchemeDictionary = {};
+  const warnings: string[] = [];
 
   // Group scheme lines by code
   const linesByScheme = new Map<string, typeof data.schemeLines>();
@@ -66,29 +106,57 @@ export function buildSchemeDictionary(data: ParsedData): SchemeDictionary {
 
       if (periods.length === 0) {
         // No period-specific durations, use line duration for full year
+        const growWeeks = roundWeeks(line.duration, weekRounding); // Duration is in weeks
         rules.push({
           startWeek: 1,
-          endWeek: 53,
-          growWeeks: daysToWeeks(line.duration * 7), // Duration is in weeks
+          endWeek: lastWeek,
+          growWeeks,
           phase: line.phase,
+          sources: collectSources(line.source),
+          steps: [`${line.phase} line ${line.lineNo}: duration ${line.duration} wks → ${growWeeks} wks, all year`],
         });
       } else {
-        // Sort periods by period number
-        const sortedPeriods = [...periods].sort((a, b) => a.periodNo - b.periodNo);
+        // Start week of each period in the plan year (week 53 of a 52-week year is week 1);
+        // of two periods starting in the same week the earlier one is kept, so a period 53
+        // that does not exist in the plan year never replaces the real week-1 period
+        const byStartWeek = new Map<number, typeof periods[number]>();
+        for (const period of [...periods].sort((a, b) => a.periodNo - b.periodNo)) {
+          const week = wrapWeek(calendar, period.periodNo);
+          const kept = byStartWeek.get(week);
+          if (kept) {
+            warnings.push(
+              `Scheme ${schemeCode} ${line.phase} line ${line.lineNo}: periods ${kept.periodNo} and ${period.periodNo} ` +
+              `both start in week ${week}${calendar.planYear !== undefined ? ` of ${calendar.planYear}` : ''} — period ${period.periodNo} dropped`
+            );
+            continue;
+          }
+          byStartWeek.set(week, period);
+        }
+        const sortedPeriods = [...byStartWeek].sort((a, b) => a[0] - b[0]);
+        const firstStart = sortedPeriods[0][0];
 
         // Create rules for each period range
         for (let i = 0; i < sortedPeriods.length; i++) {
-          const period = sortedPeriods[i];
+          const [periodStart, period] = sortedPeriods[i];
           const nextPeriod = sortedPeriods[i + 1];
 
-          const startWeek = period.periodNo;
-          const endWeek = nextPeriod ? nextPeriod.periodNo - 1 : 53;
+          // Repeating yearly, a single period covers the whole year and the last one wraps
+          const fullYear = repeatYearly && sortedPeriods.length === 1;
+          const startWeek = fullYear ? 1 : periodStart;
+          const endWeek = nextPeriod
+            ? nextPeriod[0] - 1
+            : fullYear || !repeatYearly || firstStart === 1 ? lastWeek : firstStart - 1;
 
+          const growWeeks = daysToWeeks(period.days, weekRounding);
           rules.push({
             startWeek,
             endWeek,
-            growWeeks: daysToWeeks(period.days),
+            growWeeks,
             phase: period.phase,
+            sources: collectSources(line.source, period.source),
+            steps: [
+              `${period.phase} line ${line.lineNo} period ${period.periodNo}: ${period.days} days → ${growWeeks} wks, weeks ${describeWindow(startWeek, endWeek)}`,
+            ],
           });
         }
       }
@@ -97,64 +165,77 @@ export function buildSchemeDictionary(data: ParsedData): SchemeDictionary {
     dict[schemeCode] = rules;
   }
 
-  return dict;
+  return { dictionary: dict, warnings };
 }
 
+type PhaseActions = ReturnType<typeof createPhaseActions>;
+
 /**
  * Merge GROW and SPACE phases
- * Collapses extra phases (SPACE, HANG, etc.) into GROW rules
+ * Collapses extra phases (SPACE, HANG, etc.) into GROW rules, as the phase
+ * merge rules say: merged phases add to the grow weeks, standalone phases
+ * only split segments (their space events carry them), ignored phases drop out.
+ * Weeks covered by the same rules form one segment; a segment of wrapping
+ * rules at the end of the year carries on into its first weeks.
  *
  * VBA equivalent: MergeGrowAndSpace
  */
-function mergeGrowAndSpace(rules: SchemeRule[]): SchemeRule[] {
-  // Collect all break points
-  const breakpoints = new Set<number>();
-  for (const rule of rules) {
-    breakpoints.add(rule.startWeek);
-    breakpoints.add(rule.endWeek + 1);
+function mergeGrowAndSpace(allRules: SchemeRule[], calendar: PlanCalendar, phaseActions: PhaseActions): SchemeRule[] {
+  const rules = allRules.filter(rule => phaseActions(rule.phase).action !== 'ignore');
+  const sameRules = (a: SchemeRule[], b: SchemeRule[]) => a.length === b.length && a.every((rule, i) => rule === b[i]);
+
+  const segments: { startWeek: number; endWeek: number; covering: SchemeRule[] }[] = [];
+  for (let week = 1; week <= calendar.weeksInYear; week++) {
+    const covering = rules.filter(rule => windowContains(rule.startWeek, rule.endWeek, week));
+    const last = segments[segments.length - 1];
+    if (last && sameRules(last.covering, covering)) last.endWeek = week;
+    else segments.push({ startWeek: week, endWeek: week, covering });
   }
-  breakpoints.add(54); // Sentinel
 
-  // Sort breakpoints
-  const sortedBPs = Array.from(breakpoints).sort((a, b) => a - b);
+  const first = segments[0];
+  const last = segments[segments.length - 1];
+  if (
+    segments.length > 1 &&
+    sameRules(first.covering, last.covering) &&
+    last.covering.some(rule => wrapsYear(rule.startWeek, rule.endWeek))
+  ) {
+    segments.shift();
+    last.endWeek = first.endWeek;
+  }
 
   // Build merged segments
   const merged: SchemeRule[] = [];
 
-  for (let i = 0; i < sortedBPs.length - 1; i++) {
-    const segStart = sortedBPs[i];
-    const segEnd = sortedBPs[i + 1] - 1;
-
-    if (segStart > segEnd) continue;
-
+  for (const { startWeek: segStart, endWeek: segEnd, covering } of segments) {
     // Find covering GROW rule
-    let growWeeks = -1;
-    for (const rule of rules) {
-      if (rule.phase === 'GROW') {
-        if (segStart >= rule.startWeek && segEnd <= rule.endWeek) {
-          growWeeks = rule.growWeeks;
-          break;
-        }
-      }
-    }
-
-    if (growWeeks === -1) continue; // Skip gaps
+    const growRule = covering.find(rule => rule.phase === 'GROW');
+    if (!growRule) continue; // Skip gaps
+
+    // Sum merged phases
+    const extraRules = covering.filter(rule => rule.phase !== 'GROW' && phaseActions(rule.phase).action === 'merge');
+    // Phases a rule keeps out of the grow weeks (INVENTORY is standalone by default)
+    const standaloneRules = covering.filter(rule => {
+      const { action, rule: mergeRule } = phaseActions(rule.phase);
+      return rule.phase !== 'GROW' && action === 'standalone' && mergeRule !== undefined;
+    });
+    const extraWeeks = extraRules.reduce((sum, rule) => sum + rule.growWeeks, 0);
 
-    // Sum extra phases
-    let extraWeeks = 0;
-    for (const rule of rules) {
-      if (rule.phase !== 'GROW' && rule.phase !== 'INVENTORY') {
-        if (segStart >= rule.startWeek && segEnd <= rule.endWeek) {
-          extraWeeks += rule.growWeeks;
-        }
-      }
-    }
+    // Fractional weeks keep two decimals
+    const growWeeks = Math.round((growRule.growWeeks + extraWeeks) * 100) / 100;
+    const arithmetic = [`GROW ${growRule.growWeeks}`, ...extraRules.map(r => `${r.phase} ${r.growWeeks}`)].join(' + ');
 
     merged.push({
       startWeek: segStart,
       endWeek: segEnd,
-      growWeeks: growWeeks + extraWeeks,
+      growWeeks,
       phase: 'GROW',
+      sources: collectSources(growRule.sources, ...extraRules.map(r => r.sources)),
+      steps: [
+        ...growRule.steps,
+        ...extraRules.flatMap(r => r.steps),
+        ...standaloneRules.map(r => `${r.phase} kept as its own space event (rule: ${describePhaseMergeRule(phaseActions(r.phase).rule)})`),
+        `Weeks ${describeWindow(segStart, segEnd)}: ${arithmetic} = ${growWeeks} grow wks`,
+      ],
     });
   }
 
@@ -165,29 +246,36 @@ function mergeGrowAndSpace(rules: SchemeRule[]): SchemeRule[] {
  * Generate catalogs from preferences + schemes
  * Each unique genus+series+color becomes a catalog entry
  */
-function generateCatalogs(data: ParsedData): Catalog[] {
+function generateCatalogs(data: ParsedData, allocateId: IdAllocator): Catalog[] {
   const catalogs: Catalog[] = [];
   const seen = new Set<string>();
-  let id = 1;
 
-  // Build scheme → genus map
-  const schemeGenusMap = new Map<string, string>();
+  // Build scheme → scheme row map (genus + source)
+  const schemeMap = new Map<string, ParsedData['schemes'][number]>();
   for (const scheme of data.schemes) {
-    schemeGenusMap.set(scheme.code, scheme.genusCode);
+    schemeMap.set(scheme.code, scheme);
   }
 
   // Create catalog entries from preferences (genus + productionItemNo + variantCode)
   for (const pref of data.preferences) {
-    const genus = schemeGenusMap.get(pref.schemeCode) || '';
+    const scheme = schemeMap.get(pref.schemeCode);
+    const genus = scheme?.genusCode || '';
     const key = `${genus}|${pref.productionItemNo}|${pref.variantCode}`;
 
     if (!seen.has(key) && genus) {
       seen.add(key);
       catalogs.push({
-        id: id++,
+        id: allocateId(key),
         genus,
         series: pref.productionItemNo,
         color: pref.variantCode,
+        lineage: {
+          sources: collectSources(pref.source, scheme?.source),
+          steps: [
+            `First preference for ${pref.productionItemNo}/${pref.variantCode} (at ${pref.locationCode})`,
+            `Genus ${genus} from scheme ${pref.schemeCode}`,
+          ],
+        },
       });
     }
   }
@@ -195,6 +283,200 @@ function generateCatalogs(data: ParsedData): Catalog[] {
   return catalogs;
 }
 
+/**
+ * Sq ft per plant of a scheme: the code's area suffix, else the first GROW
+ * line with a quantity (1 / Qty per Area, to 3 decimals as in PRODUCE)
+ */
+function schemeArea(areaSqFt: number | undefined, lines: ParsedData['schemeLines']): { area?: number; step: string } {
+  if (areaSqFt !== undefined) return { area: areaSqFt, step: `Area ${areaSqFt} sq ft from the scheme code` };
+  const grow = lines.find(line => line.phase === 'GROW' && line.qtyPerArea > 0);
+  if (!grow) return { step: 'No area: no suffix and no GROW line with a Qty per Area' };
+  const area = Math.round((1 / grow.qtyPerArea) * 1000) / 1000;
+  return { area, step: `Area ${area} sq ft = 1 / Qty per Area ${grow.qtyPerArea} (GROW line ${grow.lineNo})` };
+}
+
+/**
+ * Generate the Setup.Categories master: one parent row per category parsed
+ * from a scheme code (45INVIG) and one child row per scheme code with a known
+ * area (BN-45INVIG-FUC-LSP-0.172). Each row points at the SpacePlanning
+ * category of its category + SQ FT.
+ */
+function generateCategories(
+  data: ParsedData,
+  schemeDictionary: SchemeDictionary,
+  allocateId: IdAllocator,
+  allocateSpaceCategoryId: IdAllocator
+): Category[] {
+  const parents = new Map<string, Category>();
+  const children: Category[] = [];
+  const seenSchemes = new Set<string>();
+  const spaceCategoryIds = new Map<string, number>();
+
+  const spaceCategoryId = (name: string) => {
+    let id = spaceCategoryIds.get(name);
+    if (id === undefined) {
+      id = allocateSpaceCategoryId(name);
+      spaceCategoryIds.set(name, id);
+    }
+    return id;
+  };
+
+  const schemeMap = new Map<string, ParsedData['schemes'][number]>();
+  for (const scheme of data.schemes) {
+    schemeMap.set(scheme.code, scheme);
+  }
+  const schemeLineMap = new Map<string, ParsedData['schemeLines']>();
+  for (const line of data.schemeLines) {
+    const existing = schemeLineMap.get(line.schemeCode) || [];
+    existing.push(line);
+    schemeLineMap.set(line.schemeCode, existing);
+  }
+
+  // Only schemes that produce recipes (used by a preference and with rules)
+  for (const pref of data.preferences) {
+    const schemeCode = pref.schemeCode;
+    if (seenSchemes.has(schemeCode) || !schemeDictionary[schemeCode]) continue;
+    seenSchemes.add(schemeCode);
+
+    const schemeParts = parseSchemeCode(schemeCode);
+    const { category } = schemeParts;
+    if (!category) continue;
+    const scheme = schemeMap.get(schemeCode);
+
+    let parent = parents.get(category);
+    if (!parent) {
+      parent = {
+        id: allocateId(category),
+        category,
+        kind: 'parent',
+        unitOfMeasure: 1,
+        spaceCategoryId: spaceCategoryId(category),
+        spaceCategory: category,
+        lineage: {
+          sources: collectSources(pref.source, scheme?.source),
+          steps: [`Category ${category} parsed from scheme code ${schemeCode}`],
+        },
+      };
+      parents.set(category, parent);
+    }
+
+    const lines = schemeLineMap.get(schemeCode) ?? [];
+    const { area, step } = schemeArea(schemeParts.areaSqFt, lines);
+    if (area === undefined) continue;
+
+    const name = schemeParts.areaSqFt !== undefined ? schemeCode : `${schemeCode}-${area}`;
+    const spaceCategory = `${category} ${area}`;
+    children.push({
+      id: allocateId(name),
+      category: name,
+      kind: 'child',
+      parentId: parent.id,
+      parentCategory: category,
+      schemeCode,
+      unitOfMeasure: 1,
+      spaceCategoryId: spaceCategoryId(spaceCategory),
+      spaceCategory,
+      areaSqFt: area,
+      lineage: {
+        sources: collectSources(pref.source, scheme?.source, lines.map(line => line.source)),
+        steps: [`Scheme ${schemeCode} under category ${category}`, step, `Space category ${spaceCategory}`],
+      },
+    });
+  }
+
+  return [...parents.values(), ...children];
+}
+
+/**
+ * Generate the Setup.ProductionItems mapping: one row per 4MM production item,
+ * parent category and catalog found in the preferences. Items whose schemes
+ * put them in more than one category (usually at different locations) are
+ * reported as warnings.
+ */
+function generateProductionItems(
+  data: ParsedData,
+  catalogs: Catalog[],
+  categories: Category[],
+  allocateId: IdAllocator
+): { productionItems: ProductionItem[]; warnings: string[] } {
+  const warnings: string[] = [];
+  const rows = new Map<string, { item: ProductionItem; locations: Set<string> }>();
+  const itemCategories = new Map<string, Map<string, Set<string>>>(); // item → category → locations
+
+  const catalogMap = new Map<string, Catalog>();
+  for (const catalog of catalogs) {
+    catalogMap.set(`${catalog.genus}|${catalog.series}|${catalog.color}`, catalog);
+  }
+  const parentCategoryMap = new Map<string, Category>();
+  for (const entry of categories) {
+    if (entry.kind === 'parent') parentCategoryMap.set(entry.category, entry);
+  }
+  const schemeMap = new Map<string, ParsedData['schemes'][number]>();
+  for (const scheme of data.schemes) {
+    schemeMap.set(scheme.code, scheme);
+  }
+
+  for (const pref of data.preferences) {
+    const scheme = schemeMap.get(pref.schemeCode);
+    const genus = scheme?.genusCode || '';
+    const catalog = catalogMap.get(`${genus}|${pref.productionItemNo}|${pref.variantCode}`);
+    const category = parentCategoryMap.get(parseSchemeCode(pref.schemeCode).category);
+    if (!catalog || !category) continue;
+
+    const locationsByCategory = itemCategories.get(pref.productionItemNo) ?? new Map<string, Set<string>>();
+    const categoryLocations = locationsByCategory.get(category.category) ?? new Set<string>();
+    categoryLocations.add(pref.locationCode);
+    locationsByCategory.set(category.category, categoryLocations);
+    itemCategories.set(pref.productionItemNo, locationsByCategory);
+
+    const key = `${pref.productionItemNo}|${category.category}|${catalog.genus}|${catalog.series}|${catalog.color}`;
+    const existing = rows.get(key);
+    if (existing) {
+      existing.locations.add(pref.locationCode);
+      existing.item.lineage.sources = collectSources(existing.item.lineage.sources, pref.source);
+      continue;
+    }
+    rows.set(key, {
+      locations: new Set([pref.locationCode]),
+      item: {
+        id: allocateId(key),
+        productionItemNum: pref.productionItemNo,
+        categoryId: category.id,
+        category: category.category,
+        catalogId: catalog.id,
+        genus: catalog.genus,
+        series: catalog.series,
+        color: catalog.color,
+        locations: '',
+        categoryCount: 0,
+        lineage: {
+          sources: collectSources(pref.source, scheme?.source),
+          steps: [
+            `Preference ${pref.productionItemNo}/${pref.variantCode} → scheme ${pref.schemeCode}`,
+            `Category #${category.id} ${category.category}, catalog #${catalog.id}`,
+          ],
+        },
+      },
+    });
+  }
+
+  for (const [item, locationsByCategory] of itemCategories) {
+    if (locationsByCategory.size > 1) {
+      const detail = [...locationsByCategory]
+        .map(([category, locations]) => `${category} (${[...locations].join(', ')})`)
+        .join('; ');
+      warnings.push(`Production item ${item} maps to ${locationsByCategory.size} categories: ${detail}`);
+    }
+  }
+
+  const productionItems = [...rows.values()].map(({ item, locations }) => ({
+    ...item,
+    locations: [...locations].join(', '),
+    categoryCount: itemCategories.get(item.productionItemNum)?.size ?? 1,
+  }));
+  return { productionItems, warnings };
+}
+
 /**
  * Generate recipes from schemes and preferences
  *
@@ -203,11 +485,15 @@ function generateCatalogs(data: ParsedData): Catalog[] {
 function generateRecipes(
   data: ParsedData,
   schemeDictionary: SchemeDictionary,
-  catalogs: Catalog[]
+  catalogs: Catalog[],
+  categories: Category[],
+  locationLookup: Map<string, number>,
+  allocateId: IdAllocator,
+  calendar: PlanCalendar,
+  phaseMergeRules: PhaseMergeRule[]
 ): { recipes: Recipe[]; warnings: string[] } {
   const recipes: Recipe[] = [];
   const warnings: string[] = [];
-  let id = 1;
 
   // Build genus+series+color → catalog map
   const catalogMap = new Map<string, number>();
@@ -215,14 +501,23 @@ function generateRecipes(
     catalogMap.set(`${catalog.genus}|${catalog.series}|${catalog.color}`, catalog.id);
   }
 
-  // Build scheme → genus map
-  const schemeGenusMap = new Map<string, string>();
+  // Scheme code → child category, category name → parent category
+  const childCategoryMap = new Map<string, Category>();
+  const parentCategoryMap = new Map<string, Category>();
+  for (const entry of categories) {
+    if (entry.kind === 'child') childCategoryMap.set(entry.schemeCode ?? '', entry);
+    else parentCategoryMap.set(entry.category, entry);
+  }
+
+  // Build scheme → scheme row map (genus + source)
+  const schemeMap = new Map<string, ParsedData['schemes'][number]>();
   for (const scheme of data.schemes) {
-    schemeGenusMap.set(scheme.code, scheme.genusCode);
+    schemeMap.set(scheme.code, scheme);
   }
 
   // Process each preference (links items to schemes)
   const seenRecipes = new Set<string>();
+  const unmappedLocations = new Set<string>();
 
   for (const pref of data.preferences) {
     const schemeCode = pref.schemeCode;
@@ -233,32 +528,57 @@ function generateRecipes(
       continue;
     }
 
-    const genus = schemeGenusMap.get(schemeCode) || '';
-    const { category } = parseSchemeCode(schemeCode);
+    const scheme = schemeMap.get(schemeCode);
+    const genus = scheme?.genusCode || '';
+    const schemeParts = parseSchemeCode(schemeCode);
+    const { category } = schemeParts;
+    const phaseActions = createPhaseActions(phaseMergeRules, category, genus);
     const catalogId = catalogMap.get(`${genus}|${pref.productionItemNo}|${pref.variantCode}`);
+    const categoryRow = childCategoryMap.get(schemeCode) ?? parentCategoryMap.get(category);
+    const locationId = resolveLocationId(locationLookup, pref.locationCode);
+    if (locationId === undefined && pref.locationCode && !unmappedLocations.has(pref.locationCode)) {
+      unmappedLocations.add(pref.locationCode);
+      warnings.push(`No PRODUCE LocationID mapped for location: ${pref.locationCode}`);
+    }
 
     // Merge phases and create recipe for each segment
-    const mergedRules = mergeGrowAndSpace(rules);
+    const mergedRules = mergeGrowAndSpace(rules, calendar, phaseActions);
 
     for (const rule of mergedRules) {
       // Deduplicate recipes by unique key
-      const recipeKey = `${pref.locationCode}|${schemeCode}|${rule.startWeek}|${rule.endWeek}`;
+      const recipeKey = recipeLedgerKey({ locationCode: pref.locationCode, schemeCode, startWeek: rule.startWeek, endWeek: rule.endWeek });
       if (seenRecipes.has(recipeKey)) continue;
       seenRecipes.add(recipeKey);
 
       recipes.push({
-        id: id++,
+        id: allocateId(recipeKey),
         locationCode: pref.locationCode,
+        locationId,
         category,
         schemeCode,
+        schemePrefix: schemeParts.prefix,
+        genusAbbrev: schemeParts.genusAbbrev,
+        timeProfile: schemeParts.timeProfile,
+        ...(schemeParts.areaSqFt !== undefined && { areaSqFt: schemeParts.areaSqFt }),
         genus,
         series: pref.productionItemNo,
         color: pref.variantCode,
         startWeek: rule.startWeek,
         endWeek: rule.endWeek,
+        ...windowDates(calendar, rule.startWeek, rule.endWeek),
         growWeeks: rule.growWeeks,
         notes: schemeCode, // Store scheme code in Notes per BLN requirements
         catalogId,
+        categoryId: categoryRow?.id,
+        lineage: {
+          sources: collectSources(pref.source, scheme?.source, rule.sources),
+          steps: [
+            `Preference ${pref.productionItemNo}/${pref.variantCode} at ${pref.locationCode} → scheme ${schemeCode}`,
+            `Genus ${genus || '(none)'} from scheme; scheme code: ${describeSchemeCode(schemeParts)}`,
+            categoryRow ? `Category #${categoryRow.id} ${categoryRow.category} (${categoryRow.kind})` : 'No category',
+            ...rule.steps,
+          ],
+        },
       });
     }
   }
@@ -267,82 +587,265 @@ function generateRecipes(
 }
 
 /**
- * Generate space events from recipes and scheme rules
+ * The preference and scheme rows a recipe was built from (for lineage of derived rows)
+ */
+function recipeOrigin(recipe: Recipe): SourceRef[] {
+  return recipe.lineage.sources.filter(s => s.kind === 'preference' || s.kind === 'scheme');
+}
+
+/** PRODUCE SpacePlanning.SpaceTypes ids (1 = Floor, 2 = Hang) */
+export const SPACE_TYPE_IDS: Record<SpaceTypeName, number> = {
+  Floor: 1,
+  Hang: 2,
+};
+
+/**
+ * Hang space is used by HANG phases and by the hang time profiles (LHN, MHN, SHN)
+ */
+export function spaceTypeFor(phase: string, timeProfile: string): SpaceTypeName {
+  return phase === 'HANG' || timeProfile.endsWith('HN') ? 'Hang' : 'Floor';
+}
+
+/**
+ * Trigger description: {TimeProfile}-{WeekOffset}, e.g. LHN-2 or SHD-52.
+ * Scheme codes without a time profile fall back to the phase name.
+ */
+export function triggerDescription(timeProfile: string, phase: string, weekOffset: number): string {
+  return `${timeProfile || phase}-${weekOffset}`;
+}
+
+/**
+ * Generate space events from recipes and scheme rules, together with the
+ * deduplicated Events.Spaces / Events.SpaceDetails / Events.Triggers rows they reference
  *
  * VBA equivalent: GenerateSpaceEvents
  */
 function generateEvents(
   recipes: Recipe[],
-  schemeDictionary: SchemeDictionary
-): SpaceEvent[] {
+  schemeDictionary: SchemeDictionary,
+  allocateId: IdAllocator,
+  allocateTriggerId: IdAllocator,
+  allocateDefinitionId: IdAllocator,
+  allocateDetailId: IdAllocator,
+  calendar: PlanCalendar,
+  phaseMergeRules: PhaseMergeRule[]
+): {
+  events: SpaceEvent[];
+  eventDefinitions: SpaceEventDefinition[];
+  eventDetails: SpaceEventDetail[];
+  triggers: EventTrigger[];
+} {
   const events: SpaceEvent[] = [];
-  let id = 1;
+  const definitionsByEvent = new Map<string, SpaceEventDefinition>();
+  const detailsByKey = new Map<string, SpaceEventDetail>();
+  const triggersByDescription = new Map<string, EventTrigger>();
+  const recipesByEvent = new Map<number, Set<number>>();
 
   for (const recipe of recipes) {
     const rules = schemeDictionary[recipe.schemeCode];
     if (!rules) continue;
 
+    const { timeProfile } = recipe;
+    const phaseActions = createPhaseActions(phaseMergeRules, recipe.category, recipe.genus);
+
     // Find GROW rules for trigger calculation
     const growRules = rules.filter(r => r.phase === 'GROW');
 
     for (const rule of rules) {
-      // Check if rule overlaps with recipe window
-      if (recipe.startWeek > rule.endWeek || recipe.endWeek < rule.startWeek) {
-        continue;
-      }
-
-      // Calculate overlap
-      const ovStart = Math.max(recipe.startWeek, rule.startWeek);
-      const ovEnd = Math.min(recipe.endWeek, rule.endWeek);
-
-      // Calculate trigger weeks (for non-GROW phases)
-      let triggerWeeks = 0;
-      if (rule.phase !== 'GROW') {
-        for (const growRule of growRules) {
-          if (ovStart >= growRule.startWeek && ovEnd <= growRule.endWeek) {
-            triggerWeeks = growRule.growWeeks;
-            break;
+      // Ignored phases get no space event
+      const { action: mergeAction, rule: mergeRule } = phaseActions(rule.phase);
+      if (mergeAction === 'ignore') continue;
+
+      // Weeks the rule shares with the recipe window (two pieces when one wraps around the other)
+      for (const overlap of overlapWindows(calendar, recipe, rule)) {
+        const { startWeek: ovStart, endWeek: ovEnd } = overlap;
+
+        // Calculate trigger weeks (for non-GROW phases)
+        let triggerWeeks = 0;
+        if (rule.phase !== 'GROW') {
+          for (const growRule of growRules) {
+            if (windowWithin(calendar, overlap, growRule)) {
+              triggerWeeks = growRule.growWeeks;
+              break;
+            }
           }
         }
+
+        // Dedupe trigger → event definition → event detail
+        const triggerName = triggerDescription(timeProfile, rule.phase, triggerWeeks);
+        let trigger = triggersByDescription.get(triggerName);
+        if (!trigger) {
+          trigger = {
+            id: allocateTriggerId(triggerName),
+            description: triggerName,
+            timeProfile: timeProfile || rule.phase,
+            unitOffset: triggerWeeks,
+          };
+          triggersByDescription.set(triggerName, trigger);
+        }
+
+        let definition = definitionsByEvent.get(recipe.schemeCode);
+        if (!definition) {
+          definition = {
+            id: allocateDefinitionId(recipe.schemeCode),
+            event: recipe.schemeCode,
+            category: recipe.category,
+            timeProfile,
+            detailCount: 0,
+            recipeCount: 0,
+          };
+          definitionsByEvent.set(recipe.schemeCode, definition);
+        }
+
+        const spaceType = spaceTypeFor(rule.phase, timeProfile);
+        // Keyed on content rather than ids so the key itself never depends on row order
+        const detailKey = `${definition.event}|${trigger.description}|${spaceType}|${rule.growWeeks}`;
+        let detail = detailsByKey.get(detailKey);
+        if (!detail) {
+          detail = {
+            id: allocateDetailId(detailKey),
+            eventId: definition.id,
+            event: definition.event,
+            description: recipe.schemeCode,
+            phase: rule.phase,
+            triggerId: trigger.id,
+            trigger: trigger.description,
+            spaceCategory: recipe.category,
+            spaceType,
+            spaceTypeId: SPACE_TYPE_IDS[spaceType],
+            duration: rule.growWeeks,
+          };
+          detailsByKey.set(detailKey, detail);
+          definition.detailCount++;
+        }
+
+        const linkedRecipes = recipesByEvent.get(definition.id) || new Set<number>();
+        linkedRecipes.add(recipe.id);
+        recipesByEvent.set(definition.id, linkedRecipes);
+
+        events.push({
+          id: allocateId(`${recipeLedgerKey(recipe)}|${rule.phase}|${ovStart}|${ovEnd}`),
+          recipeId: recipe.id,
+          locationCode: recipe.locationCode,
+          locationId: recipe.locationId,
+          category: recipe.category,
+          schemeCode: recipe.schemeCode,
+          schemePrefix: recipe.schemePrefix,
+          genusAbbrev: recipe.genusAbbrev,
+          ...(recipe.areaSqFt !== undefined && { areaSqFt: recipe.areaSqFt }),
+          genus: recipe.genus,
+          series: recipe.series,
+          color: recipe.color,
+          phase: rule.phase,
+          startWeek: ovStart,
+          endWeek: ovEnd,
+          ...windowDates(calendar, ovStart, ovEnd),
+          triggerWeeks,
+          durationWeeks: rule.growWeeks,
+          timeProfile,
+          trigger: trigger.description,
+          spaceType,
+          eventId: definition.id,
+          eventDetailId: detail.id,
+          triggerId: trigger.id,
+          lineage: {
+            sources: collectSources(recipeOrigin(recipe), rule.sources),
+            steps: [
+              `Recipe #${recipe.id} weeks ${describeWindow(recipe.startWeek, recipe.endWeek)} ∩ ${rule.phase} weeks ${describeWindow(rule.startWeek, rule.endWeek)} = ${describeWindow(ovStart, ovEnd)}`,
+              ...rule.steps,
+              rule.phase === 'GROW'
+                ? `Trigger ${trigger.description}: GROW starts at offset 0`
+                : `Trigger ${trigger.description}: after ${triggerWeeks} GROW wks`,
+              `Space type ${spaceType} (phase ${rule.phase}, time profile ${timeProfile || 'none'})`,
+              ...(mergeRule ? [`${PHASE_MERGE_LABELS[mergeAction]} (rule: ${describePhaseMergeRule(mergeRule)})`] : []),
+            ],
+          },
+        });
       }
+    }
+  }
 
-      events.push({
-        id: id++,
-        recipeId: recipe.id,
-        locationCode: recipe.locationCode,
-        category: recipe.category,
-        schemeCode: recipe.schemeCode,
-        genus: recipe.genus,
-        series: recipe.series,
-        color: recipe.color,
-        phase: rule.phase,
-        startWeek: ovStart,
-        endWeek: ovEnd,
-        triggerWeeks,
-        durationWeeks: rule.growWeeks,
-      });
+  const eventDefinitions = Array.from(definitionsByEvent.values());
+  for (const definition of eventDefinitions) {
+    definition.recipeCount = recipesByEvent.get(definition.id)?.size ?? 0;
+  }
+
+  return {
+    events,
+    eventDefinitions,
+    eventDetails: Array.from(detailsByKey.values()),
+    triggers: Array.from(triggersByDescription.values()),
+  };
+}
+
+/**
+ * Generate the Setup.RecipeSpaceEvents link table: one row per recipe and
+ * reusable event definition, marked IsExcluded when an exclusion rule matches
+ */
+function generateRecipeSpaceEvents(
+  recipes: Recipe[],
+  events: SpaceEvent[],
+  exclusionRules: EventExclusionRule[],
+  allocateId: IdAllocator
+): RecipeSpaceEvent[] {
+  const recipeMap = new Map(recipes.map(r => [r.id, r]));
+  const phasesByLink = new Map<string, { recipe: Recipe; event: SpaceEvent; phases: string[] }>();
+
+  for (const event of events) {
+    const recipe = recipeMap.get(event.recipeId);
+    if (!recipe) continue;
+    const key = `${event.recipeId}|${event.eventId}`;
+    const link = phasesByLink.get(key);
+    if (!link) {
+      phasesByLink.set(key, { recipe, event, phases: [event.phase] });
+    } else if (!link.phases.includes(event.phase)) {
+      link.phases.push(event.phase);
     }
   }
 
-  return events;
+  return [...phasesByLink.values()].map(({ recipe, event, phases }) => {
+    const rule = resolveEventExclusionRule(exclusionRules, { locationCode: recipe.locationCode, category: recipe.category, phases });
+    return {
+      id: allocateId(`${recipeLedgerKey(recipe)}|${event.schemeCode}`),
+      recipeId: recipe.id,
+      eventId: event.eventId,
+      event: event.schemeCode,
+      locationCode: recipe.locationCode,
+      category: recipe.category,
+      phases: phases.join(', '),
+      isExcluded: rule !== undefined,
+      exclusionRule: rule ? describeEventExclusionRule(rule) : '',
+      lineage: {
+        sources: recipeOrigin(recipe),
+        steps: [
+          `Recipe #${recipe.id} → event #${event.eventId} ${event.schemeCode} (${phases.join(', ')})`,
+          rule ? `Excluded (rule: ${describeEventExclusionRule(rule)})` : 'Included (no exclusion rule matches)',
+        ],
+      },
+    };
+  });
 }
 
 /**
  * Generate space specs from recipes and scheme lines
- * Space calculation: sqrt(qtyPerArea) for width and length
+ * Space calculation: per-category / per-genus space model (see spaceModel.ts),
+ * square 12 × SQRT(1/qtyPerArea) inches by default
  */
 function generateSpecs(
   recipes: Recipe[],
-  data: ParsedData
+  data: ParsedData,
+  categories: Category[],
+  spaceModelRules: SpaceModelRule[],
+  allocateId: IdAllocator
 ): SpaceSpec[] {
   const specs: SpaceSpec[] = [];
-  let id = 1;
+  const categoryMap = new Map(categories.map(c => [c.id, c]));
 
-  // Build scheme → qtyPerArea map
-  const schemeQtyMap = new Map<string, { phase: string; qtyPerArea: number }[]>();
+  // Build scheme → scheme lines map (qtyPerArea per phase)
+  const schemeQtyMap = new Map<string, typeof data.schemeLines>();
   for (const line of data.schemeLines) {
     const existing = schemeQtyMap.get(line.schemeCode) || [];
-    existing.push({ phase: line.phase, qtyPerArea: line.qtyPerArea });
+    existing.push(line);
     schemeQtyMap.set(line.schemeCode, existing);
   }
 
@@ -350,60 +853,41 @@ function generateSpecs(
     const qtyData = schemeQtyMap.get(recipe.schemeCode);
     if (!qtyData) continue;
 
+    const rule = resolveSpaceModelRule(spaceModelRules, recipe.category, recipe.genus);
+    const categoryRow = recipe.categoryId !== undefined ? categoryMap.get(recipe.categoryId) : undefined;
+
     for (const item of qtyData) {
-      if (item.qtyPerArea > 0) {
-        // Calculate space dimensions (sqrt of qty per area)
-        const spaceDim = Math.sqrt(item.qtyPerArea);
+      // Lines without a quantity get the 12×12 default
+      const dims = computeSpaceDimensions(rule?.model ?? DEFAULT_SPACE_MODEL, item.qtyPerArea, rule?.fixedWidth);
 
-        specs.push({
-          id: id++,
-          recipeId: recipe.id,
-          spaceWidth: Math.round(spaceDim * 100) / 100,
-          spaceLength: Math.round(spaceDim * 100) / 100,
-          qtyPerArea: item.qtyPerArea,
-          phase: item.phase,
-        });
-      }
+      specs.push({
+        id: allocateId(`${recipeLedgerKey(recipe)}|${item.phase}|${item.lineNo}`),
+        recipeId: recipe.id,
+        spaceWidth: dims.spaceWidth,
+        spaceLength: dims.spaceLength,
+        qtyPerArea: item.qtyPerArea,
+        phase: item.phase,
+        locationId: recipe.locationId,
+        stagger: dims.stagger,
+        spaceModel: dims.model,
+        spaceModelRule: describeSpaceModelRule(rule),
+        categoryId: categoryRow?.id,
+        spaceCategoryId: categoryRow?.spaceCategoryId,
+        lineage: {
+          sources: collectSources(recipeOrigin(recipe), item.source),
+          steps: [
+            `Recipe #${recipe.id}, ${item.phase} line ${item.lineNo}: Qty per Area ${item.qtyPerArea}`,
+            `Model ${dims.model} (rule: ${describeSpaceModelRule(rule)})`,
+            dims.formula,
+          ],
+        },
+      });
     }
   }
 
   return specs;
 }
 
-/**
- * Pick the best recipe for a given location, production item, and week
- * "Best" = narrowest week window that covers the given week
- *
- * VBA equivalent: PickBestRecipe
- */
-function pickBestRecipe(
-  recipes: Recipe[],
-  location: string,
-  productionItem: string,
-  week: number
-): Recipe | undefined {
-  let bestRecipe: Recipe | undefined;
-  let bestScore = 9999;
-
-  for (const recipe of recipes) {
-    // Match by location and production item (series)
-    if (recipe.locationCode !== location) continue;
-    if (recipe.series !== productionItem) continue;
-
-    // Check if week is in range
-    if (week < recipe.startWeek || week > recipe.endWeek) continue;
-
-    // Score = window width (narrower is better)
-    const score = recipe.endWeek - recipe.startWeek;
-    if (score < bestScore) {
-      bestScore = score;
-      bestRecipe = recipe;
-    }
-  }
-
-  return bestRecipe;
-}
-
 /**
  * Generate recipe mixes from 4M Variant Mixes data
  *
@@ -411,30 +895,43 @@ function pickBestRecipe(
  */
 function generateMixes(
   data: ParsedData,
-  recipes: Recipe[],
-  catalogs: Catalog[]
+  lookup: RecipeLookup,
+  catalogs: Catalog[],
+  allocateId: IdAllocator,
+  calendar: PlanCalendar
 ): { mixes: RecipeMix[]; warnings: string[] } {
   const mixes: RecipeMix[] = [];
   const warnings: string[] = [];
-  let id = 1;
 
   if (data.mixRows.length === 0) {
     return { mixes, warnings };
   }
 
-  // Build catalog lookup by genus + variant
+  // Build catalog lookup by genus + variant, and the first catalog per genus for the fallback
   const catalogByVariant = new Map<string, number>();
+  const firstCatalogByGenus = new Map<string, number>();
   for (const catalog of catalogs) {
     const key = `${catalog.genus}|${catalog.series}|${catalog.color}`.toLowerCase();
     catalogByVariant.set(key, catalog.id);
+    const genus = catalog.genus.toLowerCase();
+    if (!firstCatalogByGenus.has(genus)) firstCatalogByGenus.set(genus, catalog.id);
   }
 
   // Process each mix row
   for (const mixRow of data.mixRows) {
     if (mixRow.weeklyPcts.size === 0) continue;
 
+    // Week 53 columns are ignored in a 52-week plan year
+    const allWeeks = Array.from(mixRow.weeklyPcts.keys()).sort((a, b) => a - b);
+    const weekNums = allWeeks.filter(week => week <= calendar.weeksInYear);
+    if (weekNums.length < allWeeks.length) {
+      warnings.push(
+        `Mix for ${mixRow.location}/${mixRow.productionItem} variant ${mixRow.variantCode} has week ${allWeeks[allWeeks.length - 1]} but ${calendar.planYear} has ${calendar.weeksInYear} weeks — ignored`
+      );
+    }
+    if (weekNums.length === 0) continue;
+
     // Group consecutive weeks with same percentage
-    const weekNums = Array.from(mixRow.weeklyPcts.keys()).sort((a, b) => a - b);
     let currentPct = -1;
     let startWeek = weekNums[0];
 
@@ -449,40 +946,43 @@ function generateMixes(
           const endWeek = weekNums[i - 1] ?? startWeek;
 
           // Find best recipe for this segment
-          const recipe = pickBestRecipe(
-            recipes,
-            mixRow.location,
-            mixRow.productionItem,
-            startWeek
-          );
+          const recipe = lookup.find(mixRow.location, mixRow.productionItem, startWeek);
 
           if (recipe) {
             // Try to find catalog by variant
             let catalogId: number | undefined;
             const variantKey = `${recipe.genus}|${mixRow.productionItem}|${mixRow.variantCode}`.toLowerCase();
             catalogId = catalogByVariant.get(variantKey);
+            let catalogStep = `Catalog #${catalogId} matched ${recipe.genus}/${mixRow.productionItem}/${mixRow.variantCode}`;
 
             // Fallback: try just genus
             if (!catalogId) {
-              for (const catalog of catalogs) {
-                if (catalog.genus.toLowerCase() === recipe.genus.toLowerCase()) {
-                  catalogId = catalog.id;
-                  break;
-                }
-              }
+              catalogId = firstCatalogByGenus.get(recipe.genus.toLowerCase());
+              if (catalogId) catalogStep = `No variant catalog; fell back to first ${recipe.genus} catalog #${catalogId}`;
             }
+            if (!catalogId) catalogStep = `No catalog for genus ${recipe.genus}`;
 
             mixes.push({
-              id: id++,
+              id: allocateId(`${mixRow.location}|${mixRow.commonItem}|${mixRow.productionItem}|${mixRow.variantCode}|${startWeek}`),
               recipeId: recipe.id,
               catalogId: catalogId ?? 0,
               mixPct: currentPct,
               commonItem: mixRow.commonItem,
               location: mixRow.location,
+              locationId: recipe.locationId,
               variant: mixRow.variantCode,
               startWeek,
               endWeek,
+              ...windowDates(calendar, startWeek, endWeek),
               note: catalogId ? 'OK' : 'No Catalog',
+              lineage: {
+                sources: collectSources(mixRow.source, recipeOrigin(recipe)),
+                steps: [
+                  `${mixRow.commonItem} / ${mixRow.productionItem} variant ${mixRow.variantCode}: ${currentPct}% for weeks ${startWeek}–${endWeek}`,
+                  describeRecipePick(lookup, recipe, mixRow.location, mixRow.productionItem, startWeek),
+                  catalogStep,
+                ],
+              },
             });
           } else {
             warnings.push(
@@ -501,11 +1001,138 @@ function generateMixes(
   return { mixes, warnings };
 }
 
+/**
+ * Generate wildcard recipes from 4M Variant Mixes data.
+ * For each location + common item + production item block, walks the weeks and collapses
+ * consecutive weeks with the same variant percentage pattern into one wildcard recipe.
+ *
+ * VBA equivalent: CreateWildcardRecipes
+ */
+function generateWildcardRecipes(
+  data: ParsedData,
+  lookup: RecipeLookup,
+  allocateId: IdAllocator,
+  calendar: PlanCalendar
+): { wildcardRecipes: WildcardRecipe[]; warnings: string[] } {
+  const wildcardRecipes: WildcardRecipe[] = [];
+  const warnings: string[] = [];
+
+  if (data.mixRows.length === 0) {
+    return { wildcardRecipes, warnings };
+  }
+
+  // Patterns run over every week of the plan year: week 53 columns are ignored in a 52-week
+  // year, and weeks after the sheet's last week column keep that week's mix
+  const lastWeek = calendar.weeksInYear;
+  let sheetLastWeek = 1;
+  for (const mixRow of data.mixRows) {
+    for (const week of mixRow.weeklyPcts.keys()) {
+      sheetLastWeek = Math.max(sheetLastWeek, week);
+    }
+  }
+
+  // Group variant rows into blocks (VBA: rows until Common Item / Production Item changes)
+  const blocks = new Map<string, typeof data.mixRows>();
+  for (const mixRow of data.mixRows) {
+    const key = `${mixRow.location}|${mixRow.commonItem}|${mixRow.productionItem}`;
+    const existing = blocks.get(key) || [];
+    existing.push(mixRow);
+    blocks.set(key, existing);
+  }
+
+  for (const rows of blocks.values()) {
+    const { location, commonItem, productionItem } = rows[0];
+
+    // Pattern for a week = each variant's percentage, in row order
+    const patternForWeek = (week: number): string =>
+      rows
+        .map(row => {
+          const pct = row.weeklyPcts.get(Math.min(week, sheetLastWeek));
+          return pct ? `${row.variantCode}=${Math.round(pct * 100) / 100}` : '';
+        })
+        .filter(Boolean)
+        .join('|');
+
+    let startWeek = 1;
+    let lastPattern = patternForWeek(1);
+
+    for (let week = 2; week <= lastWeek + 1; week++) {
+      const pattern = week <= lastWeek ? patternForWeek(week) : null;
+      if (pattern === lastPattern) continue;
+
+      // Output previous block (weeks without any mix are not recipes)
+      if (lastPattern) {
+        const endWeek = week - 1;
+        const recipe = lookup.find(location, productionItem, startWeek);
+
+        if (recipe) {
+          const fullYear = startWeek === 1 && endWeek === lastWeek;
+          wildcardRecipes.push({
+            id: allocateId(`${location}|${commonItem}|${productionItem}|${startWeek}|${endWeek}`),
+            locationCode: location,
+            locationId: recipe.locationId,
+            category: recipe.category,
+            schemeCode: recipe.schemeCode,
+            genus: recipe.genus,
+            series: productionItem,
+            color: '*',
+            commonItem,
+            startWeek: fullYear ? null : startWeek,
+            endWeek: fullYear ? null : endWeek,
+            growWeeks: 0,
+            pattern: lastPattern,
+            variantCount: lastPattern.split('|').length,
+            notes: recipe.schemeCode,
+            lineage: {
+              sources: collectSources(rows.map(row => row.source), recipeOrigin(recipe)),
+              steps: [
+                `${commonItem} / ${productionItem}: weeks ${startWeek}–${endWeek} share mix ${lastPattern}`,
+                fullYear ? `Covers weeks 1–${lastWeek}: stored with no start/end week` : `Weeks ${startWeek}–${endWeek}`,
+                describeRecipePick(lookup, recipe, location, productionItem, startWeek),
+              ],
+            },
+          });
+        } else {
+          warnings.push(
+            `No recipe found for wildcard ${location}/${productionItem} weeks ${startWeek}-${endWeek}`
+          );
+        }
+      }
+
+      startWeek = week;
+      lastPattern = pattern ?? '';
+    }
+  }
+
+  return { wildcardRecipes, warnings };
+}
+
+/**
+ * Run one transform stage, reporting its start, duration and output size
+ */
+function runStage<T>(
+  stage: TransformStage,
+  onProgress: ((progress: TransformProgress) => void) | undefined,
+  run: () => T,
+  summarize: (output: T) => { count?: number; detail?: string } = () => ({})
+): T {
+  onProgress?.({ stage, status: 'running' });
+  const start = performance.now();
+  const output = run();
+  onProgress?.({ stage, status: 'complete', durationMs: Math.round(performance.now() - start), ...summarize(output) });
+  return output;
+}
+
 /**
  * Main transform function
- * Takes parsed Arc Flow data and produces PRODUCE-ready output
+ * Takes parsed Arc Flow data and produces PRODUCE-ready output.
+ * onProgress is called as each stage starts and completes.
  */
-export function transform(data: ParsedData): TransformResult {
+export function transform(
+  data: ParsedData,
+  options: TransformOptions = {},
+  onProgress?: (progress: TransformProgress) => void
+): TransformResult {
   const errors: string[] = [];
   const warnings: string[] = [];
 
@@ -520,36 +1147,165 @@ export function transform(data: ParsedData): TransformResult {
   if (errors.length > 0) {
     return {
       catalogs: [],
+      categories: [],
+      productionItems: [],
       recipes: [],
       events: [],
+      eventDefinitions: [],
+      eventDetails: [],
+      triggers: [],
+      recipeSpaceEvents: [],
       specs: [],
       mixes: [],
+      recipeMixes: [],
+      blnVariantMixes: [],
+      wildcardRecipes: [],
+      mixAudit: auditMixes(data, [], []),
+      idLedger: cloneIdLedger(options.idLedger),
       errors,
       warnings,
     };
   }
 
+  // Week numbering of the plan year (52 or 53 weeks, windows may wrap into the next year)
+  const calendar = createPlanCalendar(options.planYear);
+
   // Build scheme dictionary
-  const schemeDictionary = buildSchemeDictionary(data);
+  const { dictionary: schemeDictionary, warnings: dictionaryWarnings } = runStage(
+    'dictionary',
+    onProgress,
+    () => buildSchemeDictionary(data, calendar, options.weekRounding),
+    ({ dictionary }) => ({
+      count: Object.keys(dictionary).length,
+      detail: `${Object.keys(dictionary).length} scheme rules built`,
+    })
+  );
+  warnings.push(...dictionaryWarnings);
+
+  // Resolve Arc Flow location codes to PRODUCE LocationIDs
+  const locationLookup = buildLocationLookup(options.locationMappings ?? DEFAULT_LOCATION_MAPPINGS);
+
+  // Ids come from the ledger so the same logical row keeps its id across runs
+  const idLedger = cloneIdLedger(options.idLedger);
+  const allocators = {} as Record<IdLedgerTable, IdAllocator>;
+  for (const table of ID_LEDGER_TABLES) {
+    allocators[table] = createIdAllocator(idLedger.tables[table]);
+  }
 
   // Generate outputs
-  const catalogs = generateCatalogs(data);
-  const { recipes, warnings: recipeWarnings } = generateRecipes(data, schemeDictionary, catalogs);
+  const { catalogs, categories, productionItems, warnings: productionItemWarnings } = runStage(
+    'catalogs',
+    onProgress,
+    () => {
+      const catalogs = generateCatalogs(data, allocators.catalogs);
+      const categories = generateCategories(data, schemeDictionary, allocators.categories, allocators.spaceCategories);
+      return {
+        catalogs,
+        categories,
+        ...generateProductionItems(data, catalogs, categories, allocators.productionItems),
+      };
+    },
+    output => ({
+      count: output.catalogs.length,
+      detail: `${output.catalogs.length} catalogs, ${output.categories.length} categories, ` +
+        `${output.productionItems.length} production items`,
+    })
+  );
+  warnings.push(...productionItemWarnings);
+
+  const { recipes, warnings: recipeWarnings } = runStage(
+    'recipes',
+    onProgress,
+    () => generateRecipes(data, schemeDictionary, catalogs, categories, locationLookup, allocators.recipes, calendar, options.phaseMergeRules ?? []),
+    output => ({ count: output.recipes.length, detail: `${output.recipes.length} recipes` })
+  );
   warnings.push(...recipeWarnings);
 
-  const events = generateEvents(recipes, schemeDictionary);
-  const specs = generateSpecs(recipes, data);
-
-  // Generate mixes from 4M Excel data
-  const { mixes, warnings: mixWarnings } = generateMixes(data, recipes, catalogs);
+  const { events, eventDefinitions, eventDetails, triggers, recipeSpaceEvents, specs } = runStage(
+    'events',
+    onProgress,
+    () => {
+      const generated = generateEvents(
+        recipes,
+        schemeDictionary,
+        allocators.events,
+        allocators.triggers,
+        allocators.eventDefinitions,
+        allocators.eventDetails,
+        calendar,
+        options.phaseMergeRules ?? []
+      );
+      return {
+        ...generated,
+        recipeSpaceEvents: generateRecipeSpaceEvents(
+          recipes,
+          generated.events,
+          options.eventExclusionRules ?? [],
+          allocators.recipeSpaceEvents
+        ),
+        specs: generateSpecs(recipes, data, categories, options.spaceModelRules ?? [], allocators.specs),
+      };
+    },
+    output => ({
+      count: output.events.length + output.specs.length,
+      detail: `${output.events.length} events (${output.eventDetails.length} details, ${output.triggers.length} triggers, ` +
+        `${output.recipeSpaceEvents.length} recipe links), ${output.specs.length} specs`,
+    })
+  );
+
+  // Mixes, wildcard recipes and the mix audit share one recipe index
+  const recipeLookup = buildRecipeLookup(recipes, calendar);
+
+  // Generate mixes from 4M Excel data, plus the per-recipe Setup.RecipeMixes / dbo.BLNVariantMixes rows
+  const { mixes, recipeMixes, blnVariantMixes, warnings: mixWarnings } = runStage(
+    'mixes',
+    onProgress,
+    () => {
+      const generated = generateMixes(data, recipeLookup, catalogs, allocators.mixes, calendar);
+      const variantMixes = buildVariantMixes(generated.mixes, calendar);
+      return { ...generated, ...variantMixes, warnings: [...generated.warnings, ...variantMixes.warnings] };
+    },
+    output => ({
+      count: output.mixes.length,
+      detail: output.mixes.length > 0
+        ? `${output.mixes.length} mixes (${output.blnVariantMixes.length} BLN variant mixes)`
+        : 'No mixes generated',
+    })
+  );
   warnings.push(...mixWarnings);
 
+  // Collapse identical weekly mix patterns into wildcard recipes
+  const { wildcardRecipes, warnings: wildcardWarnings } = runStage(
+    'wildcards',
+    onProgress,
+    () => generateWildcardRecipes(data, recipeLookup, allocators.wildcardRecipes, calendar),
+    output => ({
+      count: output.wildcardRecipes.length,
+      detail: output.wildcardRecipes.length > 0 ? `${output.wildcardRecipes.length} wildcard recipes` : 'No mix patterns',
+    })
+  );
+  warnings.push(...wildcardWarnings);
+
+  // Check mix totals and links (VBA audit macros)
+  const mixAudit = runStage('audit', onProgress, () => auditMixes(data, recipes, mixes, recipeLookup));
+
   return {
     catalogs,
+    categories,
+    productionItems,
     recipes,
     events,
+    eventDefinitions,
+    eventDetails,
+    triggers,
+    recipeSpaceEvents,
     specs,
     mixes,
+    recipeMixes,
+    blnVariantMixes,
+    wildcardRecipes,
+    mixAudit,
+    idLedger,
     errors,
     warnings,
   };
@@ -1,8 +1,24 @@
+// Where a parsed row came from (line is 1-based in the source file / sheet)
+export type SourceKind = 'scheme' | 'schemeLine' | 'schemeLinePeriod' | 'preference' | 'mix';
+
+export interface SourceRef {
+  kind: SourceKind;
+  file: string;
+  line: number;
+}
+
+// Provenance carried by every output row: the source rows used and how the values were derived
+export interface Lineage {
+  sources: SourceRef[];
+  steps: string[];
+}
+
 // Arc Flow source data types
 export interface ProductionScheme {
   code: string;
   description: string;
   genusCode: string;
+  source?: SourceRef;
 }
 
 export interface ProductionSchemeLine {
@@ -12,6 +28,7 @@ export interface ProductionSchemeLine {
   duration: number;
   qtyPerArea: number;
   output: number;
+  source?: SourceRef;
 }
 
 export interface ProductionSchemeLinePeriod {
@@ -20,6 +37,7 @@ export interface ProductionSchemeLinePeriod {
   phase: string;
   days: number;
   periodNo: number;
+  source?: SourceRef;
 }
 
 export interface ProductionPreference {
@@ -29,14 +47,18 @@ export interface ProductionPreference {
   schemeCode: string;
   activitySchemeCode: string;
   addActivitySchemeCode: string;
+  source?: SourceRef;
 }
 
 // Intermediate types for transformation
+// Week windows: startWeek > endWeek wraps into the next year (e.g. weeks 50–4)
 export interface SchemeRule {
   startWeek: number;
   endWeek: number;
   growWeeks: number;
   phase: string;
+  sources: SourceRef[]; // scheme line / period rows the rule came from
+  steps: string[]; // derivation, e.g. "SPACE period 14: 14 days → 2 wks"
 }
 
 export interface SchemeDictionary {
@@ -49,54 +71,266 @@ export interface Catalog {
   genus: string;
   series: string;
   color: string;
+  lineage: Lineage;
+}
+
+// Setup.Categories row: a parent category (45INVIG) or a child carrying the
+// full scheme code with its SQ FT (BN-45INVIG-FUC-LSP-0.172)
+export type CategoryKind = 'parent' | 'child';
+
+export interface Category {
+  id: number;
+  category: string;
+  kind: CategoryKind;
+  parentId?: number; // child only
+  parentCategory?: string;
+  schemeCode?: string; // child only
+  unitOfMeasure: number; // PRODUCE default 1
+  spaceCategoryId: number; // SpacePlanning.Categories
+  spaceCategory: string; // category + SQ FT designation, e.g. 45INVIG 0.172
+  areaSqFt?: number; // sq ft per plant, child only
+  lineage: Lineage;
+}
+
+// Setup.ProductionItems row: a 4MM production item under one category and catalog
+export interface ProductionItem {
+  id: number;
+  productionItemNum: string;
+  categoryId: number; // parent category of the scheme code
+  category: string;
+  catalogId: number;
+  genus: string;
+  series: string;
+  color: string;
+  locations: string; // preference locations, e.g. "KY01, VA05"
+  categoryCount: number; // categories the item maps to across all locations (> 1 is flagged)
+  lineage: Lineage;
+}
+
+// Scheme code prefix: BN (network), a site code such as OH08, a grower code such as CG, or none (plain id)
+export type SchemePrefixKind = 'network' | 'site' | 'grower' | 'none';
+
+// Parts of a scheme code (see schemeCode.ts for the grammar)
+export interface SchemeCodeParts {
+  prefix: string;
+  prefixKind: SchemePrefixKind;
+  category: string; // container + category, e.g. 012PANN
+  genusAbbrev: string; // e.g. BEG
+  qualifiers: string[]; // segments between the genus and the time profile
+  timeProfile: string; // e.g. LSP
+  areaSqFt?: number; // trailing area suffix
+  errors: string[]; // why the code does not fit the grammar (empty when it does)
 }
 
 export interface Recipe {
   id: number;
   locationCode: string;
+  locationId?: number;
   category: string;
   schemeCode: string;
+  schemePrefix: string; // from the scheme code
+  genusAbbrev: string;
+  timeProfile: string;
+  areaSqFt?: number;
   genus: string;
   series: string;
   color: string;
   startWeek: number;
   endWeek: number;
+  startDate?: string; // YYYY-MM-DD, when a plan year is set
+  endDate?: string;
   growWeeks: number;
   notes: string;
   catalogId?: number;
+  categoryId?: number; // child category of the scheme code when it has one, else the parent
+  lineage: Lineage;
+}
+
+/**
+ * Wildcard recipe (Color `*`) covering consecutive weeks with an identical variant mix pattern.
+ * Start/end weeks are null when one pattern covers the whole year.
+ */
+export interface WildcardRecipe {
+  id: number;
+  locationCode: string;
+  locationId?: number;
+  category: string;
+  schemeCode: string;
+  genus: string;
+  series: string;
+  color: string;
+  commonItem: string;
+  startWeek: number | null;
+  endWeek: number | null;
+  growWeeks: number;
+  pattern: string;
+  variantCount: number;
+  notes: string;
+  lineage: Lineage;
 }
 
 export interface SpaceEvent {
   id: number;
   recipeId: number;
   locationCode: string;
+  locationId?: number;
   category: string;
   schemeCode: string;
+  schemePrefix: string; // from the scheme code
+  genusAbbrev: string;
+  areaSqFt?: number;
   genus: string;
   series: string;
   color: string;
   phase: string;
   startWeek: number;
   endWeek: number;
+  startDate?: string; // YYYY-MM-DD, when a plan year is set
+  endDate?: string;
   triggerWeeks: number;
   durationWeeks: number;
+  timeProfile: string;
+  trigger: string; // Events.Triggers description, e.g. LHN-2
+  spaceType: SpaceTypeName;
+  eventId: number; // → SpaceEventDefinition.id
+  eventDetailId: number; // → SpaceEventDetail.id
+  triggerId: number; // → EventTrigger.id
+  lineage: Lineage;
+}
+
+// PRODUCE SpacePlanning.SpaceTypes
+export type SpaceTypeName = 'Floor' | 'Hang';
+
+// Events.Triggers — named {TimeProfile}-{WeekOffset}
+export interface EventTrigger {
+  id: number;
+  description: string;
+  timeProfile: string;
+  unitOffset: number;
+}
+
+// Events.Spaces — one definition per scheme code
+export interface SpaceEventDefinition {
+  id: number;
+  event: string;
+  category: string;
+  timeProfile: string;
+  detailCount: number;
+  recipeCount: number;
+}
+
+// Setup.RecipeSpaceEvents — links a recipe to its reusable Events.Spaces definition
+export interface RecipeSpaceEvent {
+  id: number;
+  recipeId: number;
+  eventId: number; // → SpaceEventDefinition.id
+  event: string;
+  locationCode: string;
+  category: string;
+  phases: string; // phases of the recipe's space events, e.g. "GROW, SPACE"
+  isExcluded: boolean;
+  exclusionRule: string; // matching rule, e.g. "location:NC04" ('' when included)
+  lineage: Lineage;
+}
+
+// Events.SpaceDetails — distinct trigger / space type / duration per event
+export interface SpaceEventDetail {
+  id: number;
+  eventId: number;
+  event: string;
+  description: string;
+  phase: string;
+  triggerId: number;
+  trigger: string;
+  spaceCategory: string;
+  spaceType: SpaceTypeName;
+  spaceTypeId: number;
+  duration: number;
 }
 
 export interface SpaceSpec {
   id: number;
   recipeId: number;
-  spaceWidth: number;
-  spaceLength: number;
-  qtyPerArea: number;
+  spaceWidth: number; // inches
+  spaceLength: number; // inches
+  qtyPerArea: number; // plants per sq ft
   phase: string;
+  locationId?: number;
+  stagger: boolean;
+  spaceModel: SpaceModelKind;
+  spaceModelRule: string; // which rule produced the spec, e.g. "genus:BEGONIA" or "default"
+  categoryId?: number; // from the recipe
+  spaceCategoryId?: number;
+  lineage: Lineage;
+}
+
+// Space dimension models (SpacePlanning.Specs width / length)
+export type SpaceModelKind = 'square' | 'fixedWidth' | 'stagger' | 'default';
+
+export interface SpaceModelRule {
+  scope: 'category' | 'genus';
+  value: string;
+  model: SpaceModelKind;
+  fixedWidth?: number; // inches, required for fixedWidth
+}
+
+// What happens to a non-GROW phase: summed into recipe grow weeks, kept as its own SpaceEvent only, or dropped
+export type PhaseMergeAction = 'merge' | 'standalone' | 'ignore';
+
+export interface PhaseMergeRule {
+  scope: 'category' | 'genus';
+  value: string;
+  phase: string; // e.g. HANG, SHADE, SPACE
+  action: PhaseMergeAction;
+}
+
+// Setup.RecipeSpaceEvents.IsExcluded is set for links matching any of these rules
+export type EventExclusionScope = 'phase' | 'location' | 'category';
+
+export interface EventExclusionRule {
+  scope: EventExclusionScope;
+  value: string; // phase (HANG), location code (NC04) or category (45INVIG)
+}
+
+// Output tables whose ids are allocated through the id ledger
+export type IdLedgerTable =
+  | 'catalogs'
+  | 'categories'
+  | 'spaceCategories'
+  | 'productionItems'
+  | 'recipes'
+  | 'events'
+  | 'triggers'
+  | 'eventDefinitions'
+  | 'eventDetails'
+  | 'recipeSpaceEvents'
+  | 'specs'
+  | 'mixes'
+  | 'wildcardRecipes';
+
+// Natural key → id per table, carried between runs so the same logical row keeps its id
+export interface IdLedger {
+  version: 1;
+  tables: Record<IdLedgerTable, Record<string, number>>;
 }
 
 export interface TransformResult {
   catalogs: Catalog[];
+  categories: Category[];
+  productionItems: ProductionItem[];
   recipes: Recipe[];
   events: SpaceEvent[];
+  eventDefinitions: SpaceEventDefinition[];
+  eventDetails: SpaceEventDetail[];
+  triggers: EventTrigger[];
+  recipeSpaceEvents: RecipeSpaceEvent[];
   specs: SpaceSpec[];
   mixes: RecipeMix[];
+  recipeMixes: VariantMix[]; // Setup.RecipeMixes (float MixPct)
+  blnVariantMixes: VariantMix[]; // dbo.BLNVariantMixes (tinyint MixPct, smallint CatalogID)
+  wildcardRecipes: WildcardRecipe[];
+  mixAudit: MixAuditReport;
+  idLedger: IdLedger; // input ledger plus the ids allocated by this run
   errors: string[];
   warnings: string[];
 }
@@ -108,6 +342,7 @@ export interface MixRow {
   productionItem: string;
   variantCode: string;
   weeklyPcts: Map<number, number>; // week → percentage
+  source?: SourceRef;
 }
 
 export interface RecipeMix {
@@ -117,10 +352,125 @@ export interface RecipeMix {
   mixPct: number;
   commonItem: string;
   location: string;
+  locationId?: number;
   variant: string;
   startWeek: number;
   endWeek: number;
+  startDate?: string; // YYYY-MM-DD, when a plan year is set
+  endDate?: string;
   note: string;
+  lineage: Lineage;
+}
+
+// Setup.RecipeMixes / dbo.BLNVariantMixes row: one per recipe and catalog, the mix
+// percentage averaged over the recipe's mix weeks (whole percents for BLNVariantMixes)
+export interface VariantMix {
+  recipeId: number;
+  catalogId: number;
+  mixPct: number;
+}
+
+// Mix audit (VBA: AuditCommonItemWeeks / AuditMixLinks / AuditUnlinkedMixRows)
+export type MixAllocationStatus = 'OK' | 'OVER' | 'UNDER';
+
+export interface MixWeekAudit {
+  location: string;
+  commonItem: string;
+  week: number;
+  sourcePct: number; // sum of 4M Variant Mixes percentages
+  linkedPct: number; // sum of generated RecipeMix percentages
+  status: MixAllocationStatus;
+}
+
+export interface UnlinkedMixRow {
+  location: string;
+  commonItem: string;
+  productionItem: string;
+  variant: string;
+  firstWeek: number;
+  unlinkedWeeks: number;
+  reason: 'No recipe in range' | 'No catalog match';
+  recipeIdTried?: number;
+}
+
+export interface MixAuditReport {
+  weeks: MixWeekAudit[];
+  unlinkedRows: UnlinkedMixRow[];
+  orphanRecipes: Recipe[]; // recipes for mixed production items that no mix links to
+}
+
+// Which Arc Flow export a CSV file holds (named after its ParsedData field)
+export type ArcFlowFileKind = 'schemes' | 'schemeLines' | 'schemeLinePeriods' | 'preferences';
+
+// How a file's kind was worked out: by header signature, or by file name as a fallback
+export interface FileDetection {
+  kind: ArcFlowFileKind | null; // null = not an Arc Flow export
+  confidence: number; // 0-1
+  reason: string;
+}
+
+// A file dropped on the upload step
+export interface UploadedFile {
+  name: string;
+  size: number;
+  type: 'arc-flow' | 'excel' | 'unknown';
+  file: File;
+  rowCount?: number;
+  arcFlowKind?: ArcFlowFileKind | null; // which Arc Flow export (CSV files)
+  detection?: FileDetection; // what header / file name detection found
+  kindOverridden?: boolean; // arcFlowKind was set by hand
+}
+
+// How several files of the same Arc Flow export are combined:
+// concat = union of all files, identical rows dropped, differing rows flagged as conflicts;
+// latest = a file with a later date suffix (e.g. 260203) overrides rows of earlier files
+export type ArcFlowMergeMode = 'concat' | 'latest';
+
+export type MergeRowStatus = 'kept' | 'duplicate' | 'overridden' | 'conflict';
+
+// Which file a row came from and what the merge did with it
+export interface MergeContribution {
+  kind: ArcFlowFileKind;
+  key: string; // natural key, e.g. scheme code + line no
+  file: string;
+  line: number;
+  status: MergeRowStatus;
+}
+
+// Same natural key, different values, and no date to decide between them
+export interface MergeConflict {
+  kind: ArcFlowFileKind;
+  key: string;
+  keptFile: string;
+  keptLine: number;
+  droppedFile: string;
+  droppedLine: number;
+  differences: string; // e.g. "schemeCode: A → B"
+}
+
+export interface MergeFileSummary {
+  kind: ArcFlowFileKind;
+  file: string;
+  snapshot: string | null; // ISO date from the file name suffix
+  rows: number;
+  kept: number;
+  duplicates: number;
+  overridden: number;
+  conflicts: number;
+}
+
+export interface MergeReport {
+  mode: ArcFlowMergeMode;
+  files: MergeFileSummary[];
+  conflicts: MergeConflict[];
+  contributions: MergeContribution[];
+}
+
+// A CSV row that could not be read (left out of the parsed data)
+export interface CsvParseError {
+  file: string;
+  line: number;
+  reason: string;
 }
 
 export interface ParsedData {
@@ -129,4 +479,51 @@ export interface ParsedData {
   schemeLinePeriods: ProductionSchemeLinePeriod[];
   preferences: ProductionPreference[];
   mixRows: MixRow[];
+  parseErrors: CsvParseError[];
+  mergeReport?: MergeReport; // set when an export came from more than one file
+}
+
+// Arc Flow location code → PRODUCE dbo.Locations.ID
+export interface LocationMapping {
+  code: string;
+  locationId: number;
+  description?: string;
+}
+
+export interface TransformOptions {
+  locationMappings?: LocationMapping[];
+  spaceModelRules?: SpaceModelRule[];
+  idLedger?: IdLedger; // ids from previous runs (sequential from 1 when unset)
+  planYear?: number; // ISO week-numbering year: sets 52/53 weeks and adds dates (53 weeks, no dates when unset)
+  weekRounding?: WeekRoundingPolicy; // how period days and line durations become weeks (round when unset)
+  phaseMergeRules?: PhaseMergeRule[]; // per category / genus phase handling (built-in defaults when unset)
+  eventExclusionRules?: EventExclusionRule[]; // recipe → event links to mark IsExcluded (none when unset)
+}
+
+// Partial weeks: round to nearest, always up, always down, or keep the fraction
+export type WeekRoundingPolicy = 'round' | 'ceil' | 'floor' | 'fractional';
+
+export interface PlanCalendar {
+  planYear?: number;
+  weeksInYear: 52 | 53;
+}
+
+// Transform stages in run order, reported while the transform runs
+export type TransformStage = 'dictionary' | 'catalogs' | 'recipes' | 'events' | 'mixes' | 'wildcards' | 'audit';
+
+export interface TransformProgress {
+  stage: TransformStage;
+  status: 'running' | 'complete';
+  durationMs?: number; // set when complete
+  count?: number;
+  detail?: string;
+}
+
+// One pipeline step as shown in the stepper (parse, transform stages, then output validation)
+export interface TransformStepInfo {
+  label: string;
+  status: 'pending' | 'running' | 'complete' | 'error';
+  outputCount?: number;
+  detail?: string;
+  durationMs?: number; // measured in the worker
 }
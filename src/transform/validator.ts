@@ -1,4 +1,17 @@
-import type { ParsedData } from './types';
+import type { ParsedData, TransformOptions } from './types';
+import { DEFAULT_LOCATION_MAPPINGS, findUnmappedLocations } from './locationMap';
+import { MERGE_MODE_LABELS, describeMerge } from './mergeDrops';
+import { createPlanCalendar, planYearStart } from './calendar';
+import { describePhaseMergeRule } from './phaseMerge';
+import { describeEventExclusionRule } from './eventExclusion';
+import { describeSpaceModelRule } from './spaceModel';
+import { parseSchemeCode } from './schemeCode';
+import {
+  DEFAULT_WEEK_ROUNDING,
+  WEEK_ROUNDING_LABELS,
+  describeWeekRoundingChange,
+  findWeekRoundingChanges,
+} from './weekRounding';
 
 export interface ValidationIssue {
   severity: 'error' | 'warning' | 'info';
@@ -31,7 +44,7 @@ export interface ValidationResult {
   qualityScore: number; // 0-100
 }
 
-export function validateParsedData(data: ParsedData): ValidationResult {
+export function validateParsedData(data: ParsedData, options: TransformOptions = {}): ValidationResult {
   const issues: ValidationIssue[] = [];
 
   const schemeCodesInSchemes = new Set(data.schemes.map(s => s.code));
@@ -56,6 +69,46 @@ export function validateParsedData(data: ParsedData): ValidationResult {
     issues.push({ severity: 'info', category: 'Optional Data', message: 'No 4M Variant Mixes loaded — mix output will be empty. Upload the Excel file if needed.' });
   }
 
+  // --- Unreadable CSV rows (one issue per file) ---
+  const parseErrorsByFile = new Map<string, ParsedData['parseErrors']>();
+  for (const error of data.parseErrors ?? []) {
+    const existing = parseErrorsByFile.get(error.file) || [];
+    existing.push(error);
+    parseErrorsByFile.set(error.file, existing);
+  }
+  for (const [file, errors] of parseErrorsByFile) {
+    issues.push({
+      severity: 'warning',
+      category: 'Parse Errors',
+      message: `${errors.length} CSV problem(s) in ${file} — affected rows were skipped`,
+      details: errors.slice(0, 10).map(e => `line ${e.line}: ${e.reason}`).join('; ') +
+        (errors.length > 10 ? ` (+${errors.length - 10} more)` : ''),
+      count: errors.length,
+    });
+  }
+
+  // --- Exports merged from several files ---
+  if (data.mergeReport) {
+    issues.push({
+      severity: 'info',
+      category: 'Merged Files',
+      message: `Merged multiple Arc Flow files per export (${MERGE_MODE_LABELS[data.mergeReport.mode].toLowerCase()})`,
+      details: describeMerge(data.mergeReport).join('; '),
+    });
+    const conflicts = data.mergeReport.conflicts;
+    if (conflicts.length > 0) {
+      issues.push({
+        severity: 'warning',
+        category: 'Merged Files',
+        message: `${conflicts.length} row(s) conflict between files — the first file's row was kept`,
+        details: conflicts.slice(0, 10)
+          .map(c => `${c.key}: ${c.droppedFile}:${c.droppedLine} vs ${c.keptFile}:${c.keptLine} (${c.differences})`)
+          .join('; ') + (conflicts.length > 10 ? ` (+${conflicts.length - 10} more)` : ''),
+        count: conflicts.length,
+      });
+    }
+  }
+
   // --- Orphan references ---
   const orphanPrefSchemes = [...schemeCodesInPrefs].filter(c => !schemeCodesInSchemes.has(c));
   if (orphanPrefSchemes.length > 0) {
@@ -90,6 +143,170 @@ export function validateParsedData(data: ParsedData): ValidationResult {
     });
   }
 
+  // --- Location mapping ---
+  const unmappedLocations = findUnmappedLocations(
+    [...data.preferences.map(p => p.locationCode), ...data.mixRows.map(m => m.location)],
+    options.locationMappings ?? DEFAULT_LOCATION_MAPPINGS
+  );
+  if (unmappedLocations.length > 0) {
+    issues.push({
+      severity: 'error',
+      category: 'Location Mapping',
+      message: `${unmappedLocations.length} location code(s) have no PRODUCE LocationID — PRODUCE will reject their recipes. Add them to the location mapping.`,
+      details: unmappedLocations.join(', '),
+      count: unmappedLocations.length,
+    });
+  }
+
+  // --- Plan calendar ---
+  const calendar = createPlanCalendar(options.planYear);
+  if (calendar.planYear !== undefined) {
+    issues.push({
+      severity: 'info',
+      category: 'Plan Calendar',
+      message: `Plan year ${calendar.planYear} has ${calendar.weeksInYear} ISO weeks; week 1 starts ${planYearStart(calendar)}`,
+    });
+  }
+  const lateStartPeriods = data.schemeLinePeriods.filter(p => p.periodNo > calendar.weeksInYear);
+  if (lateStartPeriods.length > 0) {
+    issues.push({
+      severity: 'warning',
+      category: 'Plan Calendar',
+      message: `${lateStartPeriods.length} period(s) start in week ${lateStartPeriods[0].periodNo} but ${calendar.planYear} has ${calendar.weeksInYear} weeks — they start in week 1 of the next year`,
+      details: [...new Set(lateStartPeriods.map(p => p.schemeCode))].slice(0, 10).join(', '),
+      count: lateStartPeriods.length,
+    });
+  }
+  const firstPeriodByLine = new Map<string, { schemeCode: string; periodNo: number }>();
+  for (const period of data.schemeLinePeriods) {
+    const key = `${period.schemeCode}|${period.lineNo}|${period.phase}`;
+    const first = firstPeriodByLine.get(key);
+    if (!first || period.periodNo < first.periodNo) firstPeriodByLine.set(key, period);
+  }
+  const wrappingLines = [...firstPeriodByLine.values()].filter(p => p.periodNo > 1);
+  if (wrappingLines.length > 0) {
+    issues.push({
+      severity: 'info',
+      category: 'Plan Calendar',
+      message: calendar.planYear !== undefined
+        ? `${wrappingLines.length} scheme line(s) have no period starting in week 1 — their last period wraps into the next year`
+        : `${wrappingLines.length} scheme line(s) have no period starting in week 1 — those weeks have no rule unless a plan year is set`,
+      details: [...new Set(wrappingLines.map(p => p.schemeCode))].slice(0, 10).join(', '),
+      count: wrappingLines.length,
+    });
+  }
+
+  // --- Scheme code grammar ---
+  const schemeCodes = [...new Set(data.schemes.map(s => s.code))];
+  const parsedCodes = schemeCodes.map(code => ({ code, parts: parseSchemeCode(code) }));
+  const malformedCodes = parsedCodes.filter(c => c.parts.errors.length > 0);
+  if (malformedCodes.length > 0) {
+    issues.push({
+      severity: 'warning',
+      category: 'Scheme Codes',
+      message: `${malformedCodes.length} scheme code(s) do not fit the {prefix}-{category}-{genus}-{time profile} grammar`,
+      details: malformedCodes.slice(0, 10).map(c => `"${c.code}": ${c.parts.errors.join('; ')}`).join(', '),
+      count: malformedCodes.length,
+    });
+  }
+  const plainCodes = parsedCodes.filter(c => c.parts.prefixKind === 'none' && c.parts.errors.length === 0);
+  if (plainCodes.length > 0) {
+    issues.push({
+      severity: 'info',
+      category: 'Scheme Codes',
+      message: `${plainCodes.length} scheme code(s) are plain ids with no prefix, category or time profile`,
+      details: plainCodes.slice(0, 10).map(c => c.code).join(', '),
+      count: plainCodes.length,
+    });
+  }
+  const noTimeProfile = parsedCodes.filter(c => c.parts.prefixKind !== 'none' && !c.parts.timeProfile);
+  if (noTimeProfile.length > 0) {
+    issues.push({
+      severity: 'info',
+      category: 'Scheme Codes',
+      message: `${noTimeProfile.length} scheme code(s) have no time profile; their triggers are named after the phase`,
+      details: noTimeProfile.slice(0, 10).map(c => c.code).join(', '),
+      count: noTimeProfile.length,
+    });
+  }
+
+  // --- Phase merge rules ---
+  const schemePhases = new Set(data.schemeLines.map(l => l.phase));
+  const unusedPhaseRules = (options.phaseMergeRules ?? []).filter(rule => !schemePhases.has(rule.phase));
+  if (unusedPhaseRules.length > 0) {
+    issues.push({
+      severity: 'warning',
+      category: 'Phase Merge Rules',
+      message: `${unusedPhaseRules.length} phase merge rule(s) name a phase no scheme line has`,
+      details: unusedPhaseRules.map(describePhaseMergeRule).join(', '),
+      count: unusedPhaseRules.length,
+    });
+  }
+
+  // --- Event exclusion rules ---
+  const preferenceSchemes = new Set(data.preferences.map(p => p.schemeCode));
+  const exclusionValues = {
+    phase: schemePhases,
+    location: new Set(data.preferences.map(p => p.locationCode.toUpperCase())),
+    category: new Set([...preferenceSchemes].map(code => parseSchemeCode(code).category)),
+  };
+  const unusedExclusionRules = (options.eventExclusionRules ?? [])
+    .filter(rule => !exclusionValues[rule.scope].has(rule.value));
+  if (unusedExclusionRules.length > 0) {
+    issues.push({
+      severity: 'warning',
+      category: 'Event Exclusion Rules',
+      message: `${unusedExclusionRules.length} event exclusion rule(s) match nothing in the data`,
+      details: unusedExclusionRules.map(describeEventExclusionRule).join(', '),
+      count: unusedExclusionRules.length,
+    });
+  }
+
+  // --- Space model rules ---
+  const schemeGenera = new Map(data.schemes.map(s => [s.code, s.genusCode]));
+  const spaceModelValues = {
+    category: new Set([...exclusionValues.category].map(category => category.toUpperCase())),
+    genus: new Set([...preferenceSchemes].map(code => (schemeGenera.get(code) ?? '').toUpperCase())),
+  };
+  const spaceModelRules = options.spaceModelRules ?? [];
+  const unusedSpaceModelRules = spaceModelRules
+    .filter(rule => !spaceModelValues[rule.scope].has(rule.value.trim().toUpperCase()));
+  if (unusedSpaceModelRules.length > 0) {
+    issues.push({
+      severity: 'warning',
+      category: 'Space Model Rules',
+      message: `${unusedSpaceModelRules.length} space model rule(s) name a category or genus no preference has`,
+      details: unusedSpaceModelRules.map(describeSpaceModelRule).join(', '),
+      count: unusedSpaceModelRules.length,
+    });
+  }
+  const widthlessRules = spaceModelRules.filter(rule => rule.model === 'fixedWidth' && !(rule.fixedWidth && rule.fixedWidth > 0));
+  if (widthlessRules.length > 0) {
+    issues.push({
+      severity: 'warning',
+      category: 'Space Model Rules',
+      message: `${widthlessRules.length} fixed-width space model rule(s) have no positive width; their specs fall back to 12×12`,
+      details: widthlessRules.map(describeSpaceModelRule).join(', '),
+      count: widthlessRules.length,
+    });
+  }
+
+  // --- Week rounding ---
+  const weekRounding = options.weekRounding ?? DEFAULT_WEEK_ROUNDING;
+  const roundingChanges = findWeekRoundingChanges(data, weekRounding);
+  if (roundingChanges.length > 0) {
+    const differFromDefault = roundingChanges.filter(c => c.weeks !== c.defaultWeeks).length;
+    issues.push({
+      severity: 'info',
+      category: 'Week Rounding',
+      message: `${roundingChanges.length} period(s) are not whole weeks and change under "${WEEK_ROUNDING_LABELS[weekRounding]}"` +
+        (weekRounding !== DEFAULT_WEEK_ROUNDING ? ` (${differFromDefault} differ from rounding to nearest)` : ''),
+      details: roundingChanges.slice(0, 10).map(describeWeekRoundingChange).join('; ') +
+        (roundingChanges.length > 10 ? ` (+${roundingChanges.length - 10} more)` : ''),
+      count: roundingChanges.length,
+    });
+  }
+
   // --- Incomplete data ---
   const schemesWithoutLines = [...schemeCodesInSchemes].filter(c => !schemeCodesInLines.has(c));
   if (schemesWithoutLines.length > 0) {
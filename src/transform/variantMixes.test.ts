@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { buildVariantMixes, largestRemainder, SMALLINT_MAX } from './variantMixes';
+import { createPlanCalendar } from './calendar';
+import type { RecipeMix } from './types';
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+function mix(recipeId: number, catalogId: number, mixPct: number, startWeek = 1, endWeek = 52): RecipeMix {
+  return {
+    id: 0,
+    recipeId,
+    catalogId,
+    mixPct,
+    commonItem: 'CI',
+    location: 'OH08',
+    variant: String(catalogId),
+    startWeek,
+    endWeek,
+    note: '',
+    lineage: { sources: [], steps: [] },
+  };
+}
+
+describe('largestRemainder', () => {
+  it('rounds thirds to whole percents adding up to 100', () => {
+    const rounded = largestRemainder([100 / 3, 100 / 3, 100 / 3]);
+    expect(sum(rounded)).toBe(100);
+    expect([...rounded].sort()).toEqual([33, 33, 34]);
+  });
+
+  it('gives the left-over units to the largest fractions', () => {
+    expect(largestRemainder([12.6, 37.3, 50.1])).toEqual([13, 37, 50]);
+    expect(largestRemainder([14.5, 14.5, 71])).toEqual([15, 14, 71]);
+  });
+
+  it('treats float noise as the whole number it stands for', () => {
+    expect(largestRemainder([12.999999999999998, 87.00000000000001])).toEqual([13, 87]);
+  });
+
+  it('adds up to 100 for any split into several shares', () => {
+    for (let parts = 2; parts <= 9; parts++) {
+      const shares = Array.from({ length: parts }, (_, i) => i + 1);
+      const values = shares.map(share => (share * 100) / sum(shares));
+      expect(sum(largestRemainder(values)), `${parts} parts`).toBe(100);
+    }
+  });
+});
+
+describe('buildVariantMixes', () => {
+  const calendar = createPlanCalendar(2027);
+
+  it('averages the weekly mixes and rounds BLNVariantMixes to 100', () => {
+    const { recipeMixes, blnVariantMixes } = buildVariantMixes([
+      mix(1, 10, 60, 1, 26), mix(1, 11, 40, 1, 26),
+      mix(1, 10, 30, 27, 52), mix(1, 11, 35, 27, 52), mix(1, 12, 35, 27, 52),
+    ], calendar);
+    expect(recipeMixes).toEqual([
+      { recipeId: 1, catalogId: 10, mixPct: 45 },
+      { recipeId: 1, catalogId: 11, mixPct: 37.5 },
+      { recipeId: 1, catalogId: 12, mixPct: 17.5 },
+    ]);
+    expect(sum(blnVariantMixes.map(m => m.mixPct))).toBe(100);
+  });
+
+  it('scales the other rows up when a CatalogID is outside the smallint range', () => {
+    const { blnVariantMixes, warnings } = buildVariantMixes([
+      mix(1, 10, 50), mix(1, 11, 25), mix(1, SMALLINT_MAX + 1, 25),
+    ], calendar);
+    expect(blnVariantMixes).toEqual([
+      { recipeId: 1, catalogId: 10, mixPct: 67 },
+      { recipeId: 1, catalogId: 11, mixPct: 33 },
+    ]);
+    expect(warnings.some(w => w.includes('smallint'))).toBe(true);
+  });
+});
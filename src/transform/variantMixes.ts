@@ -0,0 +1,102 @@
+import type { PlanCalendar, RecipeMix, VariantMix } from './types';
+import { windowWeeks } from './calendar';
+
+/** dbo.BLNVariantMixes.CatalogID is a smallint */
+export const SMALLINT_MIN = -32768;
+export const SMALLINT_MAX = 32767;
+
+function round4(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Round values to whole numbers that add up to the rounded total
+ * (largest-remainder / Hamilton method): every value is floored, then the
+ * units left over go to the largest fractional parts (ties: larger value first)
+ */
+export function largestRemainder(values: number[]): number[] {
+  const total = Math.round(values.reduce((sum, v) => sum + v, 0));
+  const floors = values.map(v => Math.floor(v + 1e-9)); // float noise such as 12.999999999999998 counts as 13
+  let left = total - floors.reduce((sum, v) => sum + v, 0);
+
+  const order = values
+    .map((value, idx) => ({ idx, value, fraction: value - floors[idx] }))
+    .sort((a, b) => b.fraction - a.fraction || b.value - a.value || a.idx - b.idx);
+  const rounded = [...floors];
+  for (const { idx } of order) {
+    if (left <= 0) break;
+    rounded[idx]++;
+    left--;
+  }
+  return rounded;
+}
+
+/**
+ * Collapse the weekly mixes into one row per recipe and catalog, in both
+ * PRODUCE formats: Setup.RecipeMixes keeps the week-weighted average as a
+ * float; dbo.BLNVariantMixes first leaves out CatalogIDs outside the smallint
+ * range, then scales the rows that remain back up to the recipe total and
+ * rounds them with largestRemainder so they still add up to 100. The range check here is on the CatalogID this export writes;
+ * the SQL script repeats it on the resolved PRODUCE CatalogID before rounding.
+ * Mixes without a catalog (note "No Catalog") are left out of both.
+ */
+export function buildVariantMixes(
+  mixes: RecipeMix[],
+  calendar: PlanCalendar
+): { recipeMixes: VariantMix[]; blnVariantMixes: VariantMix[]; warnings: string[] } {
+  const warnings: string[] = [];
+  const byRecipe = new Map<number, { weeks: Set<number>; pctWeeks: Map<number, number> }>();
+  let withoutCatalog = 0;
+
+  for (const mix of mixes) {
+    if (!mix.catalogId) {
+      withoutCatalog++;
+      continue;
+    }
+    const weeks = windowWeeks(calendar, mix.startWeek, mix.endWeek);
+    const entry = byRecipe.get(mix.recipeId) ?? { weeks: new Set<number>(), pctWeeks: new Map<number, number>() };
+    for (const week of weeks) entry.weeks.add(week);
+    entry.pctWeeks.set(mix.catalogId, (entry.pctWeeks.get(mix.catalogId) ?? 0) + mix.mixPct * weeks.length);
+    byRecipe.set(mix.recipeId, entry);
+  }
+  if (withoutCatalog > 0) {
+    warnings.push(`${withoutCatalog} mix row(s) without a catalog left out of RecipeMixes and BLNVariantMixes`);
+  }
+
+  const recipeMixes: VariantMix[] = [];
+  const blnVariantMixes: VariantMix[] = [];
+  const offTotals: string[] = [];
+  const outOfRange: string[] = [];
+
+  for (const [recipeId, { weeks, pctWeeks }] of byRecipe) {
+    const rows = [...pctWeeks].map(([catalogId, sum]) => ({ recipeId, catalogId, mixPct: sum / Math.max(weeks.size, 1) }));
+    const total = rows.reduce((sum, row) => sum + row.mixPct, 0);
+    if (Math.abs(total - 100) > 0.01) offTotals.push(`#${recipeId} (${round4(total)}%)`);
+
+    const inRange: typeof rows = [];
+    for (const row of rows) {
+      recipeMixes.push({ ...row, mixPct: round4(row.mixPct) });
+      if (row.catalogId >= SMALLINT_MIN && row.catalogId <= SMALLINT_MAX) inRange.push(row);
+      else outOfRange.push(`#${row.catalogId} (recipe #${recipeId})`);
+    }
+    const inRangeTotal = inRange.reduce((sum, row) => sum + row.mixPct, 0);
+    const scale = inRangeTotal > 0 ? total / inRangeTotal : 1;
+    const whole = largestRemainder(inRange.map(row => row.mixPct * scale));
+    inRange.forEach((row, idx) => blnVariantMixes.push({ ...row, mixPct: whole[idx] }));
+  }
+
+  if (offTotals.length > 0) {
+    warnings.push(
+      `${offTotals.length} recipe(s) have mixes that do not add up to 100%; BLNVariantMixes keeps their rounded total: ` +
+      `${offTotals.slice(0, 10).join(', ')}${offTotals.length > 10 ? ` (+${offTotals.length - 10} more)` : ''}`
+    );
+  }
+  if (outOfRange.length > 0) {
+    warnings.push(
+      `${outOfRange.length} mix row(s) rejected from BLNVariantMixes (the recipe's other rows are scaled up to make up the total): ` +
+      `CatalogID outside the smallint range ${SMALLINT_MIN}–${SMALLINT_MAX}: ${outOfRange.slice(0, 10).join(', ')}${outOfRange.length > 10 ? ` (+${outOfRange.length - 10} more)` : ''}`
+    );
+  }
+
+  return { recipeMixes, blnVariantMixes, warnings };
+}
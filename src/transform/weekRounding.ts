@@ -0,0 +1,86 @@
+import type { ParsedData, WeekRoundingPolicy } from './types';
+
+export const WEEK_ROUNDING_LABELS: Record<WeekRoundingPolicy, string> = {
+  round: 'Round to nearest week',
+  ceil: 'Round partial weeks up',
+  floor: 'Round partial weeks down',
+  fractional: 'Keep fractional weeks',
+};
+
+/** Policy used when none is set (38 days → 5 weeks, 39 days → 6 weeks) */
+export const DEFAULT_WEEK_ROUNDING: WeekRoundingPolicy = 'round';
+
+export function isWeekRoundingPolicy(value: unknown): value is WeekRoundingPolicy {
+  return typeof value === 'string' && Object.hasOwn(WEEK_ROUNDING_LABELS, value);
+}
+
+/**
+ * Apply a rounding policy to a number of weeks.
+ * Fractional weeks keep two decimals (38 days → 5.43).
+ */
+export function roundWeeks(weeks: number, policy: WeekRoundingPolicy = DEFAULT_WEEK_ROUNDING): number {
+  switch (policy) {
+    case 'ceil':
+      // Tolerate float noise such as 5.0000000001
+      return Math.ceil(Math.round(weeks * 1e6) / 1e6);
+    case 'floor':
+      return Math.floor(Math.round(weeks * 1e6) / 1e6);
+    case 'fractional':
+      return Math.round(weeks * 100) / 100;
+    default:
+      return Math.round(weeks);
+  }
+}
+
+/**
+ * Convert days to weeks (7 days = 1 week) under a rounding policy
+ */
+export function daysToWeeks(days: number, policy: WeekRoundingPolicy = DEFAULT_WEEK_ROUNDING): number {
+  return roundWeeks(days / 7, policy);
+}
+
+export interface WeekRoundingChange {
+  schemeCode: string;
+  lineNo: string;
+  phase: string;
+  periodNo?: number; // unset for a line duration (lines without periods)
+  days: number;
+  exactWeeks: number;
+  weeks: number; // under the chosen policy
+  defaultWeeks: number; // under round to nearest
+}
+
+/**
+ * Every period (and line duration used for a full year) whose week count
+ * differs from its exact length under the policy
+ */
+export function findWeekRoundingChanges(data: ParsedData, policy: WeekRoundingPolicy): WeekRoundingChange[] {
+  const linesWithPeriods = new Set(data.schemeLinePeriods.map(p => `${p.schemeCode}|${p.lineNo}|${p.phase}`));
+  const changes: WeekRoundingChange[] = [];
+
+  const check = (schemeCode: string, lineNo: string, phase: string, days: number, periodNo?: number) => {
+    const exactWeeks = days / 7;
+    const weeks = daysToWeeks(days, policy);
+    if (Math.abs(weeks - exactWeeks) < 0.005) return; // fractional weeks keep two decimals
+    changes.push({ schemeCode, lineNo, phase, periodNo, days, exactWeeks, weeks, defaultWeeks: daysToWeeks(days) });
+  };
+
+  for (const line of data.schemeLines) {
+    if (!linesWithPeriods.has(`${line.schemeCode}|${line.lineNo}|${line.phase}`)) {
+      check(line.schemeCode, line.lineNo, line.phase, line.duration * 7);
+    }
+  }
+  for (const period of data.schemeLinePeriods) {
+    check(period.schemeCode, period.lineNo, period.phase, period.days, period.periodNo);
+  }
+  return changes;
+}
+
+/**
+ * "BN-04INVEG-STR-LSP line 2 GROW period 20: 38 d → 5 wks (5.43)"
+ */
+export function describeWeekRoundingChange(change: WeekRoundingChange): string {
+  const where = change.periodNo !== undefined ? ` period ${change.periodNo}` : '';
+  return `${change.schemeCode} line ${change.lineNo} ${change.phase}${where}: ` +
+    `${Math.round(change.days * 100) / 100} d → ${change.weeks} wks (${change.exactWeeks.toFixed(2)})`;
+}
@@ -0,0 +1,155 @@
+/**
+ * Main-thread side of the pipeline worker.
+ * Inspecting new uploads, parsing (CSV + XLSX) and the transform run in a
+ * Web Worker so large uploads don't freeze the UI; each job gets its own worker, which posts
+ * per-stage progress and is terminated when the job ends or is cancelled.
+ */
+import type {
+  ArcFlowFileKind,
+  ArcFlowMergeMode,
+  FileDetection,
+  ParsedData,
+  TransformOptions,
+  TransformProgress,
+  TransformResult,
+} from '../transform/types';
+import type { ValidationResult } from '../transform/validator';
+
+// Parse stages, reported the same way as transform stages
+export type ParseStage = 'csv' | 'excel';
+
+export type ParseProgress = Omit<TransformProgress, 'stage'> & { stage: ParseStage };
+
+// Reading new uploads to count rows and detect the Arc Flow export
+export type InspectProgress = Omit<TransformProgress, 'stage'> & { stage: 'inspect' };
+
+export type PipelineProgress = ParseProgress | InspectProgress | TransformProgress;
+
+// What inspecting one uploaded CSV found (Excel files are not read until parsing)
+export interface InspectedFile {
+  name: string;
+  rowCount: number;
+  detection: FileDetection;
+}
+
+export interface ParseJobFile {
+  name: string;
+  file: File;
+  format: 'csv' | 'excel';
+  kind?: ArcFlowFileKind | null; // Arc Flow export a CSV holds
+}
+
+export interface ParseJobResult {
+  parsedData: ParsedData;
+  validationResult: ValidationResult;
+  timings: { parseMs: number; validateMs: number };
+}
+
+export type PipelineRequest =
+  | { type: 'inspect'; files: File[] }
+  | { type: 'parse'; files: ParseJobFile[]; mergeMode: ArcFlowMergeMode; options: TransformOptions }
+  | { type: 'transform'; parsedData: ParsedData; options: TransformOptions };
+
+export type PipelineMessage =
+  | { type: 'progress'; progress: PipelineProgress }
+  | { type: 'done'; output: InspectedFile[] | ParseJobResult | TransformResult }
+  | { type: 'error'; message: string };
+
+/**
+ * True when a job was stopped through its AbortSignal
+ */
+export function isCancelled(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function runJob<R>(
+  request: PipelineRequest,
+  onProgress?: (progress: PipelineProgress) => void,
+  signal?: AbortSignal
+): Promise<R> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Cancelled', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('./pipelineWorker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+    const handleAbort = () => {
+      finish();
+      reject(new DOMException('Cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<PipelineMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.type === 'error') {
+        finish();
+        reject(new Error(message.message));
+      } else {
+        finish();
+        resolve(message.output as R);
+      }
+    };
+    worker.onerror = event => {
+      finish();
+      reject(new Error(event.message || 'Pipeline worker failed'));
+    };
+
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * Decode new CSV uploads in a worker, counting their rows and detecting which Arc Flow export each holds
+ */
+export function inspectInWorker(
+  files: File[],
+  onProgress?: (progress: InspectProgress) => void,
+  signal?: AbortSignal
+): Promise<InspectedFile[]> {
+  return runJob<InspectedFile[]>(
+    { type: 'inspect', files },
+    progress => onProgress?.(progress as InspectProgress),
+    signal
+  );
+}
+
+/**
+ * Read, parse, merge and validate the uploaded files in a worker
+ * (options are the transform options the validation checks against)
+ */
+export function parseInWorker(
+  files: ParseJobFile[],
+  mergeMode: ArcFlowMergeMode,
+  options: TransformOptions,
+  onProgress?: (progress: ParseProgress) => void,
+  signal?: AbortSignal
+): Promise<ParseJobResult> {
+  return runJob<ParseJobResult>(
+    { type: 'parse', files, mergeMode, options },
+    progress => onProgress?.(progress as ParseProgress),
+    signal
+  );
+}
+
+/**
+ * Run the transform in a worker, reporting each stage as it starts and completes
+ */
+export function transformInWorker(
+  parsedData: ParsedData,
+  options: TransformOptions,
+  onProgress?: (progress: TransformProgress) => void,
+  signal?: AbortSignal
+): Promise<TransformResult> {
+  return runJob<TransformResult>(
+    { type: 'transform', parsedData, options },
+    progress => onProgress?.(progress as TransformProgress),
+    signal
+  );
+}
@@ -0,0 +1,124 @@
+/**
+ * Pipeline Web Worker: runs one inspect, parse or transform job per message and
+ * posts progress, then the result (or an error), back to the main thread.
+ */
+import {
+  parseAllFiles,
+  parseMixExcel,
+  fileToArrayBuffer,
+  readBlobChunks,
+  decodeCsvStream,
+  streamCsvRecords,
+  readCsvChunks,
+  detectArcFlowHeader,
+  transform,
+} from '../transform';
+import { validateParsedData } from '../transform/validator';
+import type { ArcFlowFileKind } from '../transform/types';
+import type { PipelineRequest, PipelineMessage, ParseJobResult, ParseStage, InspectedFile } from './pipelineJobs';
+
+function post(message: PipelineMessage) {
+  self.postMessage(message);
+}
+
+function reportRunning(stage: ParseStage | 'inspect', detail: string) {
+  post({ type: 'progress', progress: { stage, status: 'running', detail } });
+}
+
+async function inspectJob(request: Extract<PipelineRequest, { type: 'inspect' }>): Promise<InspectedFile[]> {
+  const start = performance.now();
+  const inspected: InspectedFile[] = [];
+
+  for (const file of request.files) {
+    reportRunning('inspect', `Reading ${file.name}`);
+
+    // Streamed: only the header row is kept, data rows are just counted
+    let header: string[] | null = null;
+    let rowCount = 0;
+    for await (const record of streamCsvRecords(decodeCsvStream(readBlobChunks(file)))) {
+      if (record.error) continue;
+      if (header) rowCount++;
+      else header = record.fields;
+    }
+    inspected.push({ name: file.name, rowCount, detection: detectArcFlowHeader(file.name, header ?? []) });
+  }
+  post({
+    type: 'progress',
+    progress: {
+      stage: 'inspect',
+      status: 'complete',
+      durationMs: Math.round(performance.now() - start),
+      count: inspected.reduce((sum, f) => sum + f.rowCount, 0),
+      detail: `${inspected.length} CSV file(s) read`,
+    },
+  });
+
+  return inspected;
+}
+
+async function parseJob(request: Extract<PipelineRequest, { type: 'parse' }>): Promise<ParseJobResult> {
+  const parseStart = performance.now();
+
+  // CSV exports
+  const csvFiles: { name: string; content: string[]; kind?: ArcFlowFileKind | null }[] = [];
+  for (const f of request.files.filter(f => f.format === 'csv')) {
+    reportRunning('csv', `Reading ${f.name}`);
+    csvFiles.push({ name: f.name, content: await readCsvChunks(f.file), kind: f.kind });
+  }
+  reportRunning('csv', 'Parsing rows');
+  const parsedData = parseAllFiles(csvFiles, request.mergeMode);
+  const csvDone = performance.now();
+  post({
+    type: 'progress',
+    progress: {
+      stage: 'csv',
+      status: 'complete',
+      durationMs: Math.round(csvDone - parseStart),
+      count: parsedData.schemes.length + parsedData.schemeLines.length +
+        parsedData.schemeLinePeriods.length + parsedData.preferences.length,
+      detail: `${parsedData.schemes.length} schemes, ${parsedData.schemeLines.length} lines, ${parsedData.preferences.length} prefs`,
+    },
+  });
+
+  // 4M Excel mixes
+  for (const f of request.files.filter(f => f.format === 'excel')) {
+    reportRunning('excel', `Reading ${f.name}`);
+    parsedData.mixRows.push(...parseMixExcel(await fileToArrayBuffer(f.file), f.name));
+  }
+  const validateStart = performance.now();
+  post({
+    type: 'progress',
+    progress: {
+      stage: 'excel',
+      status: 'complete',
+      durationMs: Math.round(validateStart - csvDone),
+      count: parsedData.mixRows.length,
+      detail: parsedData.mixRows.length > 0 ? `${parsedData.mixRows.length} mix rows` : 'No mix data',
+    },
+  });
+
+  const validationResult = validateParsedData(parsedData, request.options);
+
+  return {
+    parsedData,
+    validationResult,
+    timings: {
+      parseMs: Math.round(validateStart - parseStart),
+      validateMs: Math.round(performance.now() - validateStart),
+    },
+  };
+}
+
+self.onmessage = async (event: MessageEvent<PipelineRequest>) => {
+  const request = event.data;
+  try {
+    const output = request.type === 'inspect'
+      ? await inspectJob(request)
+      : request.type === 'parse'
+        ? await parseJob(request)
+        : transform(request.parsedData, request.options, progress => post({ type: 'progress', progress }));
+    post({ type: 'done', output });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};